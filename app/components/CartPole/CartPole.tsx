@@ -1,114 +1,257 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CartPoleModel, DEFAULT_CART_POLE_PARAMS } from './CartPoleModel';
+import type { CartPolePhysicsState } from './CartPoleModel';
+import IntegratorSelect from '../Simulation/IntegratorSelect';
+import type { IntegratorType } from '../Simulation/Integrators';
+import ControllerPanel from '../Simulation/ControllerPanel';
+import PIDTuningPanel from '../Simulation/PIDTuningPanel';
+import StepTestPanel from '../Simulation/StepTestPanel';
+import TelemetryPanel from '../Simulation/TelemetryPanel';
+import { TelemetryRecorder } from '../Simulation/TelemetryRecorder';
+import StripChartPanel from '../Simulation/StripChartPanel';
+import ReplayPanel from '../Simulation/ReplayPanel';
+import { DEFAULT_REPLAY_CONFIG } from '../Simulation/Replay';
+import type { ReplaySchema, ReplayView } from '../Simulation/Replay';
+import type { ChartSignal } from '../Simulation/StripChart';
+import type { ControllerDiagnostics } from '../Simulation/Controller';
+import {
+  CART_POLE_CONTROLLERS,
+  resolveCartPoleControllerConfig,
+} from './CartPoleControllerRegistry';
+import { MAX_FORCE } from './CartPoleControllers';
+import type { CartPolePIDConfig } from './CartPoleControllers';
+import { createCartPoleTuner } from './CartPoleTuning';
+import { createCartPoleStepTester } from './CartPoleStepTest';
 
-interface CartPoleState {
-  x: number;
-  theta: number;
-  dx: number;
-  dtheta: number;
+interface CartPoleState extends CartPolePhysicsState {
   score: number;
+  work: number; // 外力がカートにした仕事（エネルギー誤差の評価用）
+  force: number; // 直近のステップで加えた力
 }
 
-interface PIDController {
-  target: number;
-  kp: number;
-  ki: number;
-  kd: number;
-  integral: number;
-  lastError: number;
-}
+// 開始姿勢（倒立付近から始めるか、真下に垂れ下がった状態から始めるか）
+type StartMode = 'upright' | 'hanging';
 
-const CartPoleSimulator = () => {
-  const [state, setState] = useState<CartPoleState>({
+const START_MODE_LABELS: Record<StartMode, string> = {
+  upright: '倒立付近から',
+  hanging: '垂下から（振り上げ）',
+};
+
+const INITIAL_STATES: Record<StartMode, CartPoleState> = {
+  upright: {
     x: 0,
     theta: 0.1,
     dx: 0,
     dtheta: 0,
-    score: 0
-  });
-  
-  // PID制御のパラメータ
-  const [pidController, setPidController] = useState<PIDController>({
-    target: 0,  // 目標角度（垂直）
-    kp: 30,     // 比例ゲイン
-    ki: 0.1,    // 積分ゲイン
-    kd: 10,     // 微分ゲイン
-    integral: 0,
-    lastError: 0
-  });
-  
+    score: 0,
+    work: 0,
+    force: 0
+  },
+  hanging: {
+    x: 0,
+    theta: Math.PI,
+    dx: 0,
+    dtheta: 0,
+    score: 0,
+    work: 0,
+    force: 0
+  }
+};
+
+// グラフに表示できる信号（列名は記録に対応する）
+const CART_POLE_CHART_SIGNALS: ChartSignal[] = [
+  {
+    id: 'theta',
+    label: 'ポールの角度',
+    unit: 'rad',
+    series: [{ key: 'theta', label: 'θ', color: '#dc2626' }],
+  },
+  {
+    id: 'x',
+    label: 'カート位置',
+    unit: 'm',
+    series: [{ key: 'x', label: 'x', color: '#2563eb' }],
+  },
+  {
+    id: 'force',
+    label: '制御力',
+    unit: 'N',
+    series: [
+      { key: 'force', label: '制御力', color: '#111827' },
+      { key: 'manualForce', label: '手動', color: '#6b7280', dashed: true },
+    ],
+  },
+  {
+    id: 'rates',
+    label: '速度・角速度',
+    series: [
+      { key: 'dx', label: 'dx [m/s]', color: '#2563eb' },
+      { key: 'dtheta', label: 'dθ [rad/s]', color: '#dc2626' },
+    ],
+  },
+  {
+    id: 'energy',
+    label: '力学的エネルギー',
+    unit: 'J',
+    series: [{ key: 'energy', label: 'エネルギー', color: '#16a34a' }],
+  },
+];
+
+// リプレイの記録を取り出した時点の実行条件
+interface CartPoleReplayContext {
+  startMode: StartMode;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const CART_POLE_STATE_KEYS = [
+  'x',
+  'theta',
+  'dx',
+  'dtheta',
+  'score',
+  'work',
+  'force',
+];
+
+// 読み込んだリプレイの検証（描画する状態がすべて数値であること）
+const CART_POLE_REPLAY_SCHEMA: ReplaySchema<
+  CartPoleState,
+  CartPoleReplayContext
+> = {
+  simulator: 'cartPole',
+  isFrame: (frame): frame is CartPoleState =>
+    isRecord(frame) &&
+    CART_POLE_STATE_KEYS.every(key => typeof frame[key] === 'number'),
+  isContext: (context): context is CartPoleReplayContext =>
+    isRecord(context) &&
+    typeof context.startMode === 'string' &&
+    context.startMode in START_MODE_LABELS,
+};
+
+// グラフ表示用の記録（毎ステップ、60秒分）
+const LIVE_TELEMETRY_CONFIG = { rate: 50, capacity: 3000 };
+
+const CartPoleSimulator = () => {
+  const [startMode, setStartMode] = useState<StartMode>('upright');
+  const [state, setState] = useState<CartPoleState>(INITIAL_STATES.upright);
+
+  // 制御器の選択と設定
+  const [controllerId, setControllerId] = useState<string>('manual');
+  const [controllerConfigs, setControllerConfigs] = useState<
+    Record<string, unknown>
+  >(() => CART_POLE_CONTROLLERS.defaultConfigs());
+  const controllerRef = useRef(CART_POLE_CONTROLLERS.create('manual'));
+  const [diagnostics, setDiagnostics] = useState<ControllerDiagnostics>({});
+
   const [isRunning, setIsRunning] = useState(false);
   const [force, setForce] = useState(0);
-  const [isAutoPilot, setIsAutoPilot] = useState(false);
+  const [integrator, setIntegrator] = useState<IntegratorType>('euler');
+
+  const telemetryRef = useRef<TelemetryRecorder>();
+  if (!telemetryRef.current) {
+    telemetryRef.current = new TelemetryRecorder();
+  }
+  const telemetry = telemetryRef.current;
+  const liveTelemetryRef = useRef<TelemetryRecorder>();
+  if (!liveTelemetryRef.current) {
+    liveTelemetryRef.current = new TelemetryRecorder(LIVE_TELEMETRY_CONFIG);
+  }
+  const liveTelemetry = liveTelemetryRef.current;
+  // リプレイ用に描画する状態を記録する
+  const replayRecorderRef = useRef<TelemetryRecorder<CartPoleState>>();
+  if (!replayRecorderRef.current) {
+    replayRecorderRef.current = new TelemetryRecorder(DEFAULT_REPLAY_CONFIG);
+  }
+  const replayRecorder = replayRecorderRef.current;
+  // 再生中のリプレイ（null ならライブ表示）
+  const [replay, setReplay] = useState<ReplayView<
+    CartPoleState,
+    CartPoleReplayContext
+  > | null>(null);
 
   // 物理パラメータ
-  const gravity = 9.81;
-  const cartMass = 1.0;
-  const poleMass = 0.1;
-  const totalMass = cartMass + poleMass;
-  const poleLength = 0.5;
+  const params = DEFAULT_CART_POLE_PARAMS;
+  const poleLength = params.poleLength;
+  // 描画する状態（リプレイの再生中は記録したもの）
+  const view = replay?.frame ?? state;
+  const viewStartMode = replay?.context.startMode ?? startMode;
+  const initialEnergy = CartPoleModel.energy(INITIAL_STATES[viewStartMode], params);
   const dt = 0.02;
-  const maxForce = 15.0;
-
-  // PID制御
-  const calculatePIDControl = useCallback((state: CartPoleState, controller: PIDController) => {
-    const error = state.theta - controller.target;
-    controller.integral = controller.integral + error * dt;
-    const derivative = (error - controller.lastError) / dt;
-    
-    const output = 
-      controller.kp * error + 
-      controller.ki * controller.integral + 
-      controller.kd * derivative;
-    
-    controller.lastError = error;
-    
-    // 出力を制限
-    return Math.max(-maxForce, Math.min(maxForce, output));
-  }, []);
+
+  // 再描画は毎ステップ起きるため、調整・ステップ試験の対象は設定が変わったときだけ作り直す
+  const tuner = useMemo(
+    () =>
+      createCartPoleTuner(
+        controllerConfigs.pid as CartPolePIDConfig,
+        params,
+        dt,
+        integrator,
+      ),
+    [controllerConfigs.pid, integrator],
+  );
+  const stepTester = useMemo(
+    () =>
+      createCartPoleStepTester(
+        controllerId,
+        resolveCartPoleControllerConfig(controllerId, controllerConfigs),
+        params,
+        dt,
+        integrator,
+      ),
+    [controllerId, controllerConfigs, integrator],
+  );
+
+  const handleSelectController = (id: string) => {
+    controllerRef.current = CART_POLE_CONTROLLERS.create(
+      id,
+      resolveCartPoleControllerConfig(id, controllerConfigs),
+    );
+    setControllerId(id);
+    setDiagnostics(controllerRef.current.getDiagnostics());
+  };
+
+  const handleSelectStartMode = (mode: StartMode) => {
+    setStartMode(mode);
+    setState(INITIAL_STATES[mode]);
+    controllerRef.current.reset();
+    telemetry.clear();
+    liveTelemetry.clear();
+    replayRecorder.clear();
+    setIsRunning(false);
+  };
+
+  // 再生中はシミュレーションを止める
+  const handleReplayViewChange = (
+    next: ReplayView<CartPoleState, CartPoleReplayContext> | null,
+  ) => {
+    if (next) {
+      setIsRunning(false);
+    }
+    setReplay(next);
+  };
+
+  const handleControllerConfigChange = (config: unknown) => {
+    const configs = { ...controllerConfigs, [controllerId]: config };
+    controllerRef.current.configure(
+      resolveCartPoleControllerConfig(controllerId, configs),
+    );
+    setControllerConfigs(configs);
+  };
 
   // 物理シミュレーション
   const updatePhysics = useCallback((currentState: CartPoleState, appliedForce: number) => {
-    const { x, theta, dx, dtheta } = currentState;
-    
-    const cosTheta = Math.cos(theta);
-    const sinTheta = Math.sin(theta);
-
-    const poleForce = poleMass * poleLength * dtheta * dtheta * sinTheta;
-    
-    const temp = totalMass - poleMass * cosTheta * cosTheta;
-    
-    // ポールの角加速度
-    const ddtheta = (
-      gravity * sinTheta * totalMass - 
-      (appliedForce + poleForce) * cosTheta
-    ) / (poleLength * temp);
-
-    // カートの加速度
-    const ddx = (
-      appliedForce + 
-      poleForce + 
-      poleMass * poleLength * ddtheta * cosTheta -
-      poleMass * poleLength * dtheta * dtheta * sinTheta
-    ) / totalMass;
-
-    // オイラー法による状態更新
-    const newX = x + dx * dt;
-    const newTheta = theta + dtheta * dt;
-    const newDx = dx + ddx * dt;
-    const newDtheta = dtheta + ddtheta * dt;
-
-    // 角度を-πからπの範囲に正規化
-    const normalizedTheta = ((newTheta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
-    const finalTheta = normalizedTheta > Math.PI ? normalizedTheta - 2 * Math.PI : normalizedTheta;
+    const next = CartPoleModel.step(currentState, appliedForce, params, dt, integrator);
 
     return {
-      x: newX,
-      theta: finalTheta,
-      dx: newDx,
-      dtheta: newDtheta,
-      score: currentState.score + 1
+      ...next,
+      score: currentState.score + 1,
+      // 力はステップ内で一定なので、仕事は力×変位で厳密に求まる
+      work: currentState.work + appliedForce * (next.x - currentState.x),
+      force: appliedForce
     };
-  }, []);
+  }, [integrator]);
 
   // アニメーションループ
   useEffect(() => {
@@ -116,38 +259,58 @@ const CartPoleSimulator = () => {
 
     const interval = setInterval(() => {
       setState(current => {
-        let currentForce = force;
-        
-        // 自動制御モードの場合、PID制御の出力を使用
-        if (isAutoPilot) {
-          currentForce = calculatePIDControl(current, pidController);
-        }
-        
+        const currentForce = controllerRef.current.update(
+          { state: current, manualForce: force, params },
+          dt
+        );
+
         const newState = updatePhysics(current, currentForce);
         
-        // 失敗条件をチェック
-        if (
-          Math.abs(newState.x) > 2.4 ||
-          Math.abs(newState.theta) > Math.PI * 0.5
-        ) {
+        // 失敗条件をチェック（垂下から始めるときはポールが回ってよいので、レールの端だけを見る）
+        const failed =
+          startMode === 'hanging'
+            ? CartPoleModel.hasLeftTrack(newState)
+            : CartPoleModel.hasFailed(newState);
+        if (failed) {
           setIsRunning(false);
           return current;
         }
         
         return newState;
       });
+      setDiagnostics(controllerRef.current.getDiagnostics());
     }, dt * 1000);
 
     return () => clearInterval(interval);
-  }, [isRunning, force, updatePhysics, isAutoPilot, calculatePIDControl, pidController]);
+  }, [isRunning, force, updatePhysics, startMode]);
 
-  // キーボード制御
+  // ステップごとに状態が更新されるので、そのたびに記録を試みる
   useEffect(() => {
-    if (isAutoPilot) return;  // 自動制御中はキー入力を無効化
+    if (!isRunning) return;
+    const sample = () => ({
+      x: state.x,
+      theta: state.theta,
+      dx: state.dx,
+      dtheta: state.dtheta,
+      force: state.force,
+      manualForce: force,
+      energy: CartPoleModel.energy(state, params),
+      ...Object.fromEntries(
+        Object.entries(controllerRef.current.getDiagnostics()).map(
+          ([key, value]) => [`controller.${key}`, value],
+        ),
+      ),
+    });
+    telemetry.record(state.score * dt, sample);
+    liveTelemetry.record(state.score * dt, sample);
+    replayRecorder.record(state.score * dt, () => state);
+  }, [state]);
 
+  // キーボード制御（キー入力を使うかは制御器が決める）
+  useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowLeft') setForce(-maxForce);
-      if (e.key === 'ArrowRight') setForce(maxForce);
+      if (e.key === 'ArrowLeft') setForce(-MAX_FORCE);
+      if (e.key === 'ArrowRight') setForce(MAX_FORCE);
     };
 
     const handleKeyUp = () => {
@@ -161,15 +324,11 @@ const CartPoleSimulator = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isAutoPilot]);
-
-  // ゲインの更新関数
-  const updateGain = (type: 'kp' | 'ki' | 'kd', value: number) => {
-    setPidController(prev => ({
-      ...prev,
-      [type]: value
-    }));
-  };
+  }, []);
+
+  // 数値積分によるエネルギー誤差（外力の仕事を差し引いた分）
+  const energyDrift =
+    CartPoleModel.energy(view, params) - initialEnergy - view.work;
 
   // SVGでの描画
   const scale = 100;
@@ -181,83 +340,119 @@ const CartPoleSimulator = () => {
     <div className="flex flex-col items-center p-4 bg-gray-100 rounded-lg">
       <div className="mb-4 space-x-2">
         <button
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
           onClick={() => {
-            setState({
-              x: 0,
-              theta: 0.1,
-              dx: 0,
-              dtheta: 0,
-              score: 0
-            });
-            setPidController(prev => ({
-              ...prev,
-              integral: 0,
-              lastError: 0
-            }));
+            setState(INITIAL_STATES[startMode]);
+            controllerRef.current.reset();
+            telemetry.clear();
+            liveTelemetry.clear();
+            replayRecorder.clear();
             setIsRunning(true);
           }}
+          disabled={replay !== null}
         >
           リセット
         </button>
         <button
-          className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
+          className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
           onClick={() => setIsRunning(prev => !prev)}
+          disabled={replay !== null}
         >
           {isRunning ? '停止' : '開始'}
         </button>
-        <button
-          className={`px-4 py-2 rounded ${
-            isAutoPilot 
-              ? 'bg-green-500 hover:bg-green-600' 
-              : 'bg-gray-500 hover:bg-gray-600'
-          } text-white`}
-          onClick={() => setIsAutoPilot(prev => !prev)}
+        <select
+          value={startMode}
+          onChange={e => handleSelectStartMode(e.target.value as StartMode)}
+          className="px-2 py-2 border rounded bg-white"
         >
-          {isAutoPilot ? 'PID制御 ON' : 'PID制御 OFF'}
-        </button>
+          {Object.entries(START_MODE_LABELS).map(([mode, label]) => (
+            <option key={mode} value={mode}>
+              {label}
+            </option>
+          ))}
+        </select>
       </div>
 
-      {/* PIDゲイン調整 */}
       <div className="mb-4 p-4 border rounded bg-white">
-        <h3 className="font-bold mb-2">PIDゲイン調整</h3>
-        <div className="grid grid-cols-3 gap-4">
-          <div>
-            <label className="block">Kp (比例)</label>
-            <input
-              type="number"
-              value={pidController.kp}
-              onChange={(e) => updateGain('kp', Number(e.target.value))}
-              className="w-24 px-2 py-1 border rounded"
-            />
-          </div>
-          <div>
-            <label className="block">Ki (積分)</label>
-            <input
-              type="number"
-              value={pidController.ki}
-              onChange={(e) => updateGain('ki', Number(e.target.value))}
-              className="w-24 px-2 py-1 border rounded"
-              step="0.1"
-            />
-          </div>
-          <div>
-            <label className="block">Kd (微分)</label>
-            <input
-              type="number"
-              value={pidController.kd}
-              onChange={(e) => updateGain('kd', Number(e.target.value))}
-              className="w-24 px-2 py-1 border rounded"
-            />
-          </div>
+        <ControllerPanel
+          registry={CART_POLE_CONTROLLERS}
+          selectedId={controllerId}
+          onSelect={handleSelectController}
+          config={controllerConfigs[controllerId]}
+          onConfigChange={handleControllerConfigChange}
+          diagnostics={diagnostics}
+        />
+      </div>
+
+      {controllerId === 'pid' && (
+        <div className="mb-4 p-4 border rounded bg-white">
+          <PIDTuningPanel
+            tuner={tuner}
+            onApply={handleControllerConfigChange}
+          />
         </div>
+      )}
+
+      <div className="mb-4 p-4 w-full max-w-2xl border rounded bg-white">
+        <StepTestPanel
+          tester={stepTester}
+          controllerName={CART_POLE_CONTROLLERS.get(controllerId).name}
+        />
+      </div>
+
+      {/* 記録はステップごとの再描画の後に追加されるため、表示は1ステップ遅れる */}
+      <div className="mb-4 p-4 w-full max-w-2xl border rounded bg-white">
+        <StripChartPanel
+          samples={liveTelemetry.getSamples()}
+          signals={CART_POLE_CHART_SIGNALS}
+          defaultSelected={['theta', 'x', 'force']}
+        />
+      </div>
+
+      <div className="mb-4 p-4 border rounded bg-white">
+        <TelemetryPanel
+          recorder={telemetry}
+          getMetadata={() => ({
+            simulator: 'cartPole',
+            startMode,
+            integrator,
+            dt,
+            params,
+            controller: {
+              id: controllerId,
+              config: resolveCartPoleControllerConfig(
+                controllerId,
+                controllerConfigs,
+              ),
+            },
+          })}
+          fileName={`cartpole-${controllerId}`}
+        />
+      </div>
+
+      <div className="mb-4 p-4 w-full max-w-2xl border rounded bg-white">
+        <ReplayPanel
+          recorder={replayRecorder}
+          schema={CART_POLE_REPLAY_SCHEMA}
+          getContext={() => ({ startMode })}
+          fileName={`cartpole-${controllerId}`}
+          onViewChange={handleReplayViewChange}
+        />
+      </div>
+
+      <div className="mb-4">
+        <IntegratorSelect value={integrator} onChange={setIntegrator} />
       </div>
 
       <div className="mb-4">
-        <p>スコア: {state.score}</p>
-        <p>角度: {(state.theta * 180 / Math.PI).toFixed(1)}°</p>
-        <p>位置: {state.x.toFixed(2)}m</p>
-        {isAutoPilot && <p>制御力: {force.toFixed(2)}N</p>}
+        <p>スコア: {view.score}</p>
+        <p>角度: {(view.theta * 180 / Math.PI).toFixed(1)}°</p>
+        <p>位置: {view.x.toFixed(2)}m</p>
+        <p>制御力: {view.force.toFixed(2)}N</p>
+        <p>
+          エネルギー誤差: {energyDrift.toExponential(2)}J
+          ({(energyDrift / Math.abs(initialEnergy) * 100).toFixed(3)}%)
+        </p>
       </div>
 
       <svg 
@@ -277,7 +472,7 @@ const CartPoleSimulator = () => {
         />
 
         {/* カート */}
-        <g transform={`translate(${state.x * scale}, 0)`}>
+        <g transform={`translate(${view.x * scale}, 0)`}>
           <rect
             x={-cartWidth / 2}
             y={-cartHeight}
@@ -290,16 +485,16 @@ const CartPoleSimulator = () => {
           <line
             x1="0"
             y1={-cartHeight}
-            x2={Math.sin(state.theta) * poleLength * 2 * scale}
-            y2={-cartHeight - Math.cos(state.theta) * poleLength * 2 * scale}
+            x2={Math.sin(view.theta) * poleLength * 2 * scale}
+            y2={-cartHeight - Math.cos(view.theta) * poleLength * 2 * scale}
             stroke="red"
             strokeWidth={poleWidth}
           />
 
           {/* ポールの重心 */}
           <circle
-            cx={Math.sin(state.theta) * poleLength * scale}
-            cy={-cartHeight - Math.cos(state.theta) * poleLength * scale}
+            cx={Math.sin(view.theta) * poleLength * scale}
+            cy={-cartHeight - Math.cos(view.theta) * poleLength * scale}
             r="5"
             fill="black"
           />
@@ -311,11 +506,7 @@ const CartPoleSimulator = () => {
       </svg>
 
       <div className="mt-4 text-center">
-        {isAutoPilot ? (
-          <p>PID制御がポールのバランスを自動的に保ちます</p>
-        ) : (
-          <p>← → キーで制御</p>
-        )}
+        <p>{CART_POLE_CONTROLLERS.get(controllerId).description}</p>
       </div>
     </div>
   );
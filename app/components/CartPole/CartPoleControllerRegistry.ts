@@ -0,0 +1,71 @@
+import { ControllerRegistry } from '../Simulation/Controller';
+import type { LQRWeights } from '../Simulation/LQR';
+import { createLQRSettings } from '../Simulation/LQRWeightsPanel';
+import {
+  CartPoleLQRController,
+  CartPolePIDController,
+  CartPoleSwingUpController,
+  DEFAULT_CART_POLE_LQR_WEIGHTS,
+  DEFAULT_CART_POLE_PID_CONFIG,
+  DEFAULT_CART_POLE_SWING_UP_CONFIG,
+  ManualCartPoleController,
+} from './CartPoleControllers';
+import type {
+  CartPoleObservation,
+  CartPolePIDConfig,
+  CartPoleSwingUpConfig,
+} from './CartPoleControllers';
+import CartPolePIDSettings from './CartPolePIDSettings';
+import CartPoleSwingUpSettings from './CartPoleSwingUpSettings';
+
+// 倒立振子シミュレータで選択できる制御器
+export const CART_POLE_CONTROLLERS = new ControllerRegistry<
+  CartPoleObservation,
+  number
+>()
+  .register<null>({
+    id: 'manual',
+    name: '手動',
+    description: '← → キーで制御',
+    defaultConfig: null,
+    create: () => new ManualCartPoleController(),
+  })
+  .register<CartPolePIDConfig>({
+    id: 'pid',
+    name: 'PID制御',
+    description: 'PID制御がポールのバランスを自動的に保ちます',
+    defaultConfig: DEFAULT_CART_POLE_PID_CONFIG,
+    create: config => new CartPolePIDController(config),
+    Settings: CartPolePIDSettings,
+  })
+  .register<LQRWeights>({
+    id: 'lqr',
+    name: 'LQR',
+    description:
+      '倒立点で線形化したモデルから最適ゲインを求め、角度とカート位置を同時に制御します',
+    defaultConfig: DEFAULT_CART_POLE_LQR_WEIGHTS,
+    create: weights => new CartPoleLQRController(weights),
+    Settings: createLQRSettings(['x', 'θ', 'dx', 'dθ'], ['力']),
+  })
+  .register<CartPoleSwingUpConfig>({
+    id: 'swingUp',
+    name: '振り上げ',
+    description:
+      'エネルギー整形で垂下状態からポールを振り上げ、倒立付近で安定化制御器に引き継ぎます',
+    defaultConfig: DEFAULT_CART_POLE_SWING_UP_CONFIG,
+    create: config => new CartPoleSwingUpController(config),
+    Settings: CartPoleSwingUpSettings,
+  });
+
+// 振り上げの安定化制御器には、LQR・PID を単独で選んだときに編集した設定を使う
+export const resolveCartPoleControllerConfig = (
+  id: string,
+  configs: Record<string, unknown>,
+): unknown =>
+  id === 'swingUp'
+    ? {
+        ...(configs.swingUp as CartPoleSwingUpConfig),
+        lqr: configs.lqr as LQRWeights,
+        pid: configs.pid as CartPolePIDConfig,
+      }
+    : configs[id];
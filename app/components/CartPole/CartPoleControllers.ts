@@ -0,0 +1,302 @@
+import { PIDController } from '../Simulation/PIDController';
+import { discretize, linearize } from '../Simulation/Linearization';
+import type { LinearModel } from '../Simulation/Linearization';
+import { designLQR } from '../Simulation/LQR';
+import type { LQRWeights } from '../Simulation/LQR';
+import { multiplyVector } from '../Simulation/Matrix';
+import type { Matrix } from '../Simulation/Matrix';
+import type {
+  Controller,
+  ControllerDiagnostics,
+} from '../Simulation/Controller';
+import { CartPoleModel } from './CartPoleModel';
+import type { CartPoleParams, CartPolePhysicsState } from './CartPoleModel';
+
+// カートに加える力の上限[N]
+export const MAX_FORCE = 15.0;
+
+// 倒立振子の制御器に渡す観測
+export interface CartPoleObservation {
+  state: CartPolePhysicsState;
+  manualForce: number; // キー操作による力
+  params: CartPoleParams;
+}
+
+export type CartPoleController<Config = unknown> = Controller<
+  CartPoleObservation,
+  number,
+  Config
+>;
+
+export interface CartPolePIDConfig {
+  target: number; // 目標角度（垂直）
+  kp: number; // 比例ゲイン
+  ki: number; // 積分ゲイン
+  kd: number; // 微分ゲイン
+}
+
+export const DEFAULT_CART_POLE_PID_CONFIG: CartPolePIDConfig = {
+  target: 0,
+  kp: 30,
+  ki: 0.1,
+  kd: 10,
+};
+
+// 状態 [x, θ, dx, dθ] と力の重み
+export const DEFAULT_CART_POLE_LQR_WEIGHTS: LQRWeights = {
+  q: [1, 10, 1, 1],
+  r: [0.1],
+};
+
+// 振り上げの後に倒立を引き継ぐ制御器
+export type CartPoleStabilizer = 'lqr' | 'pid';
+
+export interface CartPoleSwingUpConfig {
+  energyGain: number; // ポールのエネルギー誤差（m g l で正規化）に対する力[N]
+  centeringGain: number; // カートを中央へ戻す位置ゲイン[N/m]
+  centeringDamping: number; // カートの速度に対する減衰[N·s/m]
+  stabilizer: CartPoleStabilizer;
+  captureAngle: number; // 倒立からの角度がこれ未満で安定化へ切り替える[rad]
+  captureEnergy: number; // かつエネルギー誤差（比）がこれ未満
+  releaseAngle: number; // 安定化中に角度がこれを超えたら振り上げへ戻る[rad]
+  // 安定化制御器の設定（LQR・PID を単独で選んだときに編集した値を引き継ぐ）
+  lqr: LQRWeights;
+  pid: CartPolePIDConfig;
+}
+
+export const DEFAULT_CART_POLE_SWING_UP_CONFIG: CartPoleSwingUpConfig = {
+  energyGain: 20,
+  centeringGain: 5,
+  centeringDamping: 2,
+  stabilizer: 'lqr',
+  captureAngle: 0.4,
+  captureEnergy: 0.2,
+  releaseAngle: 0.8,
+  lqr: DEFAULT_CART_POLE_LQR_WEIGHTS,
+  pid: DEFAULT_CART_POLE_PID_CONFIG,
+};
+
+// キー操作の力をそのまま加える
+export class ManualCartPoleController implements CartPoleController<null> {
+  public reset(): void {}
+
+  public update(observation: CartPoleObservation): number {
+    return observation.manualForce;
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    return {};
+  }
+
+  public configure(): void {}
+}
+
+// ポールの角度のみを見る PID
+export class CartPolePIDController
+  implements CartPoleController<CartPolePIDConfig>
+{
+  private config: CartPolePIDConfig;
+  private pid: PIDController;
+
+  constructor(config: CartPolePIDConfig) {
+    this.config = config;
+    this.pid = new PIDController(
+      config.kp,
+      config.ki,
+      config.kd,
+      -MAX_FORCE,
+      MAX_FORCE,
+    );
+  }
+
+  public configure(config: CartPolePIDConfig): void {
+    this.config = config;
+    this.pid.setGains(config.kp, config.ki, config.kd);
+  }
+
+  public reset(): void {
+    this.pid.reset();
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    const terms = this.pid.getTerms();
+    return { P: terms.p, I: terms.i, D: terms.d, 制御力: terms.output };
+  }
+
+  public update(observation: CartPoleObservation, dt: number): number {
+    // ポールが +θ 側へ倒れたらカートを +x 側へ押すため、符号を反転して渡す
+    return this.pid.update(-this.config.target, -observation.state.theta, dt);
+  }
+}
+
+// 倒立（全状態0・力0）の平衡点まわりで線形化し、刻み dt で離散化した状態方程式
+export function linearizeUpright(
+  params: CartPoleParams,
+  dt: number,
+): LinearModel {
+  return discretize(
+    linearize(
+      (state, [force]) => CartPoleModel.derivatives(state, force, params),
+      [0, 0, 0, 0],
+      [0],
+    ),
+    dt,
+  );
+}
+
+/**
+ * 倒立の平衡点まわりで設計した LQR。
+ * 角度に加えてカート位置も原点へ戻すため、レールの端まで流されない。
+ */
+export class CartPoleLQRController implements CartPoleController<LQRWeights> {
+  private weights: LQRWeights;
+  private design: {
+    params: CartPoleParams;
+    dt: number;
+    K: Matrix;
+  } | null = null;
+  private force = 0;
+
+  constructor(weights: LQRWeights) {
+    this.weights = weights;
+  }
+
+  public configure(weights: LQRWeights): void {
+    this.weights = weights;
+    this.design = null;
+  }
+
+  public reset(): void {
+    this.force = 0;
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    const gains = this.design?.K[0] ?? [];
+    return {
+      制御力: this.force,
+      ...Object.fromEntries(gains.map((gain, i) => [`K${i + 1}`, gain])),
+    };
+  }
+
+  public update(observation: CartPoleObservation, dt: number): number {
+    const { params } = observation;
+    if (
+      !this.design ||
+      this.design.params !== params ||
+      this.design.dt !== dt
+    ) {
+      try {
+        const { K } = designLQR(linearizeUpright(params, dt), this.weights);
+        this.design = { params, dt, K };
+      } catch {
+        // 設計できない重みでは力を加えない
+        this.design = { params, dt, K: [[0, 0, 0, 0]] };
+      }
+    }
+
+    const [output] = multiplyVector(
+      this.design.K,
+      CartPoleModel.toVector(observation.state),
+    );
+    this.force = Math.max(-MAX_FORCE, Math.min(MAX_FORCE, -output));
+    return this.force;
+  }
+}
+
+const createStabilizer = (config: CartPoleSwingUpConfig): CartPoleController =>
+  config.stabilizer === 'lqr'
+    ? new CartPoleLQRController(config.lqr)
+    : new CartPolePIDController(config.pid);
+
+/**
+ * エネルギー整形による振り上げ。ポールのエネルギーを倒立静止の m g l へ近づけるように
+ * カートを動かし、倒立付近に入ったら安定化制御器へ切り替える。
+ * 切り替えには角度のヒステリシスを持たせ、境界でのばたつきを防ぐ。
+ * PID は角度しか見ないため、引き継いだ後はカートがいずれレールの端まで流される。
+ */
+export class CartPoleSwingUpController
+  implements CartPoleController<CartPoleSwingUpConfig>
+{
+  private config: CartPoleSwingUpConfig;
+  private stabilizer: CartPoleController;
+  private stabilizing = false;
+  private energyError = 0;
+  private force = 0;
+
+  constructor(config: CartPoleSwingUpConfig) {
+    this.config = config;
+    this.stabilizer = createStabilizer(config);
+  }
+
+  public configure(config: CartPoleSwingUpConfig): void {
+    if (config.stabilizer !== this.config.stabilizer) {
+      this.stabilizer = createStabilizer(config);
+      this.stabilizing = false;
+    } else if (config.stabilizer === 'lqr' && config.lqr !== this.config.lqr) {
+      this.stabilizer.configure(config.lqr);
+    } else if (config.stabilizer === 'pid' && config.pid !== this.config.pid) {
+      this.stabilizer.configure(config.pid);
+    }
+    this.config = config;
+  }
+
+  public reset(): void {
+    this.stabilizer.reset();
+    this.stabilizing = false;
+    this.energyError = 0;
+    this.force = 0;
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    return {
+      安定化中: this.stabilizing ? 1 : 0,
+      エネルギー誤差: this.energyError,
+      制御力: this.force,
+    };
+  }
+
+  public update(observation: CartPoleObservation, dt: number): number {
+    const { state, params } = observation;
+    const {
+      energyGain,
+      centeringGain,
+      centeringDamping,
+      captureAngle,
+      captureEnergy,
+      releaseAngle,
+    } = this.config;
+    const uprightEnergy = params.poleMass * params.gravity * params.poleLength;
+    this.energyError =
+      (CartPoleModel.poleEnergy(state, params) - uprightEnergy) / uprightEnergy;
+
+    const angle = Math.abs(state.theta);
+    if (this.stabilizing && angle > releaseAngle) {
+      this.stabilizing = false;
+    } else if (
+      !this.stabilizing &&
+      angle < captureAngle &&
+      Math.abs(this.energyError) < captureEnergy
+    ) {
+      this.stabilizing = true;
+      this.stabilizer.reset();
+    }
+
+    if (this.stabilizing) {
+      this.force = this.stabilizer.update(observation, dt);
+      return this.force;
+    }
+
+    // カートを加速するとポールのエネルギーは -m l a dθ cosθ の割合で変わるため、
+    // 誤差に dθ cosθ（固有角振動数で正規化）を掛けて押す向きと強さを決める
+    const swing = state.dtheta * Math.cos(state.theta);
+    // 垂下で静止していると力が 0 のままになるため、正の向きへ押し出す
+    const direction =
+      swing === 0 ? 1 : swing / Math.sqrt(params.gravity / params.poleLength);
+    const force =
+      energyGain * this.energyError * direction -
+      centeringGain * state.x -
+      centeringDamping * state.dx;
+    this.force = Math.max(-MAX_FORCE, Math.min(MAX_FORCE, force));
+    return this.force;
+  }
+}
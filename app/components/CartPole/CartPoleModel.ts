@@ -0,0 +1,136 @@
+import { integrate } from '../Simulation/Integrators';
+import type { IntegratorType } from '../Simulation/Integrators';
+
+export interface CartPolePhysicsState {
+  x: number;
+  theta: number;
+  dx: number;
+  dtheta: number;
+}
+
+export interface CartPoleParams {
+  gravity: number;
+  cartMass: number;
+  poleMass: number;
+  poleLength: number; // 支点から重心までの距離
+}
+
+// 物理パラメータ
+export const DEFAULT_CART_POLE_PARAMS: CartPoleParams = {
+  gravity: 9.81,
+  cartMass: 1.0,
+  poleMass: 0.1,
+  poleLength: 0.5,
+};
+
+// レールの端（カート位置の絶対値の上限[m]）と、倒れたとみなす角度
+export const TRACK_LIMIT = 2.4;
+export const FAILURE_ANGLE = Math.PI * 0.5;
+
+/**
+ * カート・倒立振子モデル。ポールは重心に質量が集中した剛体棒として扱い、
+ * theta は鉛直上向きからの角度（時計回り正）。
+ * 状態ベクトルは [x, theta, dx, dtheta]。
+ */
+export const CartPoleModel = {
+  toVector(state: CartPolePhysicsState): number[] {
+    return [state.x, state.theta, state.dx, state.dtheta];
+  },
+
+  fromVector(vector: number[]): CartPolePhysicsState {
+    const [x, theta, dx, dtheta] = vector;
+    return { x, theta, dx, dtheta };
+  },
+
+  derivatives(
+    vector: number[],
+    appliedForce: number,
+    params: CartPoleParams,
+  ): number[] {
+    const [, theta, dx, dtheta] = vector;
+    const { gravity, poleMass, poleLength } = params;
+    const totalMass = params.cartMass + poleMass;
+
+    const cosTheta = Math.cos(theta);
+    const sinTheta = Math.sin(theta);
+
+    const poleForce = poleMass * poleLength * dtheta * dtheta * sinTheta;
+
+    const temp = totalMass - poleMass * cosTheta * cosTheta;
+
+    // ポールの角加速度
+    const ddtheta =
+      (gravity * sinTheta * totalMass - (appliedForce + poleForce) * cosTheta) /
+      (poleLength * temp);
+
+    // カートの加速度（ラグランジュの運動方程式から）
+    const ddx =
+      (appliedForce + poleForce - poleMass * poleLength * ddtheta * cosTheta) /
+      totalMass;
+
+    return [dx, dtheta, ddx, ddtheta];
+  },
+
+  step(
+    state: CartPolePhysicsState,
+    appliedForce: number,
+    params: CartPoleParams,
+    dt: number,
+    integrator: IntegratorType = 'euler',
+  ): CartPolePhysicsState {
+    const next = CartPoleModel.fromVector(
+      integrate(
+        integrator,
+        vector => CartPoleModel.derivatives(vector, appliedForce, params),
+        CartPoleModel.toVector(state),
+        dt,
+      ),
+    );
+
+    // 角度を-πからπの範囲に正規化
+    const normalizedTheta =
+      ((next.theta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    const finalTheta =
+      normalizedTheta > Math.PI
+        ? normalizedTheta - 2 * Math.PI
+        : normalizedTheta;
+
+    return { ...next, theta: finalTheta };
+  },
+
+  // レールから外れたか
+  hasLeftTrack(state: CartPolePhysicsState): boolean {
+    return Math.abs(state.x) > TRACK_LIMIT;
+  },
+
+  // レールから外れたか倒れたか
+  hasFailed(state: CartPolePhysicsState): boolean {
+    return (
+      CartPoleModel.hasLeftTrack(state) || Math.abs(state.theta) > FAILURE_ANGLE
+    );
+  },
+
+  // カートに対するポールの運動だけの力学的エネルギー（倒立静止で m g l、垂下静止で -m g l）
+  poleEnergy(state: CartPolePhysicsState, params: CartPoleParams): number {
+    const { gravity, poleMass, poleLength } = params;
+    return (
+      0.5 * poleMass * poleLength * poleLength * state.dtheta * state.dtheta +
+      poleMass * gravity * poleLength * Math.cos(state.theta)
+    );
+  },
+
+  // 力学的エネルギー（外力なし・摩擦なしでは保存される）
+  energy(state: CartPolePhysicsState, params: CartPoleParams): number {
+    const { gravity, poleMass, poleLength } = params;
+    const totalMass = params.cartMass + poleMass;
+    const cosTheta = Math.cos(state.theta);
+
+    const kinetic =
+      0.5 * totalMass * state.dx * state.dx +
+      poleMass * poleLength * cosTheta * state.dx * state.dtheta +
+      0.5 * poleMass * poleLength * poleLength * state.dtheta * state.dtheta;
+    const potential = poleMass * gravity * poleLength * cosTheta;
+
+    return kinetic + potential;
+  },
+};
@@ -0,0 +1,35 @@
+import type { ControllerSettingsProps } from '../Simulation/Controller';
+import type { CartPolePIDConfig } from './CartPoleControllers';
+
+const GAINS = [
+  { key: 'kp', label: 'Kp (比例)', step: 1 },
+  { key: 'ki', label: 'Ki (積分)', step: 0.1 },
+  { key: 'kd', label: 'Kd (微分)', step: 1 },
+] as const;
+
+// 倒立振子の PID ゲイン調整
+const CartPolePIDSettings = ({
+  config,
+  onChange,
+}: ControllerSettingsProps<CartPolePIDConfig>) => {
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      {GAINS.map(({ key, label, step }) => (
+        <div key={key}>
+          <label className="block">{label}</label>
+          <input
+            type="number"
+            value={config[key]}
+            onChange={e =>
+              onChange({ ...config, [key]: Number(e.target.value) })
+            }
+            className="w-24 px-2 py-1 border rounded"
+            step={step}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CartPolePIDSettings;
@@ -0,0 +1,67 @@
+import { analyzeStepResponse } from '../Simulation/StepResponse';
+import type {
+  StepResponseSample,
+  StepTester,
+} from '../Simulation/StepResponse';
+import type { IntegratorType } from '../Simulation/Integrators';
+import { CartPoleModel } from './CartPoleModel';
+import type { CartPoleParams, CartPolePhysicsState } from './CartPoleModel';
+import { CART_POLE_CONTROLLERS } from './CartPoleControllerRegistry';
+
+const TEST_DURATION = 10; // [s]
+
+/**
+ * 倒立状態のポールを振幅の角度だけ傾けた（角度の外乱を与えた）ときに、
+ * 垂直へ戻すまでの応答を試験する。
+ */
+export const createCartPoleStepTester = (
+  controllerId: string,
+  config: unknown,
+  params: CartPoleParams,
+  dt: number,
+  integrator: IntegratorType,
+): StepTester => ({
+  axes: [
+    {
+      id: 'angle',
+      name: '角度外乱',
+      unit: 'rad',
+      defaultAmplitude: 0.1,
+      duration: TEST_DURATION,
+    },
+  ],
+  run: (_, amplitude) => {
+    if (amplitude === 0) {
+      throw new Error('振幅を 0 以外にしてください');
+    }
+    const controller = CART_POLE_CONTROLLERS.create(controllerId, config);
+    let state: CartPolePhysicsState = {
+      x: 0,
+      theta: amplitude,
+      dx: 0,
+      dtheta: 0,
+    };
+    const samples: StepResponseSample[] = [];
+    let failed = false;
+    for (let time = dt; time <= TEST_DURATION + 1e-9; time += dt) {
+      const force = controller.update({ state, manualForce: 0, params }, dt);
+      state = CartPoleModel.step(state, force, params, dt, integrator);
+      if (CartPoleModel.hasFailed(state)) {
+        failed = true;
+        break;
+      }
+      samples.push({ time, value: state.theta, control: force });
+    }
+    if (samples.length === 0) {
+      throw new Error('試験の開始直後にポールが倒れました');
+    }
+
+    return {
+      initial: amplitude,
+      target: 0,
+      samples,
+      metrics: analyzeStepResponse(samples, amplitude, 0),
+      failed,
+    };
+  },
+});
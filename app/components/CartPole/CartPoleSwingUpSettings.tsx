@@ -0,0 +1,118 @@
+import type { ControllerSettingsProps } from '../Simulation/Controller';
+import type {
+  CartPoleStabilizer,
+  CartPoleSwingUpConfig,
+} from './CartPoleControllers';
+
+const STABILIZER_LABELS: Record<CartPoleStabilizer, string> = {
+  lqr: 'LQR',
+  pid: 'PID',
+};
+
+const GAINS = [
+  { key: 'energyGain', label: 'エネルギーゲイン [N]', step: 1 },
+  { key: 'centeringGain', label: '中央復帰ゲイン [N/m]', step: 0.5 },
+  { key: 'centeringDamping', label: '中央復帰減衰 [N·s/m]', step: 0.5 },
+] as const;
+
+// 切り替え角度は度で編集する
+const ANGLES = [
+  { key: 'captureAngle', label: '引き継ぐ角度 [°]' },
+  { key: 'releaseAngle', label: '振り上げへ戻る角度 [°]' },
+] as const;
+
+// 振り上げのゲインと、安定化制御器への切り替え条件の設定
+const CartPoleSwingUpSettings = ({
+  config,
+  onChange,
+}: ControllerSettingsProps<CartPoleSwingUpConfig>) => {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        {GAINS.map(({ key, label, step }) => (
+          <div key={key}>
+            <label className="block">{label}</label>
+            <input
+              type="number"
+              min="0"
+              value={config[key]}
+              onChange={e =>
+                onChange({
+                  ...config,
+                  [key]: Math.max(Number(e.target.value), 0),
+                })
+              }
+              className="w-24 px-2 py-1 border rounded"
+              step={step}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block">安定化制御器</label>
+          <select
+            value={config.stabilizer}
+            onChange={e =>
+              onChange({
+                ...config,
+                stabilizer: e.target.value as CartPoleStabilizer,
+              })
+            }
+            className="px-2 py-1 border rounded bg-white"
+          >
+            {Object.entries(STABILIZER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {ANGLES.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block">{label}</label>
+            <input
+              type="number"
+              min="1"
+              max="180"
+              value={Math.round((config[key] * 180) / Math.PI)}
+              onChange={e =>
+                onChange({
+                  ...config,
+                  [key]:
+                    (Math.min(Math.max(Number(e.target.value), 1), 180) *
+                      Math.PI) /
+                    180,
+                })
+              }
+              className="w-24 px-2 py-1 border rounded"
+              step={1}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block">
+          引き継ぐエネルギー誤差（倒立時のエネルギーに対する比）
+        </label>
+        <input
+          type="number"
+          min="0"
+          value={config.captureEnergy}
+          onChange={e =>
+            onChange({
+              ...config,
+              captureEnergy: Math.max(Number(e.target.value), 0),
+            })
+          }
+          className="w-24 px-2 py-1 border rounded"
+          step={0.05}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CartPoleSwingUpSettings;
@@ -0,0 +1,68 @@
+import { PerformanceIndex } from '../Simulation/PerformanceIndex';
+import { optimizeGains } from '../Simulation/PIDTuning';
+import type { PIDTuner } from '../Simulation/PIDTuning';
+import type { PIDGains } from '../Simulation/PIDController';
+import type { IntegratorType } from '../Simulation/Integrators';
+import { CartPoleModel, FAILURE_ANGLE } from './CartPoleModel';
+import type { CartPoleParams, CartPolePhysicsState } from './CartPoleModel';
+import { CartPolePIDController, MAX_FORCE } from './CartPoleControllers';
+import type { CartPolePIDConfig } from './CartPoleControllers';
+
+// 最適化では初期角度から立て直す応答を評価する
+const SCENARIO_DURATION = 10; // [s]
+const INITIAL_ANGLE = 0.1; // [rad]
+// 倒れたときに評価値へ加える罰則
+const FAILURE_PENALTY = 1000;
+
+const UPRIGHT: CartPolePhysicsState = { x: 0, theta: 0, dx: 0, dtheta: 0 };
+
+/**
+ * 倒立振子の角度 PID の最適化。
+ * 角度のループだけではカート位置を保てないため、レールの端は評価に含めない。
+ */
+export const createCartPoleTuner = (
+  config: CartPolePIDConfig,
+  params: CartPoleParams,
+  dt: number,
+  integrator: IntegratorType,
+): PIDTuner<CartPolePIDConfig> => {
+  const getGains = (): PIDGains => ({
+    kp: config.kp,
+    ki: config.ki,
+    kd: config.kd,
+  });
+
+  const evaluate = (gains: PIDGains, effortWeight: number): number => {
+    const controller = new CartPolePIDController({ ...config, ...gains });
+    const index = new PerformanceIndex({ effort: effortWeight });
+    let state: CartPolePhysicsState = { ...UPRIGHT, theta: INITIAL_ANGLE };
+    for (let time = dt; time <= SCENARIO_DURATION; time += dt) {
+      const force = controller.update({ state, manualForce: 0, params }, dt);
+      state = CartPoleModel.step(state, force, params, dt, integrator);
+      if (Math.abs(state.theta) > FAILURE_ANGLE) {
+        return index.getValue() + FAILURE_PENALTY;
+      }
+      index.add(
+        time,
+        (state.theta - config.target) / INITIAL_ANGLE,
+        force / MAX_FORCE,
+        dt,
+      );
+    }
+    return index.getValue();
+  };
+
+  return {
+    loops: [{ id: 'angle', name: '角度' }],
+    getGains,
+    withGains: (_, gains) => ({ ...config, ...gains }),
+    // 角度だけを見る PID では開ループが不安定で、リレーではポールを支えきれない
+    runRelayTest: null,
+    optimize: (_, { effortWeight, maxIterations }) =>
+      optimizeGains(
+        getGains(),
+        gains => evaluate(gains, effortWeight),
+        maxIterations,
+      ),
+  };
+};
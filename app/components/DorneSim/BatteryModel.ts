@@ -0,0 +1,120 @@
+import type { PhysicsParams, ThrustCommand } from './types';
+
+// セル1つあたりの開放電圧曲線（充電率 → 電圧[V]）
+const CELL_VOLTAGE_CURVE: [number, number][] = [
+  [0.0, 3.3],
+  [0.05, 3.5],
+  [0.1, 3.6],
+  [0.2, 3.7],
+  [0.5, 3.8],
+  [0.8, 4.0],
+  [1.0, 4.2],
+];
+
+export const CELL_FULL_VOLTAGE = 4.2;
+
+// 低残量として通知する充電率
+export const LOW_BATTERY_THRESHOLD = 0.2;
+
+// 電流の表示・残り時間推定に使う平滑化の時定数
+const CURRENT_FILTER_TIME_CONSTANT = 1.0;
+
+export interface BatteryState {
+  charge: number; // 残り電荷[A·s]
+  voltage: number; // 端子電圧[V]
+  current: number; // 放電電流[A]
+  averageCurrent: number; // 平滑化した電流[A]
+  power: number; // 消費電力[W]
+}
+
+export const BatteryModel = {
+  initialState(params: PhysicsParams): BatteryState {
+    const voltage = BatteryModel.openCircuitVoltage(1, params);
+    return {
+      charge: params.BATTERY_CAPACITY,
+      voltage,
+      current: 0,
+      averageCurrent: 0,
+      power: 0,
+    };
+  },
+
+  stateOfCharge(state: BatteryState, params: PhysicsParams): number {
+    return Math.min(Math.max(state.charge / params.BATTERY_CAPACITY, 0), 1);
+  },
+
+  openCircuitVoltage(stateOfCharge: number, params: PhysicsParams): number {
+    const soc = Math.min(Math.max(stateOfCharge, 0), 1);
+    for (let i = 1; i < CELL_VOLTAGE_CURVE.length; i++) {
+      const [soc1, v1] = CELL_VOLTAGE_CURVE[i];
+      if (soc <= soc1) {
+        const [soc0, v0] = CELL_VOLTAGE_CURVE[i - 1];
+        const ratio = (soc - soc0) / (soc1 - soc0);
+        return (v0 + (v1 - v0) * ratio) * params.BATTERY_CELLS;
+      }
+    }
+    return CELL_FULL_VOLTAGE * params.BATTERY_CELLS;
+  },
+
+  // 運動量理論より、ロータの必要電力は推力の1.5乗に比例する
+  rotorPower(thrust: ThrustCommand, params: PhysicsParams): number {
+    return (
+      params.ROTOR_POWER_COEFFICIENT *
+      (Math.pow(Math.max(thrust.left, 0), 1.5) +
+        Math.pow(Math.max(thrust.right, 0), 1.5))
+    );
+  },
+
+  /**
+   * 満充電・無負荷時に対する最大推力の比率。
+   * 推力は回転数の2乗、回転数は電圧に比例するとみなす。
+   */
+  maxThrustScale(state: BatteryState, params: PhysicsParams): number {
+    if (state.charge <= 0) return 0;
+    const ratio = state.voltage / (CELL_FULL_VOLTAGE * params.BATTERY_CELLS);
+    return ratio * ratio;
+  },
+
+  step(
+    state: BatteryState,
+    thrust: ThrustCommand,
+    params: PhysicsParams,
+    dt: number,
+  ): BatteryState {
+    if (state.charge <= 0) {
+      return { ...state, charge: 0, voltage: 0, current: 0, power: 0 };
+    }
+
+    const openVoltage = BatteryModel.openCircuitVoltage(
+      BatteryModel.stateOfCharge(state, params),
+      params,
+    );
+    const resistance = params.BATTERY_INTERNAL_RESISTANCE;
+    let power = BatteryModel.rotorPower(thrust, params);
+
+    // 端子電圧 V は P = V (E - V) / R を満たす。取り出せる電力には上限がある
+    const maxPower = (openVoltage * openVoltage) / (4 * resistance);
+    power = Math.min(power, maxPower);
+    const voltage =
+      (openVoltage +
+        Math.sqrt(openVoltage * openVoltage - 4 * power * resistance)) /
+      2;
+    const current = voltage > 0 ? power / voltage : 0;
+
+    const alpha = 1 - Math.exp(-dt / CURRENT_FILTER_TIME_CONSTANT);
+    return {
+      charge: Math.max(state.charge - current * dt, 0),
+      voltage,
+      current,
+      averageCurrent:
+        state.averageCurrent + (current - state.averageCurrent) * alpha,
+      power,
+    };
+  },
+
+  // 現在の平均電流が続いた場合の残り飛行時間
+  remainingTime(state: BatteryState): number {
+    if (state.averageCurrent <= 1e-6) return Infinity;
+    return state.charge / state.averageCurrent;
+  },
+};
@@ -0,0 +1,139 @@
+import { ARENA_BOUNDS } from './DroneModel';
+import { SensorModel } from './SensorModel';
+import type { SensorReading } from './SensorModel';
+import type {
+  ComplementaryFilterConfig,
+  SensorId,
+  SensorSpec,
+} from './SensorConfig';
+import type { EstimatedState, StateEstimator } from './StateEstimator';
+import type { Acceleration, PhysicsParams, PhysicsState } from './types';
+
+const wrapAngle = (angle: number): number =>
+  Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * 相補フィルタ。ジャイロ・加速度計の積分（高周波）を、気圧高度・位置計測（低周波）で補正する。
+ * ロータの推力は常に機体の上向きのため、比力の向きからは傾きが分からない。
+ * 姿勢は、位置計測で補正した水平速度のずれ（傾きの誤差で比力を誤った向きに積分した分）から補正する。
+ */
+export class ComplementaryFilter implements StateEstimator {
+  private config: ComplementaryFilterConfig;
+  private sensors: Record<SensorId, SensorSpec>;
+  private estimate: EstimatedState;
+  private gyro = 0;
+  private specificForce: Acceleration | null = null;
+
+  constructor(
+    config: ComplementaryFilterConfig,
+    sensors: Record<SensorId, SensorSpec>,
+  ) {
+    this.config = config;
+    this.sensors = sensors;
+    this.estimate = {
+      position: { x: 0, y: 0 },
+      velocity: { x: 0, y: 0 },
+      rotation: 0,
+      angularVelocity: 0,
+      deviation: null,
+    };
+  }
+
+  public reset(initial: PhysicsState): void {
+    this.estimate = {
+      position: initial.position,
+      velocity: initial.velocity,
+      rotation: initial.rotation,
+      angularVelocity: initial.angularVelocity,
+      deviation: null,
+    };
+    this.gyro = initial.angularVelocity;
+    this.specificForce = null;
+  }
+
+  public getEstimate(): EstimatedState {
+    return this.estimate;
+  }
+
+  public update(
+    readings: SensorReading[],
+    params: PhysicsParams,
+    dt: number,
+  ): void {
+    readings.forEach(reading => {
+      if (reading.sensor === 'gyro') this.gyro = reading.value;
+      if (reading.sensor === 'accelerometer') {
+        this.specificForce = reading.value;
+      }
+    });
+
+    // ジャイロと加速度計を積分する（加速度計が届くまではホバリングとみなす）
+    const { position, velocity } = this.estimate;
+    let rotation = this.estimate.rotation + this.gyro * dt;
+    const acceleration = this.specificForce
+      ? SensorModel.worldAcceleration(
+          rotation,
+          this.specificForce,
+          params.GRAVITY,
+        )
+      : { x: 0, y: 0 };
+    let vx = velocity.x + acceleration.x * dt;
+    let vy = velocity.y + acceleration.y * dt;
+    let x = position.x + vx * dt;
+    let y = position.y - vy * dt;
+    // 比力の大きさ（ロータ推力による加速度）。加速度計が届くまではホバリングとみなす
+    const thrustAcceleration = this.specificForce
+      ? Math.hypot(this.specificForce.x, this.specificForce.y)
+      : params.GRAVITY;
+
+    // 低周波の補正は各センサの計測間隔あたりの量で行う
+    const positionTau = this.config.positionTimeConstant;
+    // 姿勢は位置の補正を通して補正するため、位置の補正より速くすると振動する
+    const attitudeTau = Math.max(
+      this.config.attitudeTimeConstant,
+      positionTau / 2,
+    );
+    // 位置と速度を臨界減衰の2次系として補正する（計測間隔が長くても発散しないよう位置の補正は誤差までに抑える）
+    const positionGains = (interval: number) => {
+      const position = Math.min((2 / positionTau) * interval, 1);
+      return { position, velocity: (position * position) / (4 * interval) };
+    };
+    readings.forEach(reading => {
+      const interval = 1 / Math.max(this.sensors[reading.sensor].rate, 1e-9);
+      switch (reading.sensor) {
+        case 'barometer': {
+          const gain = positionGains(interval);
+          const error = ARENA_BOUNDS.groundY - reading.value - y;
+          y += gain.position * error;
+          vy -= gain.velocity * error;
+          break;
+        }
+        case 'positionFix': {
+          const gain = positionGains(interval);
+          const errorX = reading.value.x - x;
+          const errorY = reading.value.y - y;
+          x += gain.position * errorX;
+          vx += gain.velocity * errorX;
+          // 水平速度の補正量は、姿勢の誤差で比力を誤った向きに積分した分に当たる
+          // （d(|f| sinθ)/dθ = |f| cosθ）。その比率だけ姿勢を補正する
+          rotation +=
+            (interval / (attitudeTau + interval)) *
+            ((gain.velocity * errorX) /
+              (interval *
+                Math.max(thrustAcceleration * Math.cos(rotation), 1e-6)));
+          y += gain.position * errorY;
+          vy -= gain.velocity * errorY;
+          break;
+        }
+      }
+    });
+
+    this.estimate = {
+      position: { x, y },
+      velocity: { x: vx, y: vy },
+      rotation: wrapAngle(rotation),
+      angularVelocity: this.gyro,
+      deviation: null,
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import type { PhysicsParams, Position } from './types';
+
+/**
+ * 回転の運動方程式は THRUST_DISTANCE を基準とした機体長さ単位で記述されているため、
+ * 機体形状はこの単位で定義し、位置計算時に画面座標[px]へ換算する。
+ * (THRUST_DISTANCE 0.4 がロータ位置の約32pxに対応)
+ */
+export const BODY_PIXELS_PER_UNIT = 80;
+
+export type ContactPointKind = 'skid' | 'hull';
+
+export interface ContactPoint {
+  kind: ContactPointKind;
+  x: number; // 機体座標系（右向き正）
+  y: number; // 機体座標系（下向き正）
+}
+
+// 着陸脚の先端と、転倒時に接地する機体両端
+export const CONTACT_POINTS: ContactPoint[] = [
+  { kind: 'skid', x: -0.3, y: 0.15 },
+  { kind: 'skid', x: 0.3, y: 0.15 },
+  { kind: 'hull', x: -0.45, y: 0 },
+  { kind: 'hull', x: 0.45, y: 0 },
+];
+
+export interface ContactForces {
+  forceX: number;
+  forceY: number; // 上向き正
+  torque: number; // 時計回り正
+  skidContacts: number;
+  hullContact: boolean;
+}
+
+const NO_CONTACT: ContactForces = {
+  forceX: 0,
+  forceY: 0,
+  torque: 0,
+  skidContacts: 0,
+  hullContact: false,
+};
+
+// 摩擦を滑らかにするための基準すべり速度[px/s]
+const FRICTION_SLIP_VELOCITY = 0.5;
+
+export const ContactModel = {
+  // 機体座標の点を画面座標[px]へ変換
+  toWorld(point: Position, x: number, y: number, rotation: number): Position {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    return {
+      x: x + (point.x * cos - point.y * sin) * BODY_PIXELS_PER_UNIT,
+      y: y + (point.x * sin + point.y * cos) * BODY_PIXELS_PER_UNIT,
+    };
+  },
+
+  // 最も低い接触点と地面との距離[px]（負なら地面にめり込んでいる）
+  clearance(x: number, y: number, rotation: number, groundY: number): number {
+    return Math.min(
+      ...CONTACT_POINTS.map(
+        point => groundY - ContactModel.toWorld(point, x, y, rotation).y,
+      ),
+    );
+  },
+
+  /**
+   * 地面からの反力（ペナルティ法のばね・ダンパ）と摩擦力を求める。
+   * vy は上向き正、位置は画面座標（下向き正）。
+   */
+  forces(
+    x: number,
+    y: number,
+    rotation: number,
+    vx: number,
+    vy: number,
+    angularVelocity: number,
+    params: PhysicsParams,
+    groundY: number,
+  ): ContactForces {
+    // 機体全体が十分に高い位置にあれば計算を省略
+    if (y < groundY - BODY_PIXELS_PER_UNIT) {
+      return NO_CONTACT;
+    }
+
+    const result = { ...NO_CONTACT };
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    for (const point of CONTACT_POINTS) {
+      // 重心からの相対位置（機体長さ単位、画面座標の向き）
+      const rx = point.x * cos - point.y * sin;
+      const ry = point.x * sin + point.y * cos;
+
+      const penetration = y + ry * BODY_PIXELS_PER_UNIT - groundY;
+      if (penetration <= 0) continue;
+
+      // 接触点の速度（画面座標）
+      const pointVx = vx - angularVelocity * ry * BODY_PIXELS_PER_UNIT;
+      const pointVy = -vy + angularVelocity * rx * BODY_PIXELS_PER_UNIT;
+
+      // 垂直抗力（引っ張り力にはならない）
+      const normal = Math.max(
+        params.GROUND_STIFFNESS * penetration + params.GROUND_DAMPING * pointVy,
+        0,
+      );
+      // クーロン摩擦を tanh で平滑化
+      const friction =
+        -params.GROUND_FRICTION *
+        normal *
+        Math.tanh(pointVx / FRICTION_SLIP_VELOCITY);
+
+      // 画面座標での力（上向きの抗力は負のy方向）
+      const fx = friction;
+      const fy = -normal;
+
+      result.forceX += fx;
+      result.forceY -= fy;
+      result.torque += rx * fy - ry * fx;
+
+      if (point.kind === 'skid') {
+        result.skidContacts++;
+      } else {
+        result.hullContact = true;
+      }
+    }
+
+    return result;
+  },
+};
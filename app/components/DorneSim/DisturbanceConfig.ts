@@ -1,9 +1,33 @@
+export type TurbulenceModel = 'white' | 'dryden';
+
+// 風速を局所的に変える矩形領域（画面座標）
+export interface WindZone {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  windX: number;
+  windY: number; // 上向き正
+}
+
+export interface WindShear {
+  enabled: boolean;
+  referenceHeight: number; // 基本風速となる地上高[px]
+  exponent: number; // べき法則の指数
+}
+
 export interface WindDisturbance {
   enabled: boolean;
   baseSpeed: number;
+  verticalSpeed: number; // 上昇気流（上向き正）
   gustFrequency: number;
   gustMagnitude: number;
   turbulenceIntensity: number;
+  turbulenceModel: TurbulenceModel;
+  turbulenceLengthScale: number; // Dryden モデルのスケール長[px]
+  shear: WindShear;
+  zones: WindZone[];
 }
 
 export interface ThrustNoise {
@@ -13,6 +37,7 @@ export interface ThrustNoise {
 }
 
 export interface DisturbanceConfig {
+  seed: number; // 乱流・推力ノイズ用の乱数シード
   wind: WindDisturbance;
   thrust: ThrustNoise;
-}
\ No newline at end of file
+}
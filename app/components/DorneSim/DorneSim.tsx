@@ -1,259 +1,515 @@
-import { useState, useEffect, useRef } from 'react';
-import { PIDController } from './PIDController';
-import type { PhysicsState, PhysicsParams, PIDConfig } from './types';
-import type { DisturbanceConfig } from './DisturbanceConfig';
-
-const DEFAULT_PHYSICS_PARAMS: PhysicsParams = {
-  GRAVITY: 9.8,
-  MASS: 1.0,
-  MOMENT_OF_INERTIA: 0.1,
-  DRAG_COEFFICIENT: 0.1,
-  ANGULAR_DRAG_COEFFICIENT: 0.5,
-  THRUST_DISTANCE: 0.4,
-  CENTER_OF_MASS_OFFSET: 0.0,
-  LEFT_THRUST_EFFICIENCY: 1.0,
-  RIGHT_THRUST_EFFICIENCY: 1.0
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { DroneEngine, REAL_TIME_SCALE } from './DroneEngine';
+import type { BatteryStatus } from './DroneEngine';
+import { LOW_BATTERY_THRESHOLD } from './BatteryModel';
+import { ARENA_BOUNDS } from './DroneModel';
+import { PayloadModel } from './PayloadModel';
+import PhysicsParamsPanel from './PhysicsParamsPanel';
+import type { ParamsApplyTiming } from './PhysicsParamsPanel';
+import IntegratorSelect from '../Simulation/IntegratorSelect';
+import ControllerPanel from '../Simulation/ControllerPanel';
+import PIDTuningPanel from '../Simulation/PIDTuningPanel';
+import StepTestPanel from '../Simulation/StepTestPanel';
+import FrequencyResponsePanel from '../Simulation/FrequencyResponsePanel';
+import TelemetryPanel from '../Simulation/TelemetryPanel';
+import StripChartPanel from '../Simulation/StripChartPanel';
+import ReplayPanel from '../Simulation/ReplayPanel';
+import { DEFAULT_REPLAY_CONFIG } from '../Simulation/Replay';
+import type { ReplayView } from '../Simulation/Replay';
+import type { ChartSignal } from '../Simulation/StripChart';
+import { TelemetryRecorder } from '../Simulation/TelemetryRecorder';
+import type { TelemetrySample } from '../Simulation/TelemetryRecorder';
+import type { ControllerDiagnostics } from '../Simulation/Controller';
+import type { IntegratorType } from '../Simulation/Integrators';
+import { generateSeed } from '../Simulation/Random';
+import type {
+  PhysicsState,
+  PhysicsParams,
+  PIDConfig,
+  Position,
+  ThrustCommand,
+  Velocity,
+  DroneEvent,
+  LandingStatus,
+} from './types';
+import type {
+  DisturbanceConfig,
+  WindDisturbance,
+  TurbulenceModel,
+} from './DisturbanceConfig';
+import WindZoneEditor from './WindZoneEditor';
+import EnvironmentLayer from './EnvironmentLayer';
+import type { EnvironmentTool } from './EnvironmentLayer';
+import EnvironmentEditor from './EnvironmentEditor';
+import MissionPanel from './MissionPanel';
+import type { ArenaClickMode } from './MissionPanel';
+import MissionLayer from './MissionLayer';
+import { DEFAULT_MISSION, createWaypoint } from './Mission';
+import type { Mission, MissionStatus } from './Mission';
+import SensorPanel from './SensorPanel';
+import EstimationPlot, { ESTIMATION_WINDOW } from './EstimationPlot';
+import type { EstimationSample } from './EstimationPlot';
+import type { SensorConfig } from './SensorConfig';
+import FaultPanel from './FaultPanel';
+import { FAULT_LABELS } from './Fault';
+import type { FaultEvent, FaultRecord } from './Fault';
+import {
+  DRONE_CONTROLLERS,
+  DEFAULT_DRONE_CONTROLLER_ID,
+} from './DroneControllerRegistry';
+import { hasPredictedPath } from './DroneControllers';
+import { createDroneTuner } from './DroneTuning';
+import { createDroneStepTester } from './DroneStepTest';
+import { createDroneLoopAnalyzer } from './DroneFrequencyAnalysis';
+import { DRONE_REPLAY_SCHEMA, captureDroneFrame } from './DroneReplay';
+import type { DroneReplayContext, DroneReplayFrame } from './DroneReplay';
+import type { EnvironmentMap } from './Environment';
+import {
+  DEFAULT_PHYSICS_PARAMS,
+  DEFAULT_DISTURBANCE_CONFIG,
+  DEFAULT_MANUAL_THRUST,
+  DEFAULT_ENVIRONMENT,
+  DEFAULT_SENSOR_CONFIG,
+} from './defaults';
+
+const LANDING_STATUS_LABELS: Record<LandingStatus, string> = {
+  flying: '飛行中',
+  landed: '着陸',
+  hardLanding: 'ハードランディング',
+  crashed: '墜落',
 };
 
-const DEFAULT_DISTURBANCE_CONFIG: DisturbanceConfig = {
-  wind: {
-    enabled: true,
-    baseSpeed: 0.0, //0.5,
-    gustFrequency: 0.0, //0.2,
-    gustMagnitude: 0.0, //1.0,
-    turbulenceIntensity: 0.0//0.1
-  },
-  thrust: {
-    enabled: true,
-    magnitude: 0.00,
-    frequency: 10
-  }
+const LANDING_STATUS_COLORS: Record<LandingStatus, string> = {
+  flying: 'bg-sky-100 text-sky-800',
+  landed: 'bg-green-100 text-green-800',
+  hardLanding: 'bg-yellow-100 text-yellow-800',
+  crashed: 'bg-red-100 text-red-800',
 };
 
-const DEFAULT_PID_CONFIG: PIDConfig = {
-  enabled: true,
-  attitude: {
-    kp: 8.0,  // 姿勢制御はより高いゲインと速い応答
-    ki: 0.5,
-    kd: 0.0
-  },
-  position: {
-    horizontal: {
-      kp: 1.0,
-      ki: 0.05,
-      kd: 0.0
-    },
-    vertical: {
-      kp: 1.5,
-      ki: 0.05,
-      kd: 0.0
+const formatEvent = (event: DroneEvent): string => {
+  switch (event.type) {
+    case 'touchdown': {
+      const pad =
+        event.padId !== undefined && event.padOffset !== undefined
+          ? `, パッド ${event.padId} 中心から ${event.padOffset.toFixed(1)}px`
+          : '';
+      return `接地: ${LANDING_STATUS_LABELS[event.status]}（降下速度 ${event.impactSpeed.toFixed(1)}px/s, 傾き ${(event.attitude * 180 / Math.PI).toFixed(1)}°${pad}）`;
     }
+    case 'tipOver':
+      return '転倒';
+    case 'takeoff':
+      return '離陸';
+    case 'lowBattery':
+      return `バッテリー残量低下（${(event.stateOfCharge * 100).toFixed(0)}%）`;
+    case 'batteryDepleted':
+      return 'バッテリー切れ';
+    case 'collision':
+      return event.target === 'ceiling'
+        ? '天井に衝突'
+        : `障害物 ${event.obstacleId} に衝突`;
+    case 'noFlyEntry':
+      return `飛行禁止区域 ${event.zoneId} に進入`;
+    case 'waypointReached':
+      return `経由点 ${event.index + 1} に到着`;
+    case 'missionComplete':
+      return 'ミッション完了';
+    case 'faultInjected':
+      return `故障発生: ${FAULT_LABELS[event.fault]}`;
+    case 'faultRecovered':
+      return `故障から回復（${event.recoveryTime.toFixed(2)}s, 最大誤差 ${event.peakError.toFixed(1)}px）`;
+    case 'faultRelapsed':
+      return `故障の影響が再発（誤差 ${event.error.toFixed(1)}px）`;
   }
 };
 
+// グラフに表示できる信号（列名は DroneEngine の記録に対応する）
+const DRONE_CHART_SIGNALS: ChartSignal[] = [
+  {
+    id: 'positionX',
+    label: '水平位置',
+    unit: 'px',
+    series: [
+      { key: 'x', label: 'x', color: '#2563eb' },
+      { key: 'referenceX', label: '目標', color: '#059669', dashed: true },
+      { key: 'estimateX', label: '推定', color: '#f59e0b' },
+    ],
+  },
+  {
+    id: 'positionY',
+    label: '垂直位置（画面座標）',
+    unit: 'px',
+    series: [
+      { key: 'y', label: 'y', color: '#2563eb' },
+      { key: 'referenceY', label: '目標', color: '#059669', dashed: true },
+      { key: 'estimateY', label: '推定', color: '#f59e0b' },
+    ],
+  },
+  {
+    id: 'velocity',
+    label: '速度',
+    unit: 'px/s',
+    series: [
+      { key: 'vx', label: 'vx', color: '#2563eb' },
+      { key: 'vy', label: 'vy', color: '#dc2626' },
+      { key: 'referenceVx', label: '目標vx', color: '#2563eb', dashed: true },
+      { key: 'referenceVy', label: '目標vy', color: '#dc2626', dashed: true },
+    ],
+  },
+  {
+    id: 'attitude',
+    label: '姿勢角',
+    unit: 'rad',
+    series: [
+      { key: 'rotation', label: '姿勢角', color: '#2563eb' },
+      { key: 'estimateRotation', label: '推定', color: '#f59e0b' },
+    ],
+  },
+  {
+    id: 'angularVelocity',
+    label: '角速度',
+    unit: 'rad/s',
+    series: [{ key: 'angularVelocity', label: '角速度', color: '#2563eb' }],
+  },
+  {
+    id: 'thrust',
+    label: 'ロータ推力',
+    unit: 'N',
+    series: [
+      { key: 'motorLeft', label: '左', color: '#2563eb' },
+      { key: 'motorRight', label: '右', color: '#dc2626' },
+      { key: 'commandLeft', label: '左指令', color: '#2563eb', dashed: true },
+      { key: 'commandRight', label: '右指令', color: '#dc2626', dashed: true },
+    ],
+  },
+  {
+    id: 'wind',
+    label: '風速',
+    unit: 'px/s',
+    series: [
+      { key: 'windX', label: '水平', color: '#0284c7' },
+      { key: 'windY', label: '垂直', color: '#7c3aed' },
+    ],
+  },
+  {
+    id: 'battery',
+    label: 'バッテリー電圧',
+    unit: 'V',
+    series: [{ key: 'batteryVoltage', label: '電圧', color: '#16a34a' }],
+  },
+];
+
+// 表示するイベントログの件数
+const MAX_EVENT_LOG = 5;
 
 const DroneSimulator: React.FC = () => {
-  const [physicsState, setPhysicsState] = useState<PhysicsState>({
-    position: { x: 100, y: 150 },
-    velocity: { x: 0, y: 0 },
-    rotation: 0,
-    angularVelocity: 0,
-  });
-  
-  const [leftThrust, setLeftThrust] = useState<number>(4.9);
-  const [rightThrust, setRightThrust] = useState<number>(4.9);
+  const engineRef = useRef<DroneEngine>();
+  if (!engineRef.current) {
+    engineRef.current = new DroneEngine({
+      disturbance: DEFAULT_DISTURBANCE_CONFIG,
+      controller: DRONE_CONTROLLERS.create(DEFAULT_DRONE_CONTROLLER_ID),
+      sensors: DEFAULT_SENSOR_CONFIG,
+    });
+  }
+  const engine = engineRef.current;
+  // リプレイ用に描画する状態を記録する
+  const replayRecorderRef = useRef<TelemetryRecorder<DroneReplayFrame>>();
+  if (!replayRecorderRef.current) {
+    replayRecorderRef.current = new TelemetryRecorder(DEFAULT_REPLAY_CONFIG);
+  }
+  const replayRecorder = replayRecorderRef.current;
+
+  const [physicsState, setPhysicsState] = useState<PhysicsState>(
+    engine.getState(),
+  );
+  const [command, setCommand] = useState<ThrustCommand>(engine.getCommand());
+  const [motorThrust, setMotorThrust] = useState<ThrustCommand>(
+    engine.getMotorThrust(),
+  );
+  const [landingStatus, setLandingStatus] = useState<LandingStatus>(
+    engine.getLandingStatus(),
+  );
+  const [eventLog, setEventLog] = useState<DroneEvent[]>([]);
+  const [battery, setBattery] = useState<BatteryStatus>(engine.getBattery());
+  const [wind, setWind] = useState<Velocity>(engine.getWind());
+  const [activeNoFlyZones, setActiveNoFlyZones] = useState<string[]>([]);
+  const [controllerDiagnostics, setControllerDiagnostics] =
+    useState<ControllerDiagnostics>(engine.getControllerDiagnostics());
+  // MPC などが予測した今後の軌道
+  const [predictedPath, setPredictedPath] = useState<Position[]>([]);
+  // 制御器に与えている目標位置と、経由点ミッションの進行状況
+  const [reference, setReference] = useState<Position>(
+    engine.getReference().position,
+  );
+  const [mission, setMission] = useState<Mission>(DEFAULT_MISSION);
+  const [missionStatus, setMissionStatus] = useState<MissionStatus | null>(
+    null,
+  );
+  const [missionSegmentStart, setMissionSegmentStart] =
+    useState<Position | null>(null);
+  const [arenaClickMode, setArenaClickMode] =
+    useState<ArenaClickMode>('target');
+
+  const [leftThrust, setLeftThrust] = useState<number>(DEFAULT_MANUAL_THRUST.left);
+  const [rightThrust, setRightThrust] = useState<number>(DEFAULT_MANUAL_THRUST.right);
   const [disturbanceConfig, setDisturbanceConfig] = 
     useState<DisturbanceConfig>(DEFAULT_DISTURBANCE_CONFIG);
-  const [pidConfig, setPidConfig] = useState<PIDConfig>(DEFAULT_PID_CONFIG);
+  const [controllerId, setControllerId] = useState<string>(
+    DEFAULT_DRONE_CONTROLLER_ID,
+  );
+  // 制御器ごとの設定（切り替えても編集内容を保持する）
+  const [controllerConfigs, setControllerConfigs] = useState<
+    Record<string, unknown>
+  >(() => DRONE_CONTROLLERS.defaultConfigs());
+  const [params, setParams] = useState<PhysicsParams>(DEFAULT_PHYSICS_PARAMS);
+  // 次回リセット時に適用するパラメータ
+  const [pendingParams, setPendingParams] = useState<PhysicsParams | null>(
+    null,
+  );
+  const [integrator, setIntegrator] =
+    useState<IntegratorType>('semiImplicitEuler');
+  const [environment, setEnvironment] =
+    useState<EnvironmentMap>(DEFAULT_ENVIRONMENT);
+  const [environmentTool, setEnvironmentTool] =
+    useState<EnvironmentTool | null>(null);
+  
+  const [sensorConfig, setSensorConfig] =
+    useState<SensorConfig>(DEFAULT_SENSOR_CONFIG);
+  // 真値と推定値の履歴（直近 ESTIMATION_WINDOW 秒分）
+  const [estimationHistory, setEstimationHistory] = useState<
+    EstimationSample[]
+  >([]);
   
+  const [chartSamples, setChartSamples] = useState<TelemetrySample[]>([]);
+  const [faultTimeline, setFaultTimeline] = useState<FaultEvent[]>([]);
+  const [faultRecords, setFaultRecords] = useState<FaultRecord[]>([]);
+
+  const [seedInput, setSeedInput] = useState<string>(
+    String(DEFAULT_DISTURBANCE_CONFIG.seed),
+  );
+  // 再生中のリプレイ（null ならライブ表示）
+  const [replay, setReplay] = useState<ReplayView<
+    DroneReplayFrame,
+    DroneReplayContext
+  > | null>(null);
+  // 再生中はシミュレーションを進めない（アニメーションループから参照する）
+  const replayingRef = useRef(false);
+
+  const latestSample = estimationHistory[estimationHistory.length - 1];
+  const latestEstimate = latestSample?.estimate ?? null;
+  const simulationTime = latestSample?.time ?? 0;
+
+  const getReplayContext = (): DroneReplayContext => ({
+    params,
+    environment,
+    mission,
+    wind: {
+      enabled: disturbanceConfig.wind.enabled,
+      zones: disturbanceConfig.wind.zones,
+    },
+    estimator: sensorConfig.estimator,
+  });
+
+  // アリーナと情報表示に描く状態（リプレイの再生中は記録したもの）
+  const view = replay?.frame ?? {
+    state: physicsState,
+    command,
+    motorThrust,
+    landingStatus,
+    battery,
+    wind,
+    activeNoFlyZones,
+    predictedPath,
+    reference,
+    missionStatus,
+    missionSegmentStart,
+    estimate: latestEstimate,
+  };
+  const viewContext = replay?.context ?? getReplayContext();
+
+  // 線形モデルの解析は重いため、ゲインとパラメータが変わったときだけ作り直す
+  const loopAnalyzer = useMemo(
+    () => createDroneLoopAnalyzer(controllerConfigs.pid as PIDConfig, params),
+    [controllerConfigs.pid, params],
+  );
+  // 再描画は毎フレーム起きるため、調整・ステップ試験の対象は設定が変わったときだけ作り直す
+  const tuner = useMemo(
+    () =>
+      createDroneTuner(controllerConfigs.pid as PIDConfig, params, integrator),
+    [controllerConfigs.pid, params, integrator],
+  );
+  const stepTester = useMemo(
+    () =>
+      createDroneStepTester(
+        controllerId,
+        controllerConfigs[controllerId],
+        params,
+        integrator,
+      ),
+    [controllerId, controllerConfigs, params, integrator],
+  );
+  const payloadPosition = PayloadModel.position(view.state, viewContext.params);
+
+  const getPredictedPath = (): Position[] => {
+    const controller = engine.getController();
+    return hasPredictedPath(controller) ? controller.getPredictedPath() : [];
+  };
+
   const animationFrameRef = useRef<number>();
   const lastTimeRef = useRef<number>(Date.now());
-  const windStateRef = useRef({ time: 0, currentGust: 0 });
-  
-  const calculateDisturbances = (deltaTime: number) => {
-    const { wind, thrust } = disturbanceConfig;
-    let windForce = 0;
-    let thrustNoise = { left: 1, right: 1 };
-    
-    if (wind.enabled) {
-      windStateRef.current.time += deltaTime;
-      windForce = wind.baseSpeed;
-      
-      const gustPhase = 2 * Math.PI * wind.gustFrequency * windStateRef.current.time;
-      const gustEffect = Math.sin(gustPhase) * wind.gustMagnitude;
-      const turbulence = (Math.random() - 0.5) * 2 * wind.turbulenceIntensity;
-      
-      windForce += gustEffect + turbulence;
-    }
-    
-    if (thrust.enabled) {
-      const noiseLeft = 1 + (Math.random() - 0.5) * 2 * thrust.magnitude;
-      const noiseRight = 1 + (Math.random() - 0.5) * 2 * thrust.magnitude;
-      thrustNoise = { left: noiseLeft, right: noiseRight };
-    }
-    
-    return { windForce, thrustNoise };
+
+  // UIの設定をエンジンへ反映
+  useEffect(() => {
+    engine.setManualThrust({ left: leftThrust, right: rightThrust });
+  }, [leftThrust, rightThrust]);
+
+  useEffect(() => {
+    engine.setDisturbanceConfig(disturbanceConfig);
+  }, [disturbanceConfig]);
+
+  const handleSelectController = (id: string): void => {
+    engine.setController(DRONE_CONTROLLERS.create(id, controllerConfigs[id]));
+    setControllerId(id);
+    setControllerDiagnostics(engine.getControllerDiagnostics());
+    setPredictedPath(getPredictedPath());
+  };
+
+  const handleControllerConfigChange = (config: unknown): void => {
+    engine.getController().configure(config);
+    setControllerConfigs(prev => ({ ...prev, [controllerId]: config }));
   };
 
-  // PIDコントローラーのインスタンス化
-  const attitudePIDRef = useRef(new PIDController(
-    DEFAULT_PID_CONFIG.attitude.kp,
-    DEFAULT_PID_CONFIG.attitude.ki,
-    DEFAULT_PID_CONFIG.attitude.kd,
-    -1,  // 最小出力
-    1    // 最大出力
-  ));
-
-  const horizontalPositionPIDRef = useRef(new PIDController(
-    DEFAULT_PID_CONFIG.position.horizontal.kp,
-    DEFAULT_PID_CONFIG.position.horizontal.ki,
-    DEFAULT_PID_CONFIG.position.horizontal.kd,
-    -Math.PI/6, // 最小目標角度
-    Math.PI/6   // 最大目標角度
-  ));
-
-  const verticalPositionPIDRef = useRef(new PIDController(
-    DEFAULT_PID_CONFIG.position.vertical.kp,
-    DEFAULT_PID_CONFIG.position.vertical.ki,
-    DEFAULT_PID_CONFIG.position.vertical.kd,
-    -2,  // 最小推力調整
-    2    // 最大推力調整
-  ));
-
-  // PIDゲインの更新
   useEffect(() => {
-    attitudePIDRef.current.setGains(
-      pidConfig.attitude.kp,
-      pidConfig.attitude.ki,
-      pidConfig.attitude.kd
-    );
-
-    horizontalPositionPIDRef.current.setGains(
-      pidConfig.position.horizontal.kp,
-      pidConfig.position.horizontal.ki,
-      pidConfig.position.horizontal.kd
-    );
-
-    verticalPositionPIDRef.current.setGains(
-      pidConfig.position.vertical.kp,
-      pidConfig.position.vertical.ki,
-      pidConfig.position.vertical.kd
-    );
-  }, [pidConfig]);
-
-  // PIDコントローラーのリセット
+    engine.setIntegrator(integrator);
+  }, [integrator]);
+
+  useEffect(() => {
+    engine.setParams(params);
+  }, [params]);
+
+  useEffect(() => {
+    engine.setEnvironment(environment);
+  }, [environment]);
+
+  useEffect(() => {
+    engine.setSensorConfig(sensorConfig);
+  }, [sensorConfig]);
+
   useEffect(() => {
-    if (!pidConfig.enabled) {
-      attitudePIDRef.current.reset();
-      horizontalPositionPIDRef.current.reset();
-      verticalPositionPIDRef.current.reset();
+    engine.setFaultTimeline(faultTimeline);
+  }, [faultTimeline]);
+
+  const sampleEstimation = (): EstimationSample => ({
+    time: engine.getTime(),
+    truth: engine.getState(),
+    estimate: engine.getEstimate(),
+  });
+
+  const handleApplyParams = (
+    next: PhysicsParams,
+    timing: ParamsApplyTiming,
+  ): void => {
+    if (timing === 'live') {
+      setParams(next);
+      setPendingParams(null);
+    } else {
+      setPendingParams(next);
     }
-  }, [pidConfig.enabled]);
-  
-  const updatePhysics = (deltaTime: number): void => {
-    const dt = deltaTime / 100;
-    const params = DEFAULT_PHYSICS_PARAMS;
-    
-    let currentLeftThrust = leftThrust;
-    let currentRightThrust = rightThrust;
-  
-    // PID制御が有効な場合
-    if (pidConfig.enabled) {
-      // 1. 位置制御（外側ループ）
-      const targetX = 300;
-      const targetY = 150;
-      
-      // 垂直位置の制御
-      const verticalControl = verticalPositionPIDRef.current.update(
-        targetY,
-        physicsState.position.y,
-        dt
-      );
-      
-      // 水平位置からの目標姿勢角の計算
-      const horizontalControl = horizontalPositionPIDRef.current.update(
-        targetX,
-        physicsState.position.x,
-        dt
-      );
-      const targetRotation = -horizontalControl; // 位置制御出力を目標姿勢角に変換
-      
-      // 2. 姿勢制御（内側ループ）
-      const attitudeControl = attitudePIDRef.current.update(
-        targetRotation,
-        physicsState.rotation,
-        dt
-      );
-      
-      // 3. 制御出力を推力に変換
-      const baseThrust = 4.9; // 重力補償
-      const thrustDelta = attitudeControl; // 姿勢制御による推力差
-      
-      // 垂直推力の調整と姿勢制御の組み合わせ
-      currentLeftThrust = baseThrust + verticalControl + attitudeControl;  // 修正: - → +
-    currentRightThrust = baseThrust + verticalControl - attitudeControl; // 修正: + → -
-      
-      // 推力の制限
-      currentLeftThrust = Math.min(Math.max(currentLeftThrust, 0), 100);
-      currentRightThrust = Math.min(Math.max(currentRightThrust, 0), 100);
+  };
+
+  const syncMission = (): void => {
+    setReference(engine.getReference().position);
+    setMissionStatus(engine.getMissionStatus());
+    setMissionSegmentStart(engine.getMissionSegmentStart());
+  };
+
+  // アリーナのクリックで目標位置を設定するか経由点を追加する（環境の編集中を除く）
+  const handleArenaClick = (e: React.MouseEvent<HTMLDivElement>): void => {
+    if (environmentTool || replay) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    if (arenaClickMode === 'waypoint') {
+      if (engine.getMissionStatus()?.phase === 'complete') {
+        engine.stopMission();
+      }
+      if (!engine.getMissionStatus()) {
+        setMission(prev => ({
+          ...prev,
+          waypoints: [...prev.waypoints, createWaypoint(position)],
+        }));
+      }
+    } else {
+      engine.setTarget(position);
     }
-  
-    // 以下、物理シミュレーション部分は変更なし
-    const { windForce, thrustNoise } = calculateDisturbances(deltaTime);
-    
-    const effectiveLeftThrust = currentLeftThrust * params.LEFT_THRUST_EFFICIENCY * thrustNoise.left;
-    const effectiveRightThrust = currentRightThrust * params.RIGHT_THRUST_EFFICIENCY * thrustNoise.right;
-    
-    
-    const totalThrust = effectiveLeftThrust + effectiveRightThrust;
-    
-    // トルクの計算（重心オフセットを考慮）
-    const torque = (effectiveRightThrust * (params.THRUST_DISTANCE + params.CENTER_OF_MASS_OFFSET) -
-                   effectiveLeftThrust * (params.THRUST_DISTANCE - params.CENTER_OF_MASS_OFFSET));
-    
-    // 角速度と回転の計算
-    const angularAcceleration = 
-      (torque - params.ANGULAR_DRAG_COEFFICIENT * physicsState.angularVelocity) / 
-      params.MOMENT_OF_INERTIA;
-    const newAngularVelocity = physicsState.angularVelocity + angularAcceleration * dt;
-    const newRotation = physicsState.rotation + newAngularVelocity * dt;
-    
-    // 推力と風力の合成
-    const thrustForceY = totalThrust * Math.cos(physicsState.rotation);
-    const thrustForceX = totalThrust * Math.sin(physicsState.rotation) + windForce;
-    
-    // 重力と抗力の計算
-    const gravityForce = params.MASS * params.GRAVITY;
-    const dragForceY = params.DRAG_COEFFICIENT * physicsState.velocity.y * 
-      Math.abs(physicsState.velocity.y);
-    const dragForceX = params.DRAG_COEFFICIENT * physicsState.velocity.x * 
-      Math.abs(physicsState.velocity.x);
-    
-    // 加速度の計算
-    const verticalAcceleration = (thrustForceY - gravityForce - dragForceY) / params.MASS;
-    const horizontalAcceleration = (thrustForceX - dragForceX) / params.MASS;
-    
-    // 速度の更新
-    const newVelocityY = physicsState.velocity.y + verticalAcceleration * dt;
-    const newVelocityX = physicsState.velocity.x + horizontalAcceleration * dt;
-    
-    // 位置の更新
-    const newPositionY = physicsState.position.y - newVelocityY * dt;
-    const newPositionX = physicsState.position.x + newVelocityX * dt;
-    
-    // 境界条件の処理（壁での反射）
-    const finalPositionY = Math.min(Math.max(newPositionY, 10), 290);
-    const finalPositionX = Math.min(Math.max(newPositionX, 10), 590);
-    const finalVelocityY = finalPositionY === 10 || finalPositionY === 290 ? 0 : newVelocityY;
-    const finalVelocityX = finalPositionX === 10 || finalPositionX === 590 ? 0 : newVelocityX;
-    
-    // 物理状態の更新
-    setPhysicsState({
-      position: { x: finalPositionX, y: finalPositionY },
-      velocity: { x: finalVelocityX, y: finalVelocityY },
-      angularVelocity: newAngularVelocity,
-      rotation: newRotation,
+    syncMission();
+  };
+
+  const handleMissionChange = (next: Mission): void => {
+    // 完了したミッションは編集を始めた時点で終える
+    if (engine.getMissionStatus()?.phase === 'complete') {
+      engine.stopMission();
+      syncMission();
+    }
+    setMission(next);
+  };
+
+  const handleStartMission = (): void => {
+    engine.startMission(mission);
+    syncMission();
+  };
+
+  const handleStopMission = (): void => {
+    engine.stopMission();
+    syncMission();
+  };
+
+  const updateWind = (patch: Partial<WindDisturbance>): void => {
+    setDisturbanceConfig(prev => ({
+      ...prev,
+      wind: { ...prev.wind, ...patch },
+    }));
+  };
+
+  // シミュレーションからのイベントを購読
+  useEffect(() => {
+    return engine.subscribe(event => {
+      setLandingStatus(engine.getLandingStatus());
+      setEventLog(prev => [event, ...prev].slice(0, MAX_EVENT_LOG));
     });
+  }, []);
+
+  // 初期状態からやり直す（同じシードなら同じ軌道を再現）
+  const handleReset = (seed: number = disturbanceConfig.seed): void => {
+    const config = { ...disturbanceConfig, seed };
+    engine.setDisturbanceConfig(config);
+    if (pendingParams) {
+      engine.setParams(pendingParams);
+      setParams(pendingParams);
+      setPendingParams(null);
+    }
+    engine.reset();
+    setDisturbanceConfig(config);
+    setSeedInput(String(seed));
+    setPhysicsState(engine.getState());
+    setCommand(engine.getCommand());
+    setMotorThrust(engine.getMotorThrust());
+    setLandingStatus(engine.getLandingStatus());
+    setBattery(engine.getBattery());
+    setActiveNoFlyZones(engine.getActiveNoFlyZones());
+    setControllerDiagnostics(engine.getControllerDiagnostics());
+    setPredictedPath(getPredictedPath());
+    syncMission();
+    setEstimationHistory([sampleEstimation()]);
+    setFaultRecords(engine.getFaultRecords());
+    setChartSamples(engine.getLiveTelemetry().getSamples());
+    replayRecorder.clear();
+    setEventLog([]);
+  };
+
+  const handleReplayViewChange = (
+    next: ReplayView<DroneReplayFrame, DroneReplayContext> | null,
+  ): void => {
+    replayingRef.current = next !== null;
+    setReplay(next);
   };
 
   useEffect(() => {
@@ -262,10 +518,30 @@ const DroneSimulator: React.FC = () => {
       const deltaTime = currentTime - lastTimeRef.current;
       lastTimeRef.current = currentTime;
       
-      updatePhysics(deltaTime);
+      if (!replayingRef.current && engine.advance(deltaTime) > 0) {
+        replayRecorder.record(engine.getTime(), () => captureDroneFrame(engine));
+        setPhysicsState(engine.getState());
+        setCommand(engine.getCommand());
+        setMotorThrust(engine.getMotorThrust());
+        setBattery(engine.getBattery());
+        setWind(engine.getWind());
+        setActiveNoFlyZones(engine.getActiveNoFlyZones());
+        setControllerDiagnostics(engine.getControllerDiagnostics());
+        setPredictedPath(getPredictedPath());
+        syncMission();
+        setFaultRecords(engine.getFaultRecords());
+        setChartSamples(engine.getLiveTelemetry().getSamples());
+        const sample = sampleEstimation();
+        setEstimationHistory(prev =>
+          [...prev, sample].filter(
+            item => item.time >= sample.time - ESTIMATION_WINDOW,
+          ),
+        );
+      }
       animationFrameRef.current = requestAnimationFrame(animate);
     };
     
+    lastTimeRef.current = Date.now();
     animationFrameRef.current = requestAnimationFrame(animate);
     
     return () => {
@@ -273,46 +549,194 @@ const DroneSimulator: React.FC = () => {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [physicsState, leftThrust, rightThrust, disturbanceConfig]);
+  }, []);
 
   return (
     <div className="w-full max-w-2xl rounded-lg bg-white shadow-lg p-6">
-      <div className="mb-6">
+      <div className="mb-6 flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">2Dドローンシミュレーター</h2>
+        <div className="flex items-center space-x-2">
+          <IntegratorSelect value={integrator} onChange={setIntegrator} />
+          <button
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={() => handleReset()}
+          >
+            リセット
+          </button>
+        </div>
       </div>
 
       <div className="space-y-6">
-        <div className="h-80 bg-slate-100 relative rounded-lg">
+        <div
+          className="h-80 bg-slate-100 relative rounded-lg"
+          onClick={handleArenaClick}
+        >
+          {/* 風域 */}
+          {viewContext.wind.enabled &&
+            viewContext.wind.zones.map(zone => (
+              <div
+                key={zone.id}
+                className="absolute bg-sky-200/40 border border-dashed border-sky-400 text-[10px] text-sky-700 p-0.5"
+                style={{
+                  left: `${zone.x}px`,
+                  top: `${zone.y}px`,
+                  width: `${zone.width}px`,
+                  height: `${zone.height}px`,
+                }}
+              >
+                風 ({zone.windX.toFixed(1)}, {zone.windY.toFixed(1)})
+              </div>
+            ))}
+
+          {/* 機体位置の風速 */}
+          {viewContext.wind.enabled && (
+            <div className="absolute top-2 left-2 flex items-center space-x-1 text-xs text-gray-600">
+              <svg width="24" height="24" viewBox="-12 -12 24 24">
+                <line
+                  x1="0"
+                  y1="0"
+                  x2={Math.max(Math.min(view.wind.x, 10), -10)}
+                  y2={-Math.max(Math.min(view.wind.y, 10), -10)}
+                  stroke="#0284c7"
+                  strokeWidth="2"
+                />
+                <circle r="2" fill="#0284c7" />
+              </svg>
+              <span>{Math.hypot(view.wind.x, view.wind.y).toFixed(1)}px/s</span>
+            </div>
+          )}
+
+          {/* 制御器が予測した軌道 */}
+          {view.predictedPath.length > 1 && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none">
+              <polyline
+                points={view.predictedPath.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke="#7c3aed"
+                strokeWidth="1.5"
+                strokeDasharray="4,3"
+              />
+              {view.predictedPath.slice(1).map((p, i) => (
+                <circle key={i} cx={p.x} cy={p.y} r="1.5" fill="#7c3aed" />
+              ))}
+            </svg>
+          )}
+
+          {/* 経由点・基準軌道・目標位置 */}
+          <MissionLayer
+            mission={viewContext.mission}
+            status={view.missionStatus}
+            segmentStart={view.missionSegmentStart}
+            reference={view.reference}
+          />
+
+          {/* 吊り荷とケーブル */}
+          {PayloadModel.hasPayload(viewContext.params) && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none">
+              <line
+                x1={view.state.position.x}
+                y1={view.state.position.y}
+                x2={payloadPosition.x}
+                y2={payloadPosition.y}
+                stroke="#475569"
+                strokeWidth="1"
+              />
+              <rect
+                x={payloadPosition.x - 5}
+                y={payloadPosition.y - 5}
+                width="10"
+                height="10"
+                fill="#b45309"
+              />
+            </svg>
+          )}
+
+          {/* 推定位置（±2σ の楕円） */}
+          {viewContext.estimator !== 'truth' && view.estimate && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none">
+              {view.estimate.deviation && (
+                <ellipse
+                  cx={view.estimate.position.x}
+                  cy={view.estimate.position.y}
+                  rx={2 * view.estimate.deviation.position.x}
+                  ry={2 * view.estimate.deviation.position.y}
+                  fill="rgb(59 130 246 / 0.15)"
+                  stroke="#3b82f6"
+                  strokeWidth="1"
+                />
+              )}
+              <circle
+                cx={view.estimate.position.x}
+                cy={view.estimate.position.y}
+                r="2.5"
+                fill="#3b82f6"
+              />
+            </svg>
+          )}
+
           {/* ドローン */}
           <div 
             className="absolute w-16 h-4"
             style={{ 
-              top: `${physicsState.position.y}px`,
-              left: `${physicsState.position.x}px`,
-              transform: `translate(-50%, -50%) rotate(${physicsState.rotation * 180 / Math.PI}deg)`
+              top: `${view.state.position.y}px`,
+              left: `${view.state.position.x}px`,
+              transform: `translate(-50%, -50%) rotate(${view.state.rotation * 180 / Math.PI}deg)`
             }}
           >
+            {/* 着陸脚 */}
+            <div className="absolute top-4 left-2 w-0.5 h-1 bg-slate-600" />
+            <div className="absolute top-4 right-2 w-0.5 h-1 bg-slate-600" />
+            <div className="absolute top-5 left-1 w-2 h-0.5 bg-slate-600" />
+            <div className="absolute top-5 right-1 w-2 h-0.5 bg-slate-600" />
             <div className="w-full h-full bg-slate-800 rounded-md relative">
               {/* 左プロペラ */}
               <div 
                 className="absolute -left-4 -top-1 w-4 h-1 transition-colors duration-200"
                 style={{
-                  backgroundColor: `rgb(${Math.min(255, leftThrust * 25)}, 0, 0)`
+                  backgroundColor: `rgb(${Math.min(255, view.motorThrust.left * 25)}, 0, 0)`
                 }}
               />
               {/* 右プロペラ */}
               <div 
                 className="absolute -right-4 -top-1 w-4 h-1 transition-colors duration-200"
                 style={{
-                  backgroundColor: `rgb(${Math.min(255, rightThrust * 25)}, 0, 0)`
+                  backgroundColor: `rgb(${Math.min(255, view.motorThrust.right * 25)}, 0, 0)`
                 }}
               />
             </div>
           </div>
           
           {/* 地面 */}
-          <div className="absolute bottom-0 w-full h-2 bg-slate-300" />
+          <div
+            className="absolute bottom-0 w-full bg-slate-300"
+            style={{ top: `${ARENA_BOUNDS.groundY}px` }}
+          />
+
+          {/* 障害物・飛行禁止区域・着陸パッド・天井 */}
+          <EnvironmentLayer
+            environment={viewContext.environment}
+            activeNoFlyZones={view.activeNoFlyZones}
+            tool={replay ? null : environmentTool}
+            onChange={setEnvironment}
+          />
+
+          {/* 着陸状態 */}
+          <div
+            className={`absolute top-2 right-2 px-2 py-1 rounded text-xs font-medium ${LANDING_STATUS_COLORS[view.landingStatus]}`}
+          >
+            {LANDING_STATUS_LABELS[view.landingStatus]}
+          </div>
         </div>
+
+        {eventLog.length > 0 && (
+          <ul className="text-xs text-gray-500 space-y-1">
+            {eventLog.map((event, i) => (
+              <li key={`${event.time}-${i}`}>
+                t={event.time.toFixed(2)}: {formatEvent(event)}
+              </li>
+            ))}
+          </ul>
+        )}
         
         <div className="space-y-4">
           {/* 推力スライダー */}
@@ -348,21 +772,127 @@ const DroneSimulator: React.FC = () => {
           
           {/* 情報表示 */}
           <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
-            <div>高度: {(300 - physicsState.position.y).toFixed(1)}px</div>
-            <div>水平位置: {physicsState.position.x.toFixed(1)}px</div>
-            <div>垂直速度: {(-physicsState.velocity.y).toFixed(1)}px/s</div>
-            <div>水平速度: {physicsState.velocity.x.toFixed(1)}px/s</div>
-            <div>回転角: {(physicsState.rotation * 180 / Math.PI).toFixed(1)}°</div>
-            <div>角速度: {(physicsState.angularVelocity * 180 / Math.PI).toFixed(1)}°/s</div>
-            <div>左推力: {leftThrust.toFixed(1)}N</div>
-            <div>右推力: {rightThrust.toFixed(1)}N</div>
+            <div>高度: {(ARENA_BOUNDS.groundY - view.state.position.y).toFixed(1)}px</div>
+            <div>水平位置: {view.state.position.x.toFixed(1)}px</div>
+            <div>垂直速度: {(-view.state.velocity.y).toFixed(1)}px/s</div>
+            <div>水平速度: {view.state.velocity.x.toFixed(1)}px/s</div>
+            <div>回転角: {(view.state.rotation * 180 / Math.PI).toFixed(1)}°</div>
+            <div>角速度: {(view.state.angularVelocity * 180 / Math.PI).toFixed(1)}°/s</div>
+            {PayloadModel.hasPayload(viewContext.params) && (
+              <>
+                <div>吊り荷の振れ角: {(view.state.payload.angle * 180 / Math.PI).toFixed(1)}°</div>
+                <div>振れ角速度: {(view.state.payload.angularVelocity * 180 / Math.PI).toFixed(1)}°/s</div>
+              </>
+            )}
+            <div>左推力: {view.motorThrust.left.toFixed(1)}N (指令 {view.command.left.toFixed(1)}N)</div>
+            <div>右推力: {view.motorThrust.right.toFixed(1)}N (指令 {view.command.right.toFixed(1)}N)</div>
+          </div>
+
+          {/* バッテリー */}
+          <div className="space-y-1 text-sm text-gray-600">
+            <div className="flex items-center space-x-2">
+              <span>バッテリー</span>
+              <div className="relative flex-1 h-3 bg-gray-200 rounded">
+                <div
+                  className={`absolute inset-y-0 left-0 rounded ${
+                    view.battery.stateOfCharge < LOW_BATTERY_THRESHOLD
+                      ? 'bg-red-500'
+                      : 'bg-green-500'
+                  }`}
+                  style={{ width: `${view.battery.stateOfCharge * 100}%` }}
+                />
+              </div>
+              <span>{(view.battery.stateOfCharge * 100).toFixed(1)}%</span>
+            </div>
+            <div className="grid grid-cols-2 gap-4 text-xs text-gray-500">
+              <div>電圧: {view.battery.voltage.toFixed(2)}V</div>
+              <div>電流: {view.battery.current.toFixed(2)}A ({view.battery.power.toFixed(1)}W)</div>
+              <div>
+                残り飛行時間: {Number.isFinite(view.battery.remainingTime)
+                  ? `${view.battery.remainingTime.toFixed(0)}s`
+                  : '-'}
+              </div>
+              <div>最大推力: {(viewContext.params.MOTOR_MAX_THRUST * view.battery.maxThrustScale).toFixed(1)}N</div>
+            </div>
+          </div>
+
+          {/* ロータ推力（指令値と実推力） */}
+          <div className="grid grid-cols-2 gap-4 text-xs text-gray-500">
+            {(['left', 'right'] as const).map(side => (
+              <div key={side}>
+                <div>{side === 'left' ? '左ロータ' : '右ロータ'}</div>
+                <div className="relative h-3 bg-gray-200 rounded">
+                  <div
+                    className="absolute inset-y-0 left-0 bg-red-500 rounded"
+                    style={{
+                      width: `${(view.motorThrust[side] / viewContext.params.MOTOR_MAX_THRUST) * 100}%`
+                    }}
+                  />
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-slate-900"
+                    style={{
+                      left: `${Math.min(Math.max(view.command[side] / viewContext.params.MOTOR_MAX_THRUST, 0), 1) * 100}%`
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
           </div>
         </div>
       </div>
       
+      <div className="mt-6">
+        <ReplayPanel
+          recorder={replayRecorder}
+          schema={DRONE_REPLAY_SCHEMA}
+          getContext={getReplayContext}
+          fileName={`drone-${controllerId}-${disturbanceConfig.seed}`}
+          timeScale={1000 * REAL_TIME_SCALE}
+          onViewChange={handleReplayViewChange}
+        />
+      </div>
+
+      <div className="mt-6">
+        <StripChartPanel
+          samples={chartSamples}
+          signals={DRONE_CHART_SIGNALS}
+          defaultSelected={['positionX', 'positionY', 'attitude', 'thrust']}
+        />
+      </div>
+
       {/* 外乱設定UI */}
       <div className="mt-6 space-y-4">
         <h3 className="text-lg font-medium text-gray-900">外乱設定</h3>
+
+        <div className="flex items-center space-x-2 text-sm">
+          <label className="text-gray-600">乱数シード</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            className="w-32 px-2 py-1 border rounded"
+          />
+          <button
+            className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600"
+            onClick={() => setSeedInput(String(generateSeed()))}
+          >
+            ランダム
+          </button>
+          <button
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={() => {
+              const seed = Number(seedInput);
+              handleReset(Number.isInteger(seed) && seed >= 0 ? seed : disturbanceConfig.seed);
+            }}
+          >
+            このシードで再実行
+          </button>
+          <span className="text-gray-500">
+            現在: {disturbanceConfig.seed}
+          </span>
+        </div>
         
         <div>
           <label className="flex items-center space-x-2">
@@ -381,36 +911,163 @@ const DroneSimulator: React.FC = () => {
           {disturbanceConfig.wind.enabled && (
             <div className="ml-6 space-y-2 mt-2">
               <div>
-                <label className="block text-sm text-gray-600">基本風速</label>
+                <label className="block text-sm text-gray-600">
+                  基本風速: {disturbanceConfig.wind.baseSpeed.toFixed(1)}px/s
+                </label>
                 <input
                   type="range"
-                  min="0"
-                  max="2"
-                  step="0.1"
+                  min="-10"
+                  max="10"
+                  step="0.5"
                   value={disturbanceConfig.wind.baseSpeed}
-                  onChange={(e) => setDisturbanceConfig(prev => ({
-                    ...prev,
-                    wind: { ...prev.wind, baseSpeed: Number(e.target.value) }
-                  }))}
+                  onChange={(e) => updateWind({ baseSpeed: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-600">
+                  上昇気流: {disturbanceConfig.wind.verticalSpeed.toFixed(1)}px/s
+                </label>
+                <input
+                  type="range"
+                  min="-5"
+                  max="5"
+                  step="0.5"
+                  value={disturbanceConfig.wind.verticalSpeed}
+                  onChange={(e) => updateWind({ verticalSpeed: Number(e.target.value) })}
                   className="w-full"
                 />
               </div>
               
               <div>
-                <label className="block text-sm text-gray-600">突風強度</label>
+                <label className="block text-sm text-gray-600">
+                  突風強度: {disturbanceConfig.wind.gustMagnitude.toFixed(1)}px/s
+                </label>
                 <input
                   type="range"
                   min="0"
-                  max="2"
-                  step="0.1"
+                  max="10"
+                  step="0.5"
                   value={disturbanceConfig.wind.gustMagnitude}
-                  onChange={(e) => setDisturbanceConfig(prev => ({
-                    ...prev,
-                    wind: { ...prev.wind, gustMagnitude: Number(e.target.value) }
-                  }))}
+                  onChange={(e) => updateWind({ gustMagnitude: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-600">
+                  突風周波数: {disturbanceConfig.wind.gustFrequency.toFixed(2)}Hz
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={disturbanceConfig.wind.gustFrequency}
+                  onChange={(e) => updateWind({ gustFrequency: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <label className="text-sm text-gray-600">乱流モデル</label>
+                <select
+                  value={disturbanceConfig.wind.turbulenceModel}
+                  onChange={(e) => updateWind({ turbulenceModel: e.target.value as TurbulenceModel })}
+                  className="px-2 py-1 border rounded bg-white text-sm"
+                >
+                  <option value="dryden">Dryden（色付き雑音）</option>
+                  <option value="white">白色雑音（水平のみ）</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-600">
+                  乱流強度: {disturbanceConfig.wind.turbulenceIntensity.toFixed(1)}px/s
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="5"
+                  step="0.1"
+                  value={disturbanceConfig.wind.turbulenceIntensity}
+                  onChange={(e) => updateWind({ turbulenceIntensity: Number(e.target.value) })}
                   className="w-full"
                 />
               </div>
+
+              {disturbanceConfig.wind.turbulenceModel === 'dryden' && (
+                <div>
+                  <label className="block text-sm text-gray-600">
+                    乱流スケール長: {disturbanceConfig.wind.turbulenceLengthScale.toFixed(0)}px
+                  </label>
+                  <input
+                    type="range"
+                    min="10"
+                    max="500"
+                    step="10"
+                    value={disturbanceConfig.wind.turbulenceLengthScale}
+                    onChange={(e) => updateWind({ turbulenceLengthScale: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={disturbanceConfig.wind.shear.enabled}
+                    onChange={(e) => updateWind({
+                      shear: { ...disturbanceConfig.wind.shear, enabled: e.target.checked }
+                    })}
+                    className="rounded text-blue-600"
+                  />
+                  <span className="text-sm text-gray-600">地表付近のウィンドシア</span>
+                </label>
+                {disturbanceConfig.wind.shear.enabled && (
+                  <div className="grid grid-cols-2 gap-4 mt-1">
+                    <div>
+                      <label className="block text-xs text-gray-500">
+                        基準高度: {disturbanceConfig.wind.shear.referenceHeight.toFixed(0)}px
+                      </label>
+                      <input
+                        type="range"
+                        min="10"
+                        max="290"
+                        step="10"
+                        value={disturbanceConfig.wind.shear.referenceHeight}
+                        onChange={(e) => updateWind({
+                          shear: { ...disturbanceConfig.wind.shear, referenceHeight: Number(e.target.value) }
+                        })}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500">
+                        指数: {disturbanceConfig.wind.shear.exponent.toFixed(2)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="0.5"
+                        step="0.01"
+                        value={disturbanceConfig.wind.shear.exponent}
+                        onChange={(e) => updateWind({
+                          shear: { ...disturbanceConfig.wind.shear, exponent: Number(e.target.value) }
+                        })}
+                        className="w-full"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <WindZoneEditor
+                zones={disturbanceConfig.wind.zones}
+                onChange={(zones) => updateWind({ zones })}
+              />
             </div>
           )}
         </div>
@@ -448,266 +1105,98 @@ const DroneSimulator: React.FC = () => {
           )}
         </div>
       </div>
-      {/* PID制御設定UI部分を修正 */}
-<div className="mt-6 space-y-4">
-  <div className="flex items-center justify-between">
-    <h3 className="text-lg font-medium text-gray-900">PID制御</h3>
-    <label className="flex items-center space-x-2">
-      <input
-        type="checkbox"
-        checked={pidConfig.enabled}
-        onChange={(e) => setPidConfig(prev => ({
-          ...prev,
-          enabled: e.target.checked
-        }))}
-        className="rounded text-blue-600"
+      <EnvironmentEditor
+        environment={environment}
+        tool={environmentTool}
+        onChange={setEnvironment}
+        onToolChange={setEnvironmentTool}
       />
-      <span>有効</span>
-    </label>
-  </div>
-  
-  {pidConfig.enabled && (
-    <div className="space-y-4">
-      {/* 姿勢制御ゲイン */}
-      <div className="space-y-2">
-        <h4 className="font-medium text-gray-700">姿勢制御ゲイン</h4>
-        <div className="grid grid-cols-3 gap-4">
-          {/* Kp */}
-          <div>
-            <label className="block text-sm text-gray-600">Kp</label>
-            <input
-              type="range"
-              min="0"
-              max="4"
-              step="0.1"
-              value={pidConfig.attitude.kp}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                attitude: {
-                  ...prev.attitude,
-                  kp: Number(e.target.value)
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.attitude.kp.toFixed(1)}
-            </div>
-          </div>
-          {/* Ki */}
-          <div>
-            <label className="block text-sm text-gray-600">Ki</label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.05"
-              value={pidConfig.attitude.ki}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                attitude: {
-                  ...prev.attitude,
-                  ki: Number(e.target.value)
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.attitude.ki.toFixed(2)}
-            </div>
-          </div>
-          {/* Kd */}
-          <div>
-            <label className="block text-sm text-gray-600">Kd</label>
-            <input
-              type="range"
-              min="0"
-              max="2"
-              step="0.1"
-              value={pidConfig.attitude.kd}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                attitude: {
-                  ...prev.attitude,
-                  kd: Number(e.target.value)
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.attitude.kd.toFixed(1)}
-            </div>
-          </div>
-        </div>
+
+      <MissionPanel
+        mission={mission}
+        status={missionStatus}
+        clickMode={arenaClickMode}
+        onChange={handleMissionChange}
+        onClickModeChange={setArenaClickMode}
+        onStart={handleStartMission}
+        onStop={handleStopMission}
+      />
+
+      <SensorPanel config={sensorConfig} onChange={setSensorConfig} />
+      <div className="mt-4">
+        <EstimationPlot history={estimationHistory} />
       </div>
 
-      {/* 水平位置制御ゲイン */}
-      <div className="space-y-2">
-        <h4 className="font-medium text-gray-700">水平位置制御ゲイン</h4>
-        <div className="grid grid-cols-3 gap-4">
-          {/* Kp */}
-          <div>
-            <label className="block text-sm text-gray-600">Kp</label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.05"
-              value={pidConfig.position.horizontal.kp}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                position: {
-                  ...prev.position,
-                  horizontal: {
-                    ...prev.position.horizontal,
-                    kp: Number(e.target.value)
-                  }
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.position.horizontal.kp.toFixed(2)}
-            </div>
-          </div>
-          {/* Ki */}
-          <div>
-            <label className="block text-sm text-gray-600">Ki</label>
-            <input
-              type="range"
-              min="0"
-              max="0.5"
-              step="0.05"
-              value={pidConfig.position.horizontal.ki}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                position: {
-                  ...prev.position,
-                  horizontal: {
-                    ...prev.position.horizontal,
-                    ki: Number(e.target.value)
-                  }
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.position.horizontal.ki.toFixed(2)}
-            </div>
-          </div>
-          {/* Kd */}
-          <div>
-            <label className="block text-sm text-gray-600">Kd</label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.05"
-              value={pidConfig.position.horizontal.kd}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                position: {
-                  ...prev.position,
-                  horizontal: {
-                    ...prev.position.horizontal,
-                    kd: Number(e.target.value)
-                  }
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.position.horizontal.kd.toFixed(2)}
-            </div>
-          </div>
-        </div>
+      <FaultPanel
+        timeline={faultTimeline}
+        records={faultRecords}
+        time={simulationTime}
+        onChange={setFaultTimeline}
+      />
+
+      <div className="mt-6">
+        <TelemetryPanel
+          recorder={engine.getTelemetry()}
+          getMetadata={() => ({
+            simulator: 'drone',
+            seed: disturbanceConfig.seed,
+            integrator,
+            params,
+            controller: {
+              id: controllerId,
+              config: controllerConfigs[controllerId],
+            },
+            disturbance: disturbanceConfig,
+            sensors: sensorConfig,
+            faults: faultTimeline,
+          })}
+          fileName={`drone-${controllerId}-${disturbanceConfig.seed}`}
+        />
       </div>
 
-      {/* 垂直位置制御ゲイン */}
-      <div className="space-y-2">
-        <h4 className="font-medium text-gray-700">垂直位置制御ゲイン</h4>
-        <div className="grid grid-cols-3 gap-4">
-          {/* Kp */}
-          <div>
-            <label className="block text-sm text-gray-600">Kp</label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.05"
-              value={pidConfig.position.vertical.kp}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                position: {
-                  ...prev.position,
-                  vertical: {
-                    ...prev.position.vertical,
-                    kp: Number(e.target.value)
-                  }
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.position.vertical.kp.toFixed(2)}
-            </div>
-          </div>
-          {/* Ki */}
-          <div>
-            <label className="block text-sm text-gray-600">Ki</label>
-            <input
-              type="range"
-              min="0"
-              max="0.5"
-              step="0.05"
-              value={pidConfig.position.vertical.ki}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                position: {
-                  ...prev.position,
-                  vertical: {
-                    ...prev.position.vertical,
-                    ki: Number(e.target.value)
-                  }
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.position.vertical.ki.toFixed(2)}
-            </div>
-          </div>
-          {/* Kd */}
-          <div>
-            <label className="block text-sm text-gray-600">Kd</label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.05"
-              value={pidConfig.position.vertical.kd}
-              onChange={(e) => setPidConfig(prev => ({
-                ...prev,
-                position: {
-                  ...prev.position,
-                  vertical: {
-                    ...prev.position.vertical,
-                    kd: Number(e.target.value)
-                  }
-                }
-              }))}
-              className="w-full"
-            />
-            <div className="text-xs text-gray-500 text-center">
-              {pidConfig.position.vertical.kd.toFixed(2)}
-            </div>
-          </div>
+      <PhysicsParamsPanel
+        params={params}
+        pendingParams={pendingParams}
+        onApply={handleApplyParams}
+      />
+
+      <div className="mt-6">
+        <ControllerPanel
+          registry={DRONE_CONTROLLERS}
+          selectedId={controllerId}
+          onSelect={handleSelectController}
+          config={controllerConfigs[controllerId]}
+          onConfigChange={handleControllerConfigChange}
+          diagnostics={controllerDiagnostics}
+        />
+      </div>
+
+      {/* カスケード PID のゲインの自動調整 */}
+      {controllerId === 'pid' && (
+        <div className="mt-6">
+          <PIDTuningPanel
+            tuner={tuner}
+            onApply={handleControllerConfigChange}
+          />
         </div>
+      )}
+
+      {/* カスケード PID の各ループの周波数応答（ゲインの変更に追従する） */}
+      {controllerId === 'pid' && (
+        <div className="mt-6">
+          <FrequencyResponsePanel
+            analyzer={loopAnalyzer}
+          />
+        </div>
+      )}
+
+      <div className="mt-6">
+        <StepTestPanel
+          tester={stepTester}
+          controllerName={DRONE_CONTROLLERS.get(controllerId).name}
+        />
       </div>
     </div>
-  )}
-</div>
-    </div>
   );
 };
 
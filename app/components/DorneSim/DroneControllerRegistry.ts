@@ -0,0 +1,61 @@
+import { ControllerRegistry } from '../Simulation/Controller';
+import type { LQRWeights } from '../Simulation/LQR';
+import { createLQRSettings } from '../Simulation/LQRWeightsPanel';
+import { CascadePIDController, ManualController } from './DroneControllers';
+import type { DroneObservation } from './DroneControllers';
+import {
+  DroneLQRController,
+  DEFAULT_DRONE_LQR_WEIGHTS,
+} from './DroneLQRController';
+import {
+  DroneMPCController,
+  DEFAULT_DRONE_MPC_CONFIG,
+} from './DroneMPCController';
+import type { DroneMPCConfig } from './DroneMPCController';
+import { STATE_LABELS } from './DroneLinearization';
+import DroneMPCSettings from './DroneMPCSettings';
+import DronePIDSettings from './DronePIDSettings';
+import type { PIDConfig, ThrustCommand } from './types';
+import { DEFAULT_PID_CONFIG } from './defaults';
+
+// ドローンシミュレータで選択できる制御器
+export const DRONE_CONTROLLERS = new ControllerRegistry<
+  DroneObservation,
+  ThrustCommand
+>()
+  .register<null>({
+    id: 'manual',
+    name: '手動',
+    description: '左右ロータの推力スライダーの値をそのまま指令とします',
+    defaultConfig: null,
+    create: () => new ManualController(),
+  })
+  .register<PIDConfig>({
+    id: 'pid',
+    name: 'カスケードPID',
+    description:
+      '位置 → 速度 → 姿勢 → 角速度の順に PID をつなぎ、外側の出力を内側の目標値とします（ループごとに有効・無効と実行周波数を設定可能）',
+    defaultConfig: DEFAULT_PID_CONFIG,
+    create: config => new CascadePIDController(config),
+    Settings: DronePIDSettings,
+  })
+  .register<LQRWeights>({
+    id: 'lqr',
+    name: 'LQR',
+    description:
+      'ホバリング状態で線形化したモデルから最適ゲインを求めます（吊り荷の重みは吊り荷があるときのみ使用）',
+    defaultConfig: DEFAULT_DRONE_LQR_WEIGHTS,
+    create: weights => new DroneLQRController(weights),
+    Settings: createLQRSettings(STATE_LABELS, ['左推力', '右推力']),
+  })
+  .register<DroneMPCConfig>({
+    id: 'mpc',
+    name: 'MPC',
+    description:
+      '線形モデルで未来の軌道を予測し、推力・姿勢角・アリーナの制約を守る入力列を二次計画法で求めます',
+    defaultConfig: DEFAULT_DRONE_MPC_CONFIG,
+    create: config => new DroneMPCController(config),
+    Settings: DroneMPCSettings,
+  });
+
+export const DEFAULT_DRONE_CONTROLLER_ID = 'pid';
@@ -0,0 +1,372 @@
+import { PIDController } from '../Simulation/PIDController';
+import type { PIDOptions, PIDTerms } from '../Simulation/PIDController';
+import type {
+  Controller,
+  ControllerDiagnostics,
+} from '../Simulation/Controller';
+import { hoverThrust } from './DroneLinearization';
+import type {
+  CascadeLoop,
+  PhysicsState,
+  PhysicsParams,
+  PIDConfig,
+  PIDGains,
+  Position,
+  ThrustCommand,
+  TrajectoryReference,
+} from './types';
+
+// ドローンの制御器に渡す観測
+export interface DroneObservation {
+  state: PhysicsState;
+  reference: TrajectoryReference; // 目標位置と、軌道追従時の速度・加速度
+  pilot: ThrustCommand; // 手動操作の推力
+  params: PhysicsParams;
+  maxThrust: number; // 電池の電圧降下を反映したロータの最大推力
+  time: number;
+}
+
+export type DroneController<Config = unknown> = Controller<
+  DroneObservation,
+  ThrustCommand,
+  Config
+>;
+
+// 予測軌道を持つ制御器（MPC など）は描画用に公開する
+export interface PredictiveController {
+  getPredictedPath(): Position[];
+}
+
+export const hasPredictedPath = (
+  controller: DroneController,
+): controller is DroneController & PredictiveController =>
+  'getPredictedPath' in controller;
+
+// 1描画フレームで使える計算量に上限がある制御器（advance が残りを確かめながら進める）
+export interface FrameBudgetedController {
+  beginFrame(): void;
+  isFrameBudgetSpent(): boolean;
+}
+
+export const hasFrameBudget = (
+  controller: DroneController,
+): controller is DroneController & FrameBudgetedController =>
+  'beginFrame' in controller;
+
+// 手動操作の推力をそのまま指令とする
+export class ManualController implements DroneController<null> {
+  public reset(): void {}
+
+  public update(observation: DroneObservation): ThrustCommand {
+    return { ...observation.pilot };
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    return {};
+  }
+
+  public configure(): void {}
+}
+
+const termsDiagnostics = (
+  name: string,
+  terms: PIDTerms,
+): ControllerDiagnostics => ({
+  [`${name}.P`]: terms.p,
+  [`${name}.I`]: terms.i,
+  [`${name}.D`]: terms.d,
+  [`${name}.出力`]: terms.output,
+});
+
+// カスケードを構成する PID（水平・垂直で別の PID を持つループがある）
+export type CascadeStageId =
+  | 'horizontalPosition'
+  | 'verticalPosition'
+  | 'horizontalVelocity'
+  | 'verticalVelocity'
+  | 'attitude'
+  | 'rate';
+
+export interface CascadeStageDefinition {
+  name: string;
+  loop: CascadeLoop;
+  gains: (config: PIDConfig) => PIDGains;
+}
+
+export const CASCADE_STAGES: Record<CascadeStageId, CascadeStageDefinition> = {
+  horizontalPosition: {
+    name: '水平位置',
+    loop: 'position',
+    gains: config => config.position.horizontal,
+  },
+  verticalPosition: {
+    name: '垂直位置',
+    loop: 'position',
+    gains: config => config.position.vertical,
+  },
+  horizontalVelocity: {
+    name: '水平速度',
+    loop: 'velocity',
+    gains: config => config.velocity.horizontal,
+  },
+  verticalVelocity: {
+    name: '垂直速度',
+    loop: 'velocity',
+    gains: config => config.velocity.vertical,
+  },
+  attitude: {
+    name: '姿勢',
+    loop: 'attitude',
+    gains: config => config.attitude,
+  },
+  rate: { name: '角速度', loop: 'rate', gains: config => config.rate },
+};
+
+const STAGE_IDS = Object.keys(CASCADE_STAGES) as CascadeStageId[];
+
+/**
+ * PID の代わりにループの出力を決める関数（リレー試験などに使う）。
+ * limit は次のループへ渡せる目標値の上限。
+ */
+export type StageOverride = (
+  setpoint: number,
+  measured: number,
+  limit: number,
+  dt: number,
+) => number;
+
+// 決まった周波数で PID を実行し、次の実行までは出力を保持する
+class ScheduledPID {
+  public readonly pid: PIDController;
+  public override: StageOverride | null = null;
+  private elapsed = 0;
+  private output = 0;
+  private started = false;
+
+  constructor(gains: PIDGains, options: PIDOptions) {
+    this.pid = new PIDController(
+      gains.kp,
+      gains.ki,
+      gains.kd,
+      -Infinity,
+      Infinity,
+      options,
+    );
+  }
+
+  public update(
+    setpoint: number,
+    measured: number,
+    dt: number,
+    rate: number,
+    limit: number,
+  ): number {
+    this.elapsed += dt;
+    // 浮動小数点の誤差で1ステップ遅れないよう、わずかに早めに実行する
+    if (!this.started || this.elapsed >= 1 / rate - 1e-9) {
+      if (this.override) {
+        this.output = clamp(
+          this.override(setpoint, measured, limit, this.elapsed),
+          limit,
+        );
+      } else {
+        this.pid.setOutputLimits(-limit, limit);
+        this.output = this.pid.update(setpoint, measured, this.elapsed);
+      }
+      this.elapsed = 0;
+      this.started = true;
+    }
+    return this.output;
+  }
+
+  public reset(): void {
+    this.pid.reset();
+    this.elapsed = 0;
+    this.output = 0;
+    this.started = false;
+  }
+}
+
+// カスケードの1段: PID・測定値・目標値への加算（揺れ止めなど）
+interface CascadeStage {
+  id: CascadeStageId;
+  measured: number;
+  offset?: number;
+}
+
+// 左右の推力差・推力の共通分の上限
+const MAX_DIFFERENTIAL_THRUST = 1;
+const MAX_COLLECTIVE_THRUST = 2;
+
+const clamp = (value: number, limit: number): number =>
+  Math.min(Math.max(value, -limit), limit);
+
+/**
+ * 位置 → 速度 → 姿勢 → 角速度 の4段カスケード PID。
+ * 水平方向は4段すべて、垂直方向は位置 → 速度の2段で推力を決める。
+ * 各ループは個別に無効化でき、無効なループは飛ばして外側の出力を次の有効なループの
+ * 目標値とする（外側がすべて無効なら目標値は 0）。内側から順に調整するための構成。
+ * 吊り荷がある場合は振れ角のフィードバックを目標姿勢角へ加える。
+ */
+export class CascadePIDController implements DroneController<PIDConfig> {
+  private config: PIDConfig;
+  private stages: Record<CascadeStageId, ScheduledPID>;
+
+  constructor(config: PIDConfig) {
+    this.config = config;
+    this.stages = Object.fromEntries(
+      STAGE_IDS.map(id => [
+        id,
+        new ScheduledPID(CASCADE_STAGES[id].gains(config), config.options),
+      ]),
+    ) as Record<CascadeStageId, ScheduledPID>;
+  }
+
+  public configure(config: PIDConfig): void {
+    this.config = config;
+    STAGE_IDS.forEach(id => {
+      const { kp, ki, kd } = CASCADE_STAGES[id].gains(config);
+      this.stages[id].pid.setGains(kp, ki, kd);
+      this.stages[id].pid.setOptions(config.options);
+    });
+  }
+
+  public reset(): void {
+    STAGE_IDS.forEach(id => this.stages[id].reset());
+  }
+
+  // 指定した PID を関数で置き換える（null で元に戻す）
+  public setOverride(id: CascadeStageId, override: StageOverride | null): void {
+    this.stages[id].override = override;
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    const { loops } = this.config;
+    return STAGE_IDS.filter(
+      id => loops[CASCADE_STAGES[id].loop].enabled,
+    ).reduce<ControllerDiagnostics>(
+      (diagnostics, id) => ({
+        ...diagnostics,
+        ...termsDiagnostics(
+          CASCADE_STAGES[id].name,
+          this.stages[id].pid.getTerms(),
+        ),
+      }),
+      {},
+    );
+  }
+
+  public update(observation: DroneObservation, dt: number): ThrustCommand {
+    const { state, reference, params } = observation;
+    const { position: target, velocity, acceleration } = reference;
+    const { swingDamping } = this.config;
+    const { payload } = state;
+
+    // 水平方向: 位置 → 速度 → 目標姿勢角 → 目標角速度 → 左右の推力差
+    // 正の回転角で推力が+x方向へ傾き、左推力が大きいと正のトルクになる
+    // 吊り荷の振れる向きへ機体を動かすと揺れが減衰する
+    const differential = this.runCascade(
+      target.x,
+      [
+        { id: 'horizontalPosition', measured: state.position.x },
+        {
+          id: 'horizontalVelocity',
+          measured: state.velocity.x,
+          offset: velocity.x,
+        },
+        {
+          id: 'attitude',
+          measured: state.rotation,
+          // 目標加速度を得る傾きをフィードフォワードする
+          offset:
+            Math.atan(acceleration.x / params.GRAVITY) +
+            swingDamping.kp * payload.angle +
+            swingDamping.kd * payload.angularVelocity,
+        },
+        { id: 'rate', measured: state.angularVelocity },
+      ],
+      MAX_DIFFERENTIAL_THRUST,
+      dt,
+    );
+
+    // 垂直方向: 位置 → 速度 → 推力の共通分
+    // 画面座標はy軸下向きのため上向き正に変換して扱う（速度はもともと上向き正）
+    const collective = this.runCascade(
+      -target.y,
+      [
+        { id: 'verticalPosition', measured: -state.position.y },
+        {
+          id: 'verticalVelocity',
+          measured: state.velocity.y,
+          offset: velocity.y,
+        },
+      ],
+      MAX_COLLECTIVE_THRUST,
+      dt,
+    );
+    // 目標の上下加速度に必要な推力（左右で等分）
+    const accelerationThrust =
+      ((params.MASS + params.PAYLOAD_MASS) * acceleration.y) / 2;
+
+    // ホバリングに必要な推力（機体と吊り荷の重さ・重心オフセットから求める）を中心に共通分を加える
+    const [hoverLeft, hoverRight] = hoverThrust(params);
+
+    // 制御出力を推力指令に変換（飽和はロータモデル側で扱う）
+    return {
+      left: hoverLeft + accelerationThrust + collective + differential,
+      right: hoverRight + accelerationThrust + collective - differential,
+    };
+  }
+
+  // 有効な段だけを外側から順に実行し、最後の段の出力を返す
+  private runCascade(
+    reference: number,
+    stages: CascadeStage[],
+    outputLimit: number,
+    dt: number,
+  ): number {
+    const { loops } = this.config;
+    const enabled = stages.filter(
+      stage => loops[CASCADE_STAGES[stage.id].loop].enabled,
+    );
+    if (enabled.length === 0) {
+      return 0;
+    }
+
+    let setpoint =
+      CASCADE_STAGES[enabled[0].id].loop === 'position' ? reference : 0;
+    enabled.forEach((stage, i) => {
+      const { loop } = CASCADE_STAGES[stage.id];
+      if (loop !== 'position') {
+        setpoint = clamp(
+          setpoint + (stage.offset ?? 0),
+          this.setpointLimit(loop),
+        );
+      }
+      const next = enabled[i + 1];
+      setpoint = this.stages[stage.id].update(
+        setpoint,
+        stage.measured,
+        dt,
+        loops[loop].rate,
+        next ? this.setpointLimit(CASCADE_STAGES[next.id].loop) : outputLimit,
+      );
+    });
+    return setpoint;
+  }
+
+  // 各ループが受け取る目標値の上限
+  private setpointLimit(loop: CascadeLoop): number {
+    const { limits } = this.config;
+    switch (loop) {
+      case 'position':
+        return Infinity;
+      case 'velocity':
+        return limits.maxVelocity;
+      case 'attitude':
+        return limits.maxTilt;
+      case 'rate':
+        return limits.maxBodyRate;
+    }
+  }
+}
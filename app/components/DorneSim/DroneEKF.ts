@@ -0,0 +1,181 @@
+import { add, diag, multiply, scale, transpose } from '../Simulation/Matrix';
+import type { Matrix } from '../Simulation/Matrix';
+import { ARENA_BOUNDS } from './DroneModel';
+import { SensorModel } from './SensorModel';
+import type { SensorReading } from './SensorModel';
+import type { SensorId, SensorSpec } from './SensorConfig';
+import type { EstimatedState, StateEstimator } from './StateEstimator';
+import type { Acceleration, PhysicsParams, PhysicsState } from './types';
+
+// 状態ベクトル [x, y, 姿勢角, vx, vy, ジャイロバイアス, 気圧高度バイアス] の添字
+const X = 0;
+const Y = 1;
+const THETA = 2;
+const VX = 3;
+const VY = 4;
+const GYRO_BIAS = 5;
+const BARO_BIAS = 6;
+const STATE_SIZE = 7;
+
+// 初期状態の標準偏差（初期位置・姿勢は既知とし、バイアスは未知とする）
+const INITIAL_DEVIATION = [0.5, 0.5, 0.01, 0.1, 0.1, 0.05, 10];
+// バイアスのランダムウォークと、IMU 積分のモデル誤差（単位時間あたりの分散）
+const BIAS_RANDOM_WALK = { gyro: 1e-6, barometer: 1e-4 };
+const MODEL_UNCERTAINTY = { position: 1e-4, velocity: 0.01 };
+
+const wrapAngle = (angle: number): number =>
+  Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * 拡張カルマンフィルタ。ジャイロと加速度計を入力として姿勢・速度・位置を予測し、
+ * 気圧高度と位置計測で補正する。ジャイロと気圧高度計のバイアスも推定する。
+ * 遅延した計測値は届いた時点の値として扱うため、遅延が大きいと推定が遅れる。
+ */
+export class DroneEKF implements StateEstimator {
+  private sensors: Record<SensorId, SensorSpec>;
+  private state: number[] = new Array<number>(STATE_SIZE).fill(0);
+  private covariance: Matrix = diag(INITIAL_DEVIATION.map(d => d * d));
+  private gyro = 0;
+  private specificForce: Acceleration | null = null;
+
+  constructor(sensors: Record<SensorId, SensorSpec>) {
+    this.sensors = sensors;
+  }
+
+  public reset(initial: PhysicsState): void {
+    this.state = [
+      initial.position.x,
+      initial.position.y,
+      initial.rotation,
+      initial.velocity.x,
+      initial.velocity.y,
+      0,
+      0,
+    ];
+    this.covariance = diag(INITIAL_DEVIATION.map(d => d * d));
+    this.gyro = initial.angularVelocity;
+    this.specificForce = null;
+  }
+
+  public getEstimate(): EstimatedState {
+    const s = this.state;
+    const sigma = (i: number) => Math.sqrt(Math.max(this.covariance[i][i], 0));
+    return {
+      position: { x: s[X], y: s[Y] },
+      velocity: { x: s[VX], y: s[VY] },
+      rotation: s[THETA],
+      angularVelocity: this.gyro - s[GYRO_BIAS],
+      deviation: {
+        position: { x: sigma(X), y: sigma(Y) },
+        velocity: { x: sigma(VX), y: sigma(VY) },
+        rotation: sigma(THETA),
+      },
+    };
+  }
+
+  public update(
+    readings: SensorReading[],
+    params: PhysicsParams,
+    dt: number,
+  ): void {
+    readings.forEach(reading => {
+      if (reading.sensor === 'gyro') this.gyro = reading.value;
+      if (reading.sensor === 'accelerometer') {
+        this.specificForce = reading.value;
+      }
+    });
+
+    this.predict(params.GRAVITY, dt);
+
+    readings.forEach(reading => {
+      const { noise } = this.sensors[reading.sensor];
+      const variance = Math.max(noise * noise, 1e-9);
+      switch (reading.sensor) {
+        case 'barometer': {
+          // 地上高 = groundY - y + バイアス
+          const h = new Array<number>(STATE_SIZE).fill(0);
+          h[Y] = -1;
+          h[BARO_BIAS] = 1;
+          const predicted =
+            ARENA_BOUNDS.groundY - this.state[Y] + this.state[BARO_BIAS];
+          this.correct(h, reading.value - predicted, variance);
+          break;
+        }
+        case 'positionFix': {
+          const hx = new Array<number>(STATE_SIZE).fill(0);
+          hx[X] = 1;
+          this.correct(hx, reading.value.x - this.state[X], variance);
+          const hy = new Array<number>(STATE_SIZE).fill(0);
+          hy[Y] = 1;
+          this.correct(hy, reading.value.y - this.state[Y], variance);
+          break;
+        }
+      }
+    });
+  }
+
+  // IMU の計測値を入力として状態と共分散を1ステップ進める
+  private predict(gravity: number, dt: number): void {
+    const s = this.state;
+    const theta = s[THETA];
+    // 加速度計が届くまではホバリングの比力とみなす
+    const force = this.specificForce ?? { x: 0, y: gravity };
+    const acceleration = SensorModel.worldAcceleration(theta, force, gravity);
+
+    this.state = [
+      s[X] + s[VX] * dt,
+      s[Y] - s[VY] * dt, // 画面座標は y 下向き
+      wrapAngle(theta + (this.gyro - s[GYRO_BIAS]) * dt),
+      s[VX] + acceleration.x * dt,
+      s[VY] + acceleration.y * dt,
+      s[GYRO_BIAS],
+      s[BARO_BIAS],
+    ];
+
+    // 状態遷移のヤコビアン F = I + J dt
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    const F = diag(new Array<number>(STATE_SIZE).fill(1));
+    F[X][VX] = dt;
+    F[Y][VY] = -dt;
+    F[THETA][GYRO_BIAS] = -dt;
+    F[VX][THETA] = (-force.x * sin + force.y * cos) * dt;
+    F[VY][THETA] = (-force.x * cos - force.y * sin) * dt;
+
+    // IMU のノイズは姿勢角と速度の過程ノイズになる
+    const { gyro, accelerometer } = this.sensors;
+    const density = (spec: SensorSpec) =>
+      (spec.noise * spec.noise) / Math.max(spec.rate, 1e-9);
+    const Q = diag([
+      MODEL_UNCERTAINTY.position,
+      MODEL_UNCERTAINTY.position,
+      density(gyro),
+      density(accelerometer) + MODEL_UNCERTAINTY.velocity,
+      density(accelerometer) + MODEL_UNCERTAINTY.velocity,
+      BIAS_RANDOM_WALK.gyro,
+      BIAS_RANDOM_WALK.barometer,
+    ]);
+
+    this.covariance = add(
+      multiply(multiply(F, this.covariance), transpose(F)),
+      scale(Q, dt),
+    );
+  }
+
+  // スカラーの観測 z = h·x（innovation = z - h·x）による逐次更新
+  private correct(h: number[], innovation: number, variance: number): void {
+    const P = this.covariance;
+    const Ph = P.map(row =>
+      row.reduce((sum, value, j) => sum + value * h[j], 0),
+    );
+    const S = h.reduce((sum, value, i) => sum + value * Ph[i], 0) + variance;
+    const K = Ph.map(value => value / S);
+
+    this.state = this.state.map((value, i) => value + K[i] * innovation);
+    this.state[THETA] = wrapAngle(this.state[THETA]);
+    // P ← P - K (h P)（P は対称なので h P = Phᵀ）
+    this.covariance = P.map((row, i) =>
+      row.map((value, j) => value - K[i] * Ph[j]),
+    );
+  }
+}
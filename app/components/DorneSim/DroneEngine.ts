@@ -0,0 +1,655 @@
+import { CascadePIDController, hasFrameBudget } from './DroneControllers';
+import type { DroneController } from './DroneControllers';
+import type { ControllerDiagnostics } from '../Simulation/Controller';
+import { DroneModel, ARENA_BOUNDS } from './DroneModel';
+import { MotorModel } from './MotorModel';
+import { ContactModel } from './ContactModel';
+import { LandingMonitor } from './LandingMonitor';
+import { BatteryModel, LOW_BATTERY_THRESHOLD } from './BatteryModel';
+import { WindField } from './WindField';
+import { EnvironmentModel } from './EnvironmentModel';
+import { MissionRunner } from './MissionRunner';
+import type { Mission, MissionStatus } from './Mission';
+import { staticReference } from './Trajectory';
+import { SensorSuite } from './SensorModel';
+import {
+  applyEstimate,
+  createEstimator,
+  truthEstimate,
+} from './StateEstimator';
+import type { EstimatedState, StateEstimator } from './StateEstimator';
+import type { SensorConfig } from './SensorConfig';
+import { FaultInjector } from './FaultInjector';
+import type { FaultEvent, FaultRecord } from './Fault';
+import type { EnvironmentMap } from './Environment';
+import type { BatteryState } from './BatteryModel';
+import { createRandom, uniformSigned } from '../Simulation/Random';
+import type { RandomSource } from '../Simulation/Random';
+import { TelemetryRecorder } from '../Simulation/TelemetryRecorder';
+import type { TelemetrySample } from '../Simulation/TelemetryRecorder';
+import type { IntegratorType } from '../Simulation/Integrators';
+import type {
+  Acceleration,
+  PhysicsState,
+  PhysicsParams,
+  Position,
+  ThrustCommand,
+  TrajectoryReference,
+  Velocity,
+  DroneEvent,
+  LandingStatus,
+} from './types';
+import type { DisturbanceConfig } from './DisturbanceConfig';
+import {
+  DEFAULT_PHYSICS_PARAMS,
+  DEFAULT_DISTURBANCE_CONFIG,
+  DEFAULT_PID_CONFIG,
+  DEFAULT_MANUAL_THRUST,
+  DEFAULT_ENVIRONMENT,
+  DEFAULT_SENSOR_CONFIG,
+  INITIAL_PHYSICS_STATE,
+} from './defaults';
+
+// 固定ステップ幅（シミュレーション時間）。接地時の硬い接触力でも安定する幅とする
+export const FIXED_TIME_STEP = 0.005;
+// 実時間[ms]をシミュレーション時間へ換算する係数
+export const REAL_TIME_SCALE = 1 / 100;
+// タブ復帰時などに大量のステップが溜まるのを防ぐ上限
+const MAX_STEPS_PER_ADVANCE = 250;
+
+// グラフ表示用の記録の周波数と保持件数（60秒分）
+const LIVE_TELEMETRY_CONFIG = { rate: 50, capacity: 3000 };
+
+// 位置制御の既定の目標位置
+const DEFAULT_TARGET: Position = { x: 300, y: 150 };
+
+export interface BatteryStatus {
+  stateOfCharge: number;
+  voltage: number;
+  current: number;
+  power: number;
+  remainingTime: number; // 現在の消費が続いた場合の残り飛行時間
+  maxThrustScale: number; // 電圧降下による最大推力の比率
+}
+
+export type DroneEventListener = (event: DroneEvent) => void;
+
+export interface DroneEngineOptions {
+  params?: PhysicsParams;
+  disturbance?: DisturbanceConfig;
+  controller?: DroneController;
+  initialState?: PhysicsState;
+  integrator?: IntegratorType;
+  environment?: EnvironmentMap;
+  sensors?: SensorConfig;
+}
+
+/**
+ * 固定ステップで DroneModel を進めるシミュレーションエンジン。
+ * 制御器の呼び出しと外乱の計算もここで行い、React からは描画のみを担当させる。
+ */
+export class DroneEngine {
+  private state: PhysicsState;
+  private initialState: PhysicsState;
+  private params: PhysicsParams;
+  private disturbanceConfig: DisturbanceConfig;
+  private controller: DroneController;
+  private target: Position = DEFAULT_TARGET;
+  // 実行中のミッション（null なら target で静止する）
+  private mission: MissionRunner | null = null;
+  private integrator: IntegratorType;
+  private manualThrust: ThrustCommand = { ...DEFAULT_MANUAL_THRUST };
+  private command: ThrustCommand = { ...DEFAULT_MANUAL_THRUST };
+  private motorThrust: ThrustCommand = { ...DEFAULT_MANUAL_THRUST };
+  private accumulator = 0;
+  private time = 0;
+  private random: RandomSource;
+  private landingMonitor = new LandingMonitor();
+  private battery: BatteryState;
+  private lowBatteryNotified = false;
+  private windField = new WindField();
+  private wind: Velocity = { x: 0, y: 0 };
+  private environment: EnvironmentMap;
+  private activeNoFlyZones: string[] = [];
+  // 障害物・天井に衝突したら reset までシミュレーションを止める
+  private halted = false;
+  private sensorConfig: SensorConfig;
+  private sensorSuite: SensorSuite;
+  // 推定器（null なら真値をそのまま推定値とする）
+  private estimator: StateEstimator | null;
+  // 直近ステップの加速度（加速度計の模擬に使う、y 上向き正）
+  private acceleration: Acceleration = { x: 0, y: 0 };
+  private faultInjector = new FaultInjector();
+  private telemetry = new TelemetryRecorder();
+  // グラフ表示用の直近の記録（書き出し用の記録の設定とは独立）
+  private liveTelemetry = new TelemetryRecorder(LIVE_TELEMETRY_CONFIG);
+  private listeners = new Set<DroneEventListener>();
+
+  constructor(options: DroneEngineOptions = {}) {
+    this.params = options.params ?? DEFAULT_PHYSICS_PARAMS;
+    this.disturbanceConfig = options.disturbance ?? DEFAULT_DISTURBANCE_CONFIG;
+    this.controller =
+      options.controller ?? new CascadePIDController(DEFAULT_PID_CONFIG);
+    this.initialState = options.initialState ?? INITIAL_PHYSICS_STATE;
+    this.integrator = options.integrator ?? 'semiImplicitEuler';
+    this.environment = options.environment ?? DEFAULT_ENVIRONMENT;
+    this.state = this.initialState;
+    this.random = createRandom(this.disturbanceConfig.seed);
+    this.battery = BatteryModel.initialState(this.params);
+    this.sensorConfig = options.sensors ?? DEFAULT_SENSOR_CONFIG;
+    this.sensorSuite = new SensorSuite(this.sensorConfig);
+    this.estimator = createEstimator(this.sensorConfig);
+    this.estimator?.reset(this.state);
+  }
+
+  public getState(): PhysicsState {
+    return this.state;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  // 直近ステップの推力指令
+  public getCommand(): ThrustCommand {
+    return this.command;
+  }
+
+  // 直近ステップでロータが実際に発生した推力
+  public getMotorThrust(): ThrustCommand {
+    return this.motorThrust;
+  }
+
+  public getBattery(): BatteryStatus {
+    return {
+      stateOfCharge: BatteryModel.stateOfCharge(this.battery, this.params),
+      voltage: this.battery.voltage,
+      current: this.battery.current,
+      power: this.battery.power,
+      remainingTime: BatteryModel.remainingTime(this.battery),
+      maxThrustScale: BatteryModel.maxThrustScale(this.battery, this.params),
+    };
+  }
+
+  // 直近ステップで機体位置に吹いていた風速
+  public getWind(): Velocity {
+    return this.wind;
+  }
+
+  // 推定器が出力している状態（推定器を使わない場合は真値）
+  public getEstimate(): EstimatedState {
+    return this.estimator?.getEstimate() ?? truthEstimate(this.state);
+  }
+
+  public getFaultTimeline(): FaultEvent[] {
+    return this.faultInjector.getTimeline();
+  }
+
+  // 発生した故障ごとの回復の記録
+  public getFaultRecords(): FaultRecord[] {
+    return this.faultInjector.getRecords();
+  }
+
+  // 状態・目標・制御器の内部量・推力・外乱の記録
+  public getTelemetry(): TelemetryRecorder {
+    return this.telemetry;
+  }
+
+  // グラフ表示用の直近の記録
+  public getLiveTelemetry(): TelemetryRecorder {
+    return this.liveTelemetry;
+  }
+
+  public getController(): DroneController {
+    return this.controller;
+  }
+
+  // 制御器の内部量（各ループの寄与など）
+  public getControllerDiagnostics(): ControllerDiagnostics {
+    return this.controller.getDiagnostics();
+  }
+
+  public getTarget(): Position {
+    return this.target;
+  }
+
+  // 制御器に与えている目標（ミッション中は軌道上の点）
+  public getReference(): TrajectoryReference {
+    return this.mission
+      ? this.mission.getReference()
+      : staticReference(this.target);
+  }
+
+  public getMission(): Mission | null {
+    return this.mission?.getMission() ?? null;
+  }
+
+  public getMissionStatus(): MissionStatus | null {
+    return this.mission?.getStatus() ?? null;
+  }
+
+  // 実行中のミッションの現在の区間の始点
+  public getMissionSegmentStart(): Position | null {
+    return this.mission?.getSegmentStart() ?? null;
+  }
+
+  public getLandingStatus(): LandingStatus {
+    return this.landingMonitor.getStatus();
+  }
+
+  // 機体が現在入っている飛行禁止区域の ID
+  public getActiveNoFlyZones(): string[] {
+    return this.activeNoFlyZones;
+  }
+
+  // 衝突によりシミュレーションが停止しているか
+  public isHalted(): boolean {
+    return this.halted;
+  }
+
+  /**
+   * 着陸・墜落などのイベントを購読する。
+   * @returns 購読解除関数
+   */
+  public subscribe(listener: DroneEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public setParams(params: PhysicsParams): void {
+    this.params = params;
+  }
+
+  public setIntegrator(integrator: IntegratorType): void {
+    this.integrator = integrator;
+  }
+
+  public setEnvironment(environment: EnvironmentMap): void {
+    this.environment = environment;
+  }
+
+  public setDisturbanceConfig(config: DisturbanceConfig): void {
+    const seedChanged = config.seed !== this.disturbanceConfig.seed;
+    this.disturbanceConfig = config;
+    if (seedChanged) {
+      this.random = createRandom(config.seed);
+    }
+  }
+
+  /**
+   * センサと推定器の設定を変更する。
+   * 推定器の種類・時定数・センサ仕様が変わった場合は、現在の真値から推定をやり直す。
+   */
+  public setSensorConfig(config: SensorConfig): void {
+    const previous = this.sensorConfig;
+    this.sensorConfig = config;
+    this.sensorSuite.setConfig(config);
+    if (
+      config.estimator !== previous.estimator ||
+      config.complementary !== previous.complementary ||
+      config.sensors !== previous.sensors
+    ) {
+      this.estimator = createEstimator(config);
+      this.estimator?.reset(this.state);
+    }
+  }
+
+  // 故障のタイムラインを設定する。発生済みの故障は reset まで続く
+  public setFaultTimeline(timeline: FaultEvent[]): void {
+    this.faultInjector.setTimeline(timeline);
+  }
+
+  // 制御器を差し替える。内部状態を持ち越さないよう初期化してから使う
+  public setController(controller: DroneController): void {
+    this.controller = controller;
+    this.controller.reset();
+  }
+
+  // 目標位置を直接指定する。実行中のミッションは中止する
+  public setTarget(target: Position): void {
+    this.target = target;
+    this.mission = null;
+  }
+
+  // 現在位置からミッションを開始する
+  public startMission(mission: Mission): void {
+    this.mission = new MissionRunner(mission, this.state.position, this.time);
+  }
+
+  // ミッションを中止し、その時点の目標位置にとどまる
+  public stopMission(): void {
+    if (this.mission) {
+      this.target = this.mission.getReference().position;
+      this.mission = null;
+    }
+  }
+
+  public setManualThrust(thrust: ThrustCommand): void {
+    this.manualThrust = thrust;
+  }
+
+  /**
+   * 初期状態に戻し、乱数列もシードから作り直す。
+   * 同じシード・同じ設定で reset すれば同一の軌道が再現される。
+   */
+  public reset(initialState: PhysicsState = this.initialState): void {
+    this.initialState = initialState;
+    this.state = initialState;
+    this.accumulator = 0;
+    this.time = 0;
+    this.random = createRandom(this.disturbanceConfig.seed);
+    this.command = { ...this.manualThrust };
+    this.motorThrust = { ...DEFAULT_MANUAL_THRUST };
+    this.landingMonitor.reset();
+    this.battery = BatteryModel.initialState(this.params);
+    this.lowBatteryNotified = false;
+    this.windField.reset();
+    this.wind = { x: 0, y: 0 };
+    this.activeNoFlyZones = [];
+    this.halted = false;
+    this.mission = null;
+    this.acceleration = { x: 0, y: 0 };
+    this.sensorSuite.reset();
+    this.faultInjector.reset();
+    this.telemetry.clear();
+    this.liveTelemetry.clear();
+    this.estimator?.reset(initialState);
+    this.controller.reset();
+  }
+
+  /**
+   * 経過した実時間[ms]分だけシミュレーションを進める。
+   * 端数は次回に持ち越し、常に FIXED_TIME_STEP で積分する。
+   * @returns 実行したステップ数
+   */
+  public advance(realDeltaMs: number): number {
+    this.accumulator += Math.max(realDeltaMs, 0) * REAL_TIME_SCALE;
+    const controller = this.controller;
+    const budgeted = hasFrameBudget(controller);
+    if (budgeted) {
+      controller.beginFrame();
+    }
+
+    let steps = 0;
+    let limited = false;
+    while (this.accumulator >= FIXED_TIME_STEP) {
+      if (
+        steps === MAX_STEPS_PER_ADVANCE ||
+        (budgeted && controller.isFrameBudgetSpent())
+      ) {
+        limited = true;
+        break;
+      }
+      this.step();
+      this.accumulator -= FIXED_TIME_STEP;
+      steps++;
+    }
+    // 上限に達した分は破棄して実時間に追従させる（計算の遅れが次のフレームに積み重ならない）
+    if (limited) {
+      this.accumulator = 0;
+    }
+    return steps;
+  }
+
+  // シミュレーション時間 duration 分を実時間と無関係に一括で進める
+  public run(duration: number): void {
+    const steps = Math.round(duration / FIXED_TIME_STEP);
+    for (let i = 0; i < steps; i++) {
+      this.step();
+    }
+  }
+
+  public step(): PhysicsState {
+    if (this.halted) {
+      return this.state;
+    }
+
+    const dt = FIXED_TIME_STEP;
+    const missionEvent = this.mission?.update(this.state.position, this.time);
+    if (missionEvent) {
+      this.emit(missionEvent);
+    }
+    // 故障は機体の運動にだけ反映し、制御器・電池・接地の判定には公称のパラメータを渡す
+    const faultedParams = this.faultInjector.applyToParams(
+      this.params,
+      this.time,
+    );
+
+    const readings = this.faultInjector.applyToReadings(
+      this.sensorSuite.update(
+        this.state,
+        this.acceleration,
+        this.params.GRAVITY,
+        this.time,
+      ),
+    );
+    this.estimator?.update(readings, this.params, dt);
+    const observed = this.sensorConfig.controlOnEstimate
+      ? applyEstimate(this.state, this.getEstimate())
+      : this.state;
+
+    // 電圧降下に応じてロータの最大推力が下がる
+    const maxThrust =
+      this.params.MOTOR_MAX_THRUST *
+      BatteryModel.maxThrustScale(this.battery, this.params);
+    this.command = this.controller.update(
+      {
+        state: observed,
+        reference: this.getReference(),
+        pilot: this.manualThrust,
+        params: this.params,
+        maxThrust,
+        time: this.time,
+      },
+      dt,
+    );
+
+    this.motorThrust = this.faultInjector.applyToMotors(
+      MotorModel.stepAll(
+        this.motorThrust,
+        this.command,
+        { ...this.params, MOTOR_MAX_THRUST: maxThrust },
+        dt,
+      ),
+    );
+    this.updateBattery(dt);
+
+    const { wind, thrustNoise } = this.calculateDisturbances(dt);
+    this.wind = wind;
+    const previousVelocity = this.state.velocity;
+    this.state = DroneModel.step(
+      this.state,
+      {
+        leftThrust: this.motorThrust.left,
+        rightThrust: this.motorThrust.right,
+        wind,
+        thrustNoise,
+      },
+      faultedParams,
+      dt,
+      this.integrator,
+    );
+    this.acceleration = {
+      x: (this.state.velocity.x - previousVelocity.x) / dt,
+      y: (this.state.velocity.y - previousVelocity.y) / dt,
+    };
+    this.time += dt;
+
+    this.updateLandingStatus(dt);
+    this.updateEnvironment();
+    this.updateFaults();
+    // 両方の記録が同じステップで値を求める場合は1回で済ませる
+    let sample: TelemetrySample | null = null;
+    const buildSample = () => (sample ??= this.telemetrySample());
+    this.telemetry.record(this.time, buildSample);
+    this.liveTelemetry.record(this.time, buildSample);
+    return this.state;
+  }
+
+  private updateFaults(): void {
+    const reference = this.getReference().position;
+    const error = Math.hypot(
+      this.state.position.x - reference.x,
+      this.state.position.y - reference.y,
+    );
+    const lost = this.halted || this.landingMonitor.getStatus() === 'crashed';
+    this.faultInjector
+      .update(this.state, this.motorThrust, error, lost, this.time)
+      .forEach(event => this.emit(event));
+  }
+
+  private telemetrySample(): TelemetrySample {
+    const { position, velocity, rotation, angularVelocity, payload } =
+      this.state;
+    const reference = this.getReference();
+    const estimate = this.getEstimate();
+    const diagnostics = Object.fromEntries(
+      Object.entries(this.controller.getDiagnostics()).map(([key, value]) => [
+        `controller.${key}`,
+        value,
+      ]),
+    );
+    return {
+      x: position.x,
+      y: position.y,
+      vx: velocity.x,
+      vy: velocity.y,
+      rotation,
+      angularVelocity,
+      payloadAngle: payload.angle,
+      payloadAngularVelocity: payload.angularVelocity,
+      referenceX: reference.position.x,
+      referenceY: reference.position.y,
+      referenceVx: reference.velocity.x,
+      referenceVy: reference.velocity.y,
+      estimateX: estimate.position.x,
+      estimateY: estimate.position.y,
+      estimateVx: estimate.velocity.x,
+      estimateVy: estimate.velocity.y,
+      estimateRotation: estimate.rotation,
+      commandLeft: this.command.left,
+      commandRight: this.command.right,
+      motorLeft: this.motorThrust.left,
+      motorRight: this.motorThrust.right,
+      windX: this.wind.x,
+      windY: this.wind.y,
+      batteryVoltage: this.battery.voltage,
+      batteryCurrent: this.battery.current,
+      ...diagnostics,
+    };
+  }
+
+  private updateBattery(dt: number): void {
+    const wasDepleted = this.battery.charge <= 0;
+    this.battery = BatteryModel.step(
+      this.battery,
+      this.motorThrust,
+      this.params,
+      dt,
+    );
+
+    const stateOfCharge = BatteryModel.stateOfCharge(this.battery, this.params);
+    if (!this.lowBatteryNotified && stateOfCharge < LOW_BATTERY_THRESHOLD) {
+      this.lowBatteryNotified = true;
+      this.emit({ type: 'lowBattery', time: this.time, stateOfCharge });
+    }
+    if (!wasDepleted && this.battery.charge <= 0) {
+      this.emit({ type: 'batteryDepleted', time: this.time });
+    }
+  }
+
+  private updateLandingStatus(dt: number): void {
+    const { position, velocity, rotation, angularVelocity } = this.state;
+    const contact = ContactModel.forces(
+      position.x,
+      position.y,
+      rotation,
+      velocity.x,
+      velocity.y,
+      angularVelocity,
+      this.params,
+      ARENA_BOUNDS.groundY,
+    );
+    const clearance = ContactModel.clearance(
+      position.x,
+      position.y,
+      rotation,
+      ARENA_BOUNDS.groundY,
+    );
+    const event = this.landingMonitor.update(
+      this.state,
+      contact,
+      clearance,
+      this.params,
+      this.time,
+      dt,
+    );
+    if (event?.type === 'touchdown') {
+      const landing = EnvironmentModel.landingPadAt(
+        this.environment,
+        position.x,
+      );
+      this.emit(
+        landing
+          ? { ...event, padId: landing.pad.id, padOffset: landing.offset }
+          : event,
+      );
+    } else if (event) {
+      this.emit(event);
+    }
+  }
+
+  private updateEnvironment(): void {
+    const collision = EnvironmentModel.detectCollision(
+      this.state,
+      this.environment,
+    );
+    if (collision) {
+      this.halted = true;
+      this.landingMonitor.reset('crashed');
+      this.emit({ type: 'collision', time: this.time, ...collision });
+    }
+
+    // 飛行禁止区域は進入した時点でのみ通知する
+    const zones = EnvironmentModel.noFlyZonesAt(
+      this.environment,
+      this.state.position,
+    );
+    zones
+      .filter(zoneId => !this.activeNoFlyZones.includes(zoneId))
+      .forEach(zoneId =>
+        this.emit({ type: 'noFlyEntry', time: this.time, zoneId }),
+      );
+    this.activeNoFlyZones = zones;
+  }
+
+  private emit(event: DroneEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private calculateDisturbances(dt: number) {
+    const { wind: windConfig, thrust } = this.disturbanceConfig;
+    let thrustNoise = { left: 1, right: 1 };
+
+    const wind = this.windField.sample(
+      windConfig,
+      this.state.position.x,
+      this.state.position.y,
+      this.state.velocity,
+      ARENA_BOUNDS.groundY,
+      this.time,
+      dt,
+      this.random,
+    );
+
+    if (thrust.enabled) {
+      const noiseLeft = 1 + uniformSigned(this.random) * thrust.magnitude;
+      const noiseRight = 1 + uniformSigned(this.random) * thrust.magnitude;
+      thrustNoise = { left: noiseLeft, right: noiseRight };
+    }
+
+    return { wind, thrustNoise };
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  ComplexMath,
+  fourierCoefficient,
+  pidResponse,
+  sampleDelay,
+  stateResponse,
+} from '../Simulation/FrequencyResponse';
+import type {
+  Complex,
+  FrequencyPoint,
+  LoopAnalyzer,
+  SweepOptions,
+} from '../Simulation/FrequencyResponse';
+import { PIDController } from '../Simulation/PIDController';
+import { CASCADE_STAGES, CascadePIDController } from './DroneControllers';
+import type { CascadeStageId } from './DroneControllers';
+import {
+  STATE_INDEX,
+  activeStates,
+  linearizeHoverContinuous,
+} from './DroneLinearization';
+import { createEngine, isolateLoop } from './DroneTuning';
+import type { PhysicsParams, PIDConfig } from './types';
+
+// カスケードの1段と、その段が測定する状態（上向きを正とするため垂直位置は符号を反転）
+interface ChainStage {
+  id: CascadeStageId;
+  state: number;
+  sign: number;
+}
+
+// 同じ推力の配分を共有する段（外側から順）
+interface Chain {
+  stages: ChainStage[];
+  // 段の出力 1 あたりの左右の推力指令
+  thrust: [number, number];
+}
+
+const CHAINS: Chain[] = [
+  {
+    stages: [
+      { id: 'horizontalPosition', state: STATE_INDEX.x, sign: 1 },
+      { id: 'horizontalVelocity', state: STATE_INDEX.vx, sign: 1 },
+      { id: 'attitude', state: STATE_INDEX.rotation, sign: 1 },
+      { id: 'rate', state: STATE_INDEX.angularVelocity, sign: 1 },
+    ],
+    thrust: [1, -1],
+  },
+  {
+    stages: [
+      { id: 'verticalPosition', state: STATE_INDEX.y, sign: -1 },
+      { id: 'verticalVelocity', state: STATE_INDEX.vy, sign: 1 },
+    ],
+    thrust: [1, 1],
+  },
+];
+
+const findChain = (id: CascadeStageId): Chain => {
+  const chain = CHAINS.find(item => item.stages.some(stage => stage.id === id));
+  if (!chain) {
+    throw new Error(`未対応のループです: ${id}`);
+  }
+  return chain;
+};
+
+/**
+ * ホバリングで線形化したモデルから、指定した段の出力で切り開いた一巡伝達関数を求める。
+ * 内側の有効な段は閉じ、ロータの一次遅れと各ループの実行周期による遅れを含める。
+ * 出力の制限・吊り荷の揺れ止めは含まない。
+ */
+const analyzeLoop = (
+  config: PIDConfig,
+  params: PhysicsParams,
+  id: CascadeStageId,
+  frequencies: number[],
+): FrequencyPoint[] => {
+  const { stages, thrust } = findChain(id);
+  const enabled = stages.filter(
+    stage => config.loops[CASCADE_STAGES[stage.id].loop].enabled,
+  );
+  const index = enabled.findIndex(stage => stage.id === id);
+  if (index < 0) {
+    throw new Error('無効なループは解析できません');
+  }
+
+  const model = linearizeHoverContinuous(params);
+  const states = activeStates(params);
+  const input = model.B.map(row => row[0] * thrust[0] + row[1] * thrust[1]);
+  const tau = params.MOTOR_TIME_CONSTANT;
+
+  return frequencies.map(frequency => {
+    const response = stateResponse(model.A, input, frequency);
+    const motor = ComplexMath.divide(
+      ComplexMath.of(1),
+      ComplexMath.of(1, frequency * tau),
+    );
+    // 推力指令から段の測定値まで
+    const plant = (stage: ChainStage): Complex =>
+      ComplexMath.multiply(
+        ComplexMath.of(stage.sign),
+        ComplexMath.multiply(response[states.indexOf(stage.state)], motor),
+      );
+    const controller = (stage: ChainStage): Complex => {
+      const { loop, gains } = CASCADE_STAGES[stage.id];
+      return ComplexMath.multiply(
+        pidResponse(gains(config), config.options, frequency),
+        sampleDelay(1 / config.loops[loop].rate, frequency),
+      );
+    };
+
+    // 内側のループを閉じた、段の出力から推力指令までの伝達関数
+    let inner = ComplexMath.of(1);
+    enabled
+      .slice(index + 1)
+      .reverse()
+      .forEach(stage => {
+        const forward = ComplexMath.multiply(controller(stage), inner);
+        inner = ComplexMath.divide(
+          forward,
+          ComplexMath.add(
+            ComplexMath.of(1),
+            ComplexMath.multiply(forward, plant(stage)),
+          ),
+        );
+      });
+
+    const stage = enabled[index];
+    return {
+      frequency,
+      response: ComplexMath.multiply(
+        ComplexMath.multiply(controller(stage), plant(stage)),
+        inner,
+      ),
+    };
+  });
+};
+
+/**
+ * 指定した段の出力に正弦波 d を加え、PID の出力 u と加えた後の値 u + d の比から
+ * 一巡伝達関数 L = -U / (U + D) を周波数ごとに求める。
+ * 外側のループは無効にし（リレー試験と同じ）、非線形モデルをそのまま使う。
+ */
+const sweepLoop = (
+  config: PIDConfig,
+  params: PhysicsParams,
+  id: CascadeStageId,
+  frequencies: number[],
+  { amplitudeRatio, settlingCycles, measurementCycles }: SweepOptions,
+): FrequencyPoint[] =>
+  frequencies.map(frequency => {
+    const controller = new CascadePIDController(isolateLoop(config, id, null));
+    const engine = createEngine(params, controller);
+    const { kp, ki, kd } = CASCADE_STAGES[id].gains(config);
+    const pid = new PIDController(
+      kp,
+      ki,
+      kd,
+      -Infinity,
+      Infinity,
+      config.options,
+    );
+
+    const period = (2 * Math.PI) / frequency;
+    const start = settlingCycles * period;
+    const end = start + measurementCycles * period;
+    const times: number[] = [];
+    const outputs: number[] = [];
+    const inputs: number[] = [];
+    controller.setOverride(id, (setpoint, measured, limit, elapsed) => {
+      pid.setOutputLimits(-limit, limit);
+      const output = pid.update(setpoint, measured, elapsed);
+      const time = engine.getTime();
+      const input =
+        output + amplitudeRatio * limit * Math.sin(frequency * time);
+      if (time >= start) {
+        times.push(time);
+        outputs.push(output);
+        inputs.push(input);
+      }
+      return input;
+    });
+
+    while (engine.getTime() < end) {
+      engine.step();
+      if (engine.getLandingStatus() !== 'flying') {
+        throw new Error(
+          `${frequency.toFixed(
+            2,
+          )} rad/s の試験中に機体が接地しました。振幅を小さくしてください`,
+        );
+      }
+    }
+
+    return {
+      frequency,
+      response: ComplexMath.divide(
+        ComplexMath.multiply(
+          ComplexMath.of(-1),
+          fourierCoefficient(times, outputs, frequency),
+        ),
+        fourierCoefficient(times, inputs, frequency),
+      ),
+    };
+  });
+
+// カスケード PID の各ループの周波数応答
+export const createDroneLoopAnalyzer = (
+  config: PIDConfig,
+  params: PhysicsParams,
+): LoopAnalyzer => {
+  const stage = (loopId: string) => loopId as CascadeStageId;
+  return {
+    loops: CHAINS.flatMap(chain =>
+      chain.stages.map(({ id }) => ({ id, name: CASCADE_STAGES[id].name })),
+    ),
+    analyze: (loopId, frequencies) =>
+      analyzeLoop(config, params, stage(loopId), frequencies),
+    sweep: (loopId, frequencies, options) => {
+      const id = stage(loopId);
+      if (!config.loops[CASCADE_STAGES[id].loop].enabled) {
+        throw new Error('無効なループは解析できません');
+      }
+      return sweepLoop(config, params, id, frequencies, options);
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import { designLQR } from '../Simulation/LQR';
+import type { LQRWeights } from '../Simulation/LQR';
+import { multiplyVector, zeros } from '../Simulation/Matrix';
+import type { Matrix } from '../Simulation/Matrix';
+import type { ControllerDiagnostics } from '../Simulation/Controller';
+import {
+  activeStates,
+  approachTarget,
+  hoverDeviation,
+  hoverThrust,
+  linearizeHover,
+} from './DroneLinearization';
+import type { DroneController, DroneObservation } from './DroneControllers';
+import type { PhysicsParams, ThrustCommand } from './types';
+
+// 状態の重みは DroneModel の状態ベクトルの並び、入力の重みは [左, 右]
+export const DEFAULT_DRONE_LQR_WEIGHTS: LQRWeights = {
+  q: [1, 1, 100, 10, 0, 1, 1, 1, 1, 0],
+  r: [10, 10],
+};
+
+interface Design {
+  params: PhysicsParams;
+  dt: number;
+  indices: number[];
+  K: Matrix;
+  iterations: number;
+}
+
+/**
+ * ホバリング平衡点まわりの線形モデルから設計した LQR。
+ * パラメータや刻み幅が変わったら線形化とリカッチ方程式の求解をやり直す。
+ */
+export class DroneLQRController implements DroneController<LQRWeights> {
+  private weights: LQRWeights;
+  private design: Design | null = null;
+  private correction = [0, 0];
+
+  constructor(weights: LQRWeights) {
+    this.weights = weights;
+  }
+
+  public configure(weights: LQRWeights): void {
+    this.weights = weights;
+    this.design = null;
+  }
+
+  public reset(): void {
+    this.correction = [0, 0];
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    return {
+      リカッチ反復: this.design?.iterations ?? 0,
+      左推力の補正: this.correction[0],
+      右推力の補正: this.correction[1],
+    };
+  }
+
+  public update(observation: DroneObservation, dt: number): ThrustCommand {
+    const { params, reference } = observation;
+    const design = this.getDesign(params, dt);
+
+    const { state } = observation;
+    const error = hoverDeviation(
+      params,
+      state,
+      approachTarget(state.position, reference.position),
+      design.indices,
+      reference.velocity,
+    );
+
+    // u = u0 - K (x - x_ref)
+    this.correction = multiplyVector(design.K, error).map(value => -value);
+    const [left, right] = hoverThrust(params);
+    return {
+      left: left + this.correction[0],
+      right: right + this.correction[1],
+    };
+  }
+
+  private getDesign(params: PhysicsParams, dt: number): Design {
+    if (this.design && this.design.params === params && this.design.dt === dt) {
+      return this.design;
+    }
+
+    const indices = activeStates(params);
+    const weights = {
+      q: indices.map(i => this.weights.q[i]),
+      r: this.weights.r,
+    };
+    try {
+      const { K, iterations } = designLQR(linearizeHover(params, dt), weights);
+      this.design = { params, dt, indices, K, iterations };
+    } catch {
+      // 設計できない重み（R が 0 など）ではフィードバックせずホバリング推力のみを出す
+      this.design = {
+        params,
+        dt,
+        indices,
+        K: zeros(weights.r.length, indices.length),
+        iterations: 0,
+      };
+    }
+    return this.design;
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  discretize,
+  linearize,
+  selectStates,
+} from '../Simulation/Linearization';
+import type { LinearModel } from '../Simulation/Linearization';
+import { DroneModel, ARENA_BOUNDS } from './DroneModel';
+import { PayloadModel } from './PayloadModel';
+import type { PhysicsParams, PhysicsState, Position, Velocity } from './types';
+
+// 状態ベクトルの添字（DroneModel.toVector の並び）
+export const STATE_INDEX = {
+  x: 0,
+  y: 1,
+  rotation: 2,
+  swing: 3,
+  stretch: 4,
+  vx: 5,
+  vy: 6,
+  angularVelocity: 7,
+  swingRate: 8,
+  stretchRate: 9,
+} as const;
+
+export const STATE_LABELS = [
+  'x',
+  'y',
+  '姿勢角',
+  '振れ角',
+  'ケーブル伸び',
+  'vx',
+  'vy',
+  '角速度',
+  '振れ角速度',
+  '伸び速度',
+];
+
+// 位置誤差の上限[px]。遠い目標に対して線形制御が過大な傾きを要求しないようにする
+const MAX_POSITION_ERROR = 20;
+
+// 線形化の基準点（地面から十分離れていれば位置によらず同じ線形モデルになる）
+const LINEARIZATION_POINT: Position = {
+  x: (ARENA_BOUNDS.minX + ARENA_BOUNDS.maxX) / 2,
+  y: ARENA_BOUNDS.groundY / 2,
+};
+
+// 推力効率の下限。故障などで 0 以下になっても推力の計算が発散しないようにする
+const MIN_THRUST_EFFICIENCY = 0.01;
+
+/**
+ * ホバリングに必要な左右の推力 [left, right]。
+ * 合計推力で機体と吊り荷の重さを支え、重心オフセットがあってもトルクが釣り合う配分とする。
+ * 効率が極端に低いロータではホバリングできないため、ロータの上限推力で打ち切る。
+ */
+export function hoverThrust(params: PhysicsParams): number[] {
+  const weight = (params.MASS + params.PAYLOAD_MASS) * params.GRAVITY;
+  const d = params.THRUST_DISTANCE;
+  const c = params.CENTER_OF_MASS_OFFSET;
+  const required = (share: number, efficiency: number) =>
+    Math.min(
+      share / Math.max(efficiency, MIN_THRUST_EFFICIENCY),
+      params.MOTOR_MAX_THRUST,
+    );
+  return [
+    required((weight * (d + c)) / (2 * d), params.LEFT_THRUST_EFFICIENCY),
+    required((weight * (d - c)) / (2 * d), params.RIGHT_THRUST_EFFICIENCY),
+  ];
+}
+
+// 指定位置で静止してホバリングしている状態ベクトル
+export function hoverState(
+  params: PhysicsParams,
+  position: Position,
+): number[] {
+  const state = new Array<number>(10).fill(0);
+  state[STATE_INDEX.x] = position.x;
+  state[STATE_INDEX.y] = position.y;
+  state[STATE_INDEX.stretch] = PayloadModel.equilibriumStretch(params);
+  return state;
+}
+
+// 設計に使う状態の添字（吊り荷がなければ振れ角・伸びは動かないため除く）
+export function activeStates(params: PhysicsParams): number[] {
+  const indices = Object.values(STATE_INDEX) as number[];
+  return PayloadModel.hasPayload(params)
+    ? indices
+    : indices.filter(
+        i =>
+          i !== STATE_INDEX.swing &&
+          i !== STATE_INDEX.stretch &&
+          i !== STATE_INDEX.swingRate &&
+          i !== STATE_INDEX.stretchRate,
+      );
+}
+
+/**
+ * 目標へ向かう途中の基準位置。目標が遠いときは機体から MAX_POSITION_ERROR だけ
+ * 目標寄りの点を基準にして、線形モデルの範囲内で少しずつ近づける。
+ */
+export function approachTarget(position: Position, target: Position): Position {
+  const clamp = (value: number) =>
+    Math.min(Math.max(value, -MAX_POSITION_ERROR), MAX_POSITION_ERROR);
+  return {
+    x: position.x + clamp(target.x - position.x),
+    y: position.y + clamp(target.y - position.y),
+  };
+}
+
+/**
+ * 基準位置でのホバリングからの偏差（indices の順、角度は -π〜π に正規化）。
+ * 軌道追従中は基準の速度 velocity からの偏差とする。
+ */
+export function hoverDeviation(
+  params: PhysicsParams,
+  state: PhysicsState,
+  reference: Position,
+  indices: number[],
+  velocity: Velocity = { x: 0, y: 0 },
+): number[] {
+  const vector = DroneModel.toVector(state);
+  const hover = hoverState(params, reference);
+  hover[STATE_INDEX.vx] = velocity.x;
+  hover[STATE_INDEX.vy] = velocity.y;
+  return indices.map(i => {
+    const difference = vector[i] - hover[i];
+    return i === STATE_INDEX.rotation || i === STATE_INDEX.swing
+      ? Math.atan2(Math.sin(difference), Math.cos(difference))
+      : difference;
+  });
+}
+
+/**
+ * ホバリング平衡点まわりで線形化した連続系の状態方程式。
+ * 入力は左右ロータの推力で、状態は activeStates の順に並ぶ。
+ * ロータの応答遅れと外乱は含まない。
+ */
+export function linearizeHoverContinuous(params: PhysicsParams): LinearModel {
+  const continuous = linearize(
+    (state, [leftThrust, rightThrust]) =>
+      DroneModel.derivatives(
+        state,
+        {
+          leftThrust,
+          rightThrust,
+          wind: { x: 0, y: 0 },
+          thrustNoise: { left: 1, right: 1 },
+        },
+        params,
+      ),
+    hoverState(params, LINEARIZATION_POINT),
+    hoverThrust(params),
+  );
+  return selectStates(continuous, activeStates(params));
+}
+
+// linearizeHoverContinuous を刻み dt で離散化した状態方程式
+export function linearizeHover(params: PhysicsParams, dt: number): LinearModel {
+  return discretize(linearizeHoverContinuous(params), dt);
+}
@@ -0,0 +1,224 @@
+import { LinearMPC } from '../Simulation/MPC';
+import type { MPCResult } from '../Simulation/MPC';
+import { solveDiscreteRiccati } from '../Simulation/LQR';
+import type { LQRWeights } from '../Simulation/LQR';
+import { diag } from '../Simulation/Matrix';
+import type { ControllerDiagnostics } from '../Simulation/Controller';
+import { ARENA_BOUNDS } from './DroneModel';
+import {
+  STATE_INDEX,
+  activeStates,
+  approachTarget,
+  hoverDeviation,
+  hoverThrust,
+  linearizeHover,
+} from './DroneLinearization';
+import type {
+  DroneController,
+  DroneObservation,
+  FrameBudgetedController,
+  PredictiveController,
+} from './DroneControllers';
+import type { PhysicsParams, Position, ThrustCommand } from './types';
+import { DEFAULT_DRONE_LQR_WEIGHTS } from './DroneLQRController';
+
+export interface DroneMPCConfig {
+  horizon: number; // 予測ステップ数
+  sampleTime: number; // 最適化を解き直す周期[s]（その間は入力を保持する）
+  maxTilt: number; // 姿勢角の上限[rad]
+  weights: LQRWeights;
+}
+
+export const DEFAULT_DRONE_MPC_CONFIG: DroneMPCConfig = {
+  horizon: 20,
+  sampleTime: 0.05,
+  maxTilt: Math.PI / 6,
+  weights: DEFAULT_DRONE_LQR_WEIGHTS,
+};
+
+// 1描画フレームで解く回数の上限。描画が遅れて1フレームで進める時間が長くなっても
+// 求解の時間でさらに遅れが増えないよう、上限に達したらそのフレームの進行を打ち切らせる
+// （既定の周期では 60fps で1フレームあたり 3〜4 回解く）
+const MAX_SOLVES_PER_FRAME = 6;
+
+// 地面との間に残す余裕[px]。接触は線形モデルに含まれないため、着陸脚の長さと傾きを見込む
+const GROUND_MARGIN = 25;
+
+interface Design {
+  params: PhysicsParams;
+  indices: number[];
+  mpc: LinearMPC;
+}
+
+/**
+ * ホバリング平衡点まわりの線形モデルを使う MPC。
+ * ロータ推力の上下限・姿勢角の上限・アリーナの範囲を制約として扱い、
+ * 制御周期ごとに二次計画問題を解いて先頭の入力だけを使う。
+ */
+export class DroneMPCController
+  implements
+    DroneController<DroneMPCConfig>,
+    PredictiveController,
+    FrameBudgetedController
+{
+  private config: DroneMPCConfig;
+  private design: Design | null = null;
+  private command: ThrustCommand | null = null;
+  private lastSolveTime = -Infinity;
+  private result: MPCResult | null = null;
+  private predictedPath: Position[] = [];
+  // 現在のフレームで解ける残り回数
+  private frameBudget = MAX_SOLVES_PER_FRAME;
+  private solveTime = 0;
+
+  constructor(config: DroneMPCConfig) {
+    this.config = config;
+  }
+
+  public configure(config: DroneMPCConfig): void {
+    // 姿勢角の上限は制約の上下限だけに効くため、二次計画の係数行列と分解は作り直さない
+    const { horizon, sampleTime, weights } = this.config;
+    if (
+      config.horizon !== horizon ||
+      config.sampleTime !== sampleTime ||
+      config.weights !== weights
+    ) {
+      this.design = null;
+      this.lastSolveTime = -Infinity;
+    }
+    this.config = config;
+  }
+
+  public reset(): void {
+    this.design?.mpc.reset();
+    this.command = null;
+    this.lastSolveTime = -Infinity;
+    this.result = null;
+    this.predictedPath = [];
+    this.solveTime = 0;
+  }
+
+  public beginFrame(): void {
+    this.frameBudget = MAX_SOLVES_PER_FRAME;
+  }
+
+  public isFrameBudgetSpent(): boolean {
+    return this.frameBudget <= 0;
+  }
+
+  public getDiagnostics(): ControllerDiagnostics {
+    if (!this.result) {
+      return {};
+    }
+    const [left, right] = this.result.inputs[0];
+    return {
+      QP反復: this.result.iterations,
+      制約残差: this.result.primalResidual,
+      収束: this.result.converged ? 1 : 0,
+      'QP時間[ms]': this.solveTime,
+      左推力の補正: left,
+      右推力の補正: right,
+    };
+  }
+
+  public getPredictedPath(): Position[] {
+    return this.predictedPath;
+  }
+
+  public update(observation: DroneObservation): ThrustCommand {
+    const { time } = observation;
+    if (
+      !this.command ||
+      time - this.lastSolveTime >= this.config.sampleTime - 1e-9
+    ) {
+      this.command = this.solve(observation);
+      this.lastSolveTime = time;
+      this.frameBudget--;
+    }
+    return this.command;
+  }
+
+  private solve(observation: DroneObservation): ThrustCommand {
+    const { params, state } = observation;
+    const { indices, mpc } = this.getDesign(params);
+
+    // 予測・制約はいずれも基準位置からの偏差で表す
+    const reference = approachTarget(
+      state.position,
+      observation.reference.position,
+    );
+    const x0 = hoverDeviation(
+      params,
+      state,
+      reference,
+      indices,
+      observation.reference.velocity,
+    );
+
+    const hover = hoverThrust(params);
+    const { maxTilt } = this.config;
+    const startedAt = performance.now();
+    this.result = mpc.solve(x0, {
+      inputLower: hover.map(u => params.MOTOR_MIN_THRUST - u),
+      // 上限は電池の電圧降下で下がった推力に合わせる
+      inputUpper: hover.map(u => observation.maxThrust - u),
+      // x・y・姿勢角の順（getDesign の constrainedStates と対応）
+      stateLower: [
+        ARENA_BOUNDS.minX - reference.x,
+        ARENA_BOUNDS.minY - reference.y,
+        -maxTilt,
+      ],
+      stateUpper: [
+        ARENA_BOUNDS.maxX - reference.x,
+        ARENA_BOUNDS.groundY - GROUND_MARGIN - reference.y,
+        maxTilt,
+      ],
+    });
+    this.solveTime = performance.now() - startedAt;
+
+    const xIndex = indices.indexOf(STATE_INDEX.x);
+    const yIndex = indices.indexOf(STATE_INDEX.y);
+    this.predictedPath = [
+      state.position,
+      ...this.result.states.map(predicted => ({
+        x: predicted[xIndex] + reference.x,
+        y: predicted[yIndex] + reference.y,
+      })),
+    ];
+
+    const [left, right] = this.result.inputs[0];
+    return { left: hover[0] + left, right: hover[1] + right };
+  }
+
+  private getDesign(params: PhysicsParams): Design {
+    if (this.design && this.design.params === params) {
+      return this.design;
+    }
+
+    const { horizon, sampleTime, weights } = this.config;
+    const indices = activeStates(params);
+    const model = linearizeHover(params, sampleTime);
+    const q = indices.map(i => weights.q[i]);
+    // 終端コストは無限区間の LQR コスト。解けない重みでは状態の重みで代用する
+    let terminal = diag(q);
+    try {
+      terminal = solveDiscreteRiccati(model, diag(q), diag(weights.r)).P;
+    } catch {
+      // 上の既定値を使う
+    }
+    const mpc = new LinearMPC({
+      model,
+      horizon,
+      q,
+      r: weights.r,
+      terminal,
+      constrainedStates: [
+        indices.indexOf(STATE_INDEX.x),
+        indices.indexOf(STATE_INDEX.y),
+        indices.indexOf(STATE_INDEX.rotation),
+      ],
+    });
+    this.design = { params, indices, mpc };
+    return this.design;
+  }
+}
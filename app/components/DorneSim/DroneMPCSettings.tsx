@@ -0,0 +1,74 @@
+import LQRWeightsPanel from '../Simulation/LQRWeightsPanel';
+import type { ControllerSettingsProps } from '../Simulation/Controller';
+import type { DroneMPCConfig } from './DroneMPCController';
+import { STATE_LABELS } from './DroneLinearization';
+
+// MPC の予測区間・制約と重みの設定
+const DroneMPCSettings = ({
+  config,
+  onChange,
+}: ControllerSettingsProps<DroneMPCConfig>) => {
+  const update = (patch: Partial<DroneMPCConfig>) =>
+    onChange({ ...config, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-sm text-gray-600">
+        <div>
+          <label className="block">予測ステップ数: {config.horizon}</label>
+          <input
+            type="range"
+            min="5"
+            max="50"
+            step="1"
+            value={config.horizon}
+            onChange={e => update({ horizon: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block">
+            制御周期: {config.sampleTime.toFixed(2)}s
+          </label>
+          <input
+            type="range"
+            min="0.02"
+            max="0.2"
+            step="0.01"
+            value={config.sampleTime}
+            onChange={e => update({ sampleTime: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block">
+            姿勢角の上限: {((config.maxTilt * 180) / Math.PI).toFixed(0)}°
+          </label>
+          <input
+            type="range"
+            min="5"
+            max="60"
+            step="1"
+            value={(config.maxTilt * 180) / Math.PI}
+            onChange={e =>
+              update({ maxTilt: (Number(e.target.value) * Math.PI) / 180 })
+            }
+            className="w-full"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        予測区間: {(config.horizon * config.sampleTime).toFixed(2)}s
+      </p>
+
+      <LQRWeightsPanel
+        config={config.weights}
+        onChange={weights => update({ weights })}
+        stateLabels={STATE_LABELS}
+        inputLabels={['左推力', '右推力']}
+      />
+    </div>
+  );
+};
+
+export default DroneMPCSettings;
@@ -0,0 +1,222 @@
+import { integrate } from '../Simulation/Integrators';
+import type { IntegratorType } from '../Simulation/Integrators';
+import { ContactModel } from './ContactModel';
+import { PayloadModel } from './PayloadModel';
+import type { PhysicsParams, PhysicsState, Velocity } from './types';
+
+// 1ステップ分の入力（制御後の推力と外乱）
+export interface DroneInput {
+  leftThrust: number;
+  rightThrust: number;
+  wind: Velocity; // 風速（vy と同じく上向き正）
+  thrustNoise: { left: number; right: number };
+}
+
+export interface ArenaBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  groundY: number; // 地面の高さ（画面座標）
+}
+
+// 描画領域に合わせた移動可能範囲[px]
+export const ARENA_BOUNDS: ArenaBounds = {
+  minX: 10,
+  maxX: 590,
+  minY: 10,
+  groundY: 300,
+};
+
+/**
+ * 2Dドローンの剛体モデル。React や時刻に依存しない純粋関数のみで構成し、
+ * UI・スクリプト・テストから同じダイナミクスを利用できるようにする。
+ *
+ * 状態ベクトルは
+ *   [x, y, rotation, swing, stretch, vx, vy, angularVelocity, swingRate, stretchRate]。
+ * y は画面座標（下向き正）、vy は上向き正である点に注意。
+ * swing・stretch は吊り荷の振れ角とケーブルの伸びで、吊り荷がないときは0のまま。
+ */
+export const DroneModel = {
+  toVector(state: PhysicsState): number[] {
+    return [
+      state.position.x,
+      state.position.y,
+      state.rotation,
+      state.payload.angle,
+      state.payload.stretch,
+      state.velocity.x,
+      state.velocity.y,
+      state.angularVelocity,
+      state.payload.angularVelocity,
+      state.payload.stretchRate,
+    ];
+  },
+
+  fromVector(vector: number[]): PhysicsState {
+    const [
+      x,
+      y,
+      rotation,
+      swing,
+      stretch,
+      vx,
+      vy,
+      angularVelocity,
+      swingRate,
+      stretchRate,
+    ] = vector;
+    return {
+      position: { x, y },
+      velocity: { x: vx, y: vy },
+      rotation,
+      angularVelocity,
+      payload: {
+        angle: swing,
+        angularVelocity: swingRate,
+        stretch,
+        stretchRate,
+      },
+    };
+  },
+
+  derivatives(
+    vector: number[],
+    input: DroneInput,
+    params: PhysicsParams,
+    bounds: ArenaBounds = ARENA_BOUNDS,
+  ): number[] {
+    const state = DroneModel.fromVector(vector);
+    const { position, velocity, rotation, angularVelocity, payload } = state;
+    const { x, y } = position;
+    const { x: vx, y: vy } = velocity;
+
+    const effectiveLeftThrust =
+      input.leftThrust * params.LEFT_THRUST_EFFICIENCY * input.thrustNoise.left;
+    const effectiveRightThrust =
+      input.rightThrust *
+      params.RIGHT_THRUST_EFFICIENCY *
+      input.thrustNoise.right;
+
+    const totalThrust = effectiveLeftThrust + effectiveRightThrust;
+
+    // トルクの計算（重心オフセットを考慮）
+    // rotation は画面上で時計回りが正のため、左推力が大きいと正のトルクになる
+    const torque =
+      effectiveLeftThrust *
+        (params.THRUST_DISTANCE - params.CENTER_OF_MASS_OFFSET) -
+      effectiveRightThrust *
+        (params.THRUST_DISTANCE + params.CENTER_OF_MASS_OFFSET);
+
+    // 地面からの反力と摩擦
+    const contact = ContactModel.forces(
+      x,
+      y,
+      rotation,
+      vx,
+      vy,
+      angularVelocity,
+      params,
+      bounds.groundY,
+    );
+
+    const angularAcceleration =
+      (torque +
+        contact.torque -
+        params.ANGULAR_DRAG_COEFFICIENT * angularVelocity) /
+      params.MOMENT_OF_INERTIA;
+
+    const thrustForceY = totalThrust * Math.cos(rotation);
+    const thrustForceX = totalThrust * Math.sin(rotation);
+
+    // 重力と抗力の計算（抗力は風に対する相対速度で決まる）
+    const gravityForce = params.MASS * params.GRAVITY;
+    const airVx = vx - input.wind.x;
+    const airVy = vy - input.wind.y;
+    const dragForceY = params.DRAG_COEFFICIENT * airVy * Math.abs(airVy);
+    const dragForceX = params.DRAG_COEFFICIENT * airVx * Math.abs(airVx);
+
+    const bodyForceX = thrustForceX + contact.forceX - dragForceX;
+    const bodyForceY = thrustForceY + contact.forceY - dragForceY;
+
+    if (!PayloadModel.hasPayload(params)) {
+      return [
+        vx,
+        -vy, // 画面座標はy軸下向き
+        angularVelocity,
+        0,
+        0,
+        bodyForceX / params.MASS,
+        (bodyForceY - gravityForce) / params.MASS,
+        angularAcceleration,
+        0,
+        0,
+      ];
+    }
+
+    // 吊り荷と連成した並進運動
+    const payloadForce = PayloadModel.groundForce(
+      PayloadModel.position(state, params),
+      PayloadModel.velocity(state, params),
+      params,
+      bounds.groundY,
+    );
+    const accelerations = PayloadModel.accelerations(
+      state,
+      { x: bodyForceX, y: bodyForceY },
+      payloadForce,
+      params,
+    );
+
+    return [
+      vx,
+      -vy,
+      angularVelocity,
+      payload.angularVelocity,
+      payload.stretchRate,
+      accelerations.ax,
+      accelerations.ay,
+      angularAcceleration,
+      accelerations.swing,
+      accelerations.stretch,
+    ];
+  },
+
+  step(
+    state: PhysicsState,
+    input: DroneInput,
+    params: PhysicsParams,
+    dt: number,
+    integrator: IntegratorType = 'semiImplicitEuler',
+    bounds: ArenaBounds = ARENA_BOUNDS,
+  ): PhysicsState {
+    const next = DroneModel.fromVector(
+      integrate(
+        integrator,
+        vector => DroneModel.derivatives(vector, input, params, bounds),
+        DroneModel.toVector(state),
+        dt,
+      ),
+    );
+
+    // 境界条件の処理（壁と天井で停止、地面は接触モデルで扱う）
+    const finalPositionY = Math.max(next.position.y, bounds.minY);
+    const finalPositionX = Math.min(
+      Math.max(next.position.x, bounds.minX),
+      bounds.maxX,
+    );
+    const finalVelocityY =
+      finalPositionY === bounds.minY
+        ? Math.min(next.velocity.y, 0)
+        : next.velocity.y;
+    const finalVelocityX =
+      finalPositionX === bounds.minX || finalPositionX === bounds.maxX
+        ? 0
+        : next.velocity.x;
+
+    return {
+      ...next,
+      position: { x: finalPositionX, y: finalPositionY },
+      velocity: { x: finalVelocityX, y: finalVelocityY },
+    };
+  },
+};
@@ -0,0 +1,312 @@
+import type { ReactNode } from 'react';
+import PIDOptionsPanel from '../Simulation/PIDOptionsPanel';
+import type { ControllerSettingsProps } from '../Simulation/Controller';
+import type {
+  CascadeLoop,
+  CascadeLoopSettings,
+  PIDConfig,
+  PIDGains,
+} from './types';
+
+interface GainSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  digits: number;
+  onChange: (value: number) => void;
+}
+
+const GainSlider = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  digits,
+  onChange,
+}: GainSliderProps) => (
+  <div>
+    <label className="block text-sm text-gray-600">{label}</label>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full"
+    />
+    <div className="text-xs text-gray-500 text-center">
+      {value.toFixed(digits)}
+    </div>
+  </div>
+);
+
+interface GainRange {
+  max: number;
+  step: number;
+  digits: number;
+}
+
+interface GainSlidersProps {
+  gains: PIDGains;
+  ranges: Record<keyof PIDGains, GainRange>;
+  onChange: (patch: Partial<PIDGains>) => void;
+}
+
+// Kp・Ki・Kd の3本のスライダー
+const GainSliders = ({ gains, ranges, onChange }: GainSlidersProps) => (
+  <div className="grid grid-cols-3 gap-4">
+    {(['kp', 'ki', 'kd'] as const).map(key => (
+      <GainSlider
+        key={key}
+        label={`K${key[1]}`}
+        value={gains[key]}
+        min={0}
+        {...ranges[key]}
+        onChange={value => onChange({ [key]: value })}
+      />
+    ))}
+  </div>
+);
+
+interface LoopSectionProps {
+  title: string;
+  settings: CascadeLoopSettings;
+  onChange: (patch: Partial<CascadeLoopSettings>) => void;
+  children: ReactNode;
+}
+
+// カスケードの1ループ分の見出し（有効・無効と実行周波数）とゲイン
+const LoopSection = ({
+  title,
+  settings,
+  onChange,
+  children,
+}: LoopSectionProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={e => onChange({ enabled: e.target.checked })}
+          className="rounded text-blue-600"
+        />
+        <h4 className="font-medium text-gray-700">{title}</h4>
+      </label>
+      <label className="flex items-center space-x-2 text-sm text-gray-600">
+        <input
+          type="number"
+          min="1"
+          max="200"
+          step="1"
+          value={settings.rate}
+          onChange={e =>
+            onChange({
+              rate: Math.min(Math.max(Number(e.target.value), 1), 200),
+            })
+          }
+          className="w-20 px-2 py-1 border rounded"
+        />
+        <span>Hz</span>
+      </label>
+    </div>
+    {settings.enabled && children}
+  </div>
+);
+
+const POSITION_RANGES = {
+  kp: { max: 3, step: 0.05, digits: 2 },
+  ki: { max: 0.5, step: 0.05, digits: 2 },
+  kd: { max: 1, step: 0.05, digits: 2 },
+};
+const HORIZONTAL_VELOCITY_RANGES = {
+  kp: { max: 1, step: 0.01, digits: 2 },
+  ki: { max: 0.5, step: 0.01, digits: 2 },
+  kd: { max: 0.5, step: 0.01, digits: 2 },
+};
+const VERTICAL_VELOCITY_RANGES = {
+  kp: { max: 5, step: 0.1, digits: 1 },
+  ki: { max: 5, step: 0.05, digits: 2 },
+  kd: { max: 1, step: 0.05, digits: 2 },
+};
+const ATTITUDE_RANGES = {
+  kp: { max: 20, step: 0.5, digits: 1 },
+  ki: { max: 5, step: 0.1, digits: 1 },
+  kd: { max: 2, step: 0.1, digits: 1 },
+};
+const RATE_RANGES = {
+  kp: { max: 5, step: 0.05, digits: 2 },
+  ki: { max: 1, step: 0.05, digits: 2 },
+  kd: { max: 0.2, step: 0.01, digits: 2 },
+};
+
+// 位置 → 速度 → 姿勢 → 角速度 の各ループの設定（内側から順に調整する）
+const DronePIDSettings = ({
+  config,
+  onChange,
+}: ControllerSettingsProps<PIDConfig>) => {
+  const updateLoop = (loop: CascadeLoop, patch: Partial<CascadeLoopSettings>) =>
+    onChange({
+      ...config,
+      loops: { ...config.loops, [loop]: { ...config.loops[loop], ...patch } },
+    });
+  const updateAxisGains = (
+    loop: 'position' | 'velocity',
+    axis: 'horizontal' | 'vertical',
+    patch: Partial<PIDGains>,
+  ) =>
+    onChange({
+      ...config,
+      [loop]: {
+        ...config[loop],
+        [axis]: { ...config[loop][axis], ...patch },
+      },
+    });
+  const updateGains = (loop: 'attitude' | 'rate', patch: Partial<PIDGains>) =>
+    onChange({ ...config, [loop]: { ...config[loop], ...patch } });
+  const updateLimits = (patch: Partial<PIDConfig['limits']>) =>
+    onChange({ ...config, limits: { ...config.limits, ...patch } });
+  const updateSwingDamping = (patch: Partial<PIDConfig['swingDamping']>) =>
+    onChange({
+      ...config,
+      swingDamping: { ...config.swingDamping, ...patch },
+    });
+
+  return (
+    <div className="space-y-4">
+      <LoopSection
+        title="位置ループ（→ 目標速度）"
+        settings={config.loops.position}
+        onChange={patch => updateLoop('position', patch)}
+      >
+        <h5 className="text-sm text-gray-600">水平</h5>
+        <GainSliders
+          gains={config.position.horizontal}
+          ranges={POSITION_RANGES}
+          onChange={patch => updateAxisGains('position', 'horizontal', patch)}
+        />
+        <h5 className="text-sm text-gray-600">垂直</h5>
+        <GainSliders
+          gains={config.position.vertical}
+          ranges={POSITION_RANGES}
+          onChange={patch => updateAxisGains('position', 'vertical', patch)}
+        />
+      </LoopSection>
+
+      <LoopSection
+        title="速度ループ（→ 目標姿勢角・推力）"
+        settings={config.loops.velocity}
+        onChange={patch => updateLoop('velocity', patch)}
+      >
+        <h5 className="text-sm text-gray-600">水平</h5>
+        <GainSliders
+          gains={config.velocity.horizontal}
+          ranges={HORIZONTAL_VELOCITY_RANGES}
+          onChange={patch => updateAxisGains('velocity', 'horizontal', patch)}
+        />
+        <h5 className="text-sm text-gray-600">垂直</h5>
+        <GainSliders
+          gains={config.velocity.vertical}
+          ranges={VERTICAL_VELOCITY_RANGES}
+          onChange={patch => updateAxisGains('velocity', 'vertical', patch)}
+        />
+      </LoopSection>
+
+      <LoopSection
+        title="姿勢ループ（→ 目標角速度）"
+        settings={config.loops.attitude}
+        onChange={patch => updateLoop('attitude', patch)}
+      >
+        <GainSliders
+          gains={config.attitude}
+          ranges={ATTITUDE_RANGES}
+          onChange={patch => updateGains('attitude', patch)}
+        />
+      </LoopSection>
+
+      <LoopSection
+        title="角速度ループ（→ 左右の推力差）"
+        settings={config.loops.rate}
+        onChange={patch => updateLoop('rate', patch)}
+      >
+        <GainSliders
+          gains={config.rate}
+          ranges={RATE_RANGES}
+          onChange={patch => updateGains('rate', patch)}
+        />
+      </LoopSection>
+
+      {/* 各ループへ渡す目標値の上限 */}
+      <div className="space-y-2">
+        <h4 className="font-medium text-gray-700">目標値の上限</h4>
+        <div className="grid grid-cols-3 gap-4">
+          <GainSlider
+            label="最大速度 [px/s]"
+            value={config.limits.maxVelocity}
+            min={1}
+            max={50}
+            step={1}
+            digits={0}
+            onChange={maxVelocity => updateLimits({ maxVelocity })}
+          />
+          <GainSlider
+            label="最大傾き [°]"
+            value={(config.limits.maxTilt * 180) / Math.PI}
+            min={5}
+            max={60}
+            step={1}
+            digits={0}
+            onChange={degrees =>
+              updateLimits({ maxTilt: (degrees * Math.PI) / 180 })
+            }
+          />
+          <GainSlider
+            label="最大角速度 [rad/s]"
+            value={config.limits.maxBodyRate}
+            min={0.5}
+            max={10}
+            step={0.5}
+            digits={1}
+            onChange={maxBodyRate => updateLimits({ maxBodyRate })}
+          />
+        </div>
+      </div>
+
+      {/* 吊り荷の揺れ止めゲイン */}
+      <div className="space-y-2">
+        <h4 className="font-medium text-gray-700">吊り荷の揺れ止めゲイン</h4>
+        <div className="grid grid-cols-3 gap-4">
+          <GainSlider
+            label="Kφ"
+            value={config.swingDamping.kp}
+            min={-2}
+            max={2}
+            step={0.1}
+            digits={1}
+            onChange={kp => updateSwingDamping({ kp })}
+          />
+          <GainSlider
+            label="Kφ̇"
+            value={config.swingDamping.kd}
+            min={0}
+            max={10}
+            step={0.5}
+            digits={1}
+            onChange={kd => updateSwingDamping({ kd })}
+          />
+        </div>
+      </div>
+
+      <PIDOptionsPanel
+        options={config.options}
+        onChange={options => onChange({ ...config, options })}
+      />
+    </div>
+  );
+};
+
+export default DronePIDSettings;
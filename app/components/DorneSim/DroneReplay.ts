@@ -0,0 +1,203 @@
+import { MOTION_PROFILES } from '../Simulation/MotionProfile';
+import type { ReplaySchema } from '../Simulation/Replay';
+import type { BatteryStatus, DroneEngine } from './DroneEngine';
+import { hasPredictedPath } from './DroneControllers';
+import type { WindDisturbance, WindZone } from './DisturbanceConfig';
+import type { EnvironmentMap } from './Environment';
+import { parseEnvironment } from './EnvironmentStorage';
+import type { Mission, MissionPhase, MissionStatus, Waypoint } from './Mission';
+import { PHYSICS_PARAM_FIELDS } from './PhysicsParamsSpec';
+import type { EstimatorType } from './SensorConfig';
+import { ESTIMATOR_LABELS } from './StateEstimator';
+import type { EstimatedState } from './StateEstimator';
+import type {
+  LandingStatus,
+  PhysicsParams,
+  PhysicsState,
+  Position,
+  ThrustCommand,
+  Velocity,
+} from './types';
+
+// アリーナと情報表示の描画に使う1コマ分の状態
+export interface DroneReplayFrame {
+  state: PhysicsState;
+  command: ThrustCommand;
+  motorThrust: ThrustCommand;
+  landingStatus: LandingStatus;
+  battery: BatteryStatus;
+  wind: Velocity;
+  activeNoFlyZones: string[];
+  predictedPath: Position[];
+  reference: Position;
+  missionStatus: MissionStatus | null;
+  missionSegmentStart: Position | null;
+  estimate: EstimatedState;
+}
+
+// 記録を取り出した時点の実行条件（描画に使うものだけ）
+export interface DroneReplayContext {
+  params: PhysicsParams;
+  environment: EnvironmentMap;
+  mission: Mission;
+  wind: Pick<WindDisturbance, 'enabled' | 'zones'>;
+  estimator: EstimatorType;
+}
+
+export const captureDroneFrame = (engine: DroneEngine): DroneReplayFrame => {
+  const controller = engine.getController();
+  return {
+    state: engine.getState(),
+    command: engine.getCommand(),
+    motorThrust: engine.getMotorThrust(),
+    landingStatus: engine.getLandingStatus(),
+    battery: engine.getBattery(),
+    wind: engine.getWind(),
+    activeNoFlyZones: engine.getActiveNoFlyZones(),
+    predictedPath: hasPredictedPath(controller)
+      ? controller.getPredictedPath()
+      : [],
+    reference: engine.getReference().position,
+    missionStatus: engine.getMissionStatus(),
+    missionSegmentStart: engine.getMissionSegmentStart(),
+    estimate: engine.getEstimate(),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 指定した項目がすべて数値のオブジェクトか（Infinity・NaN も数値として扱う）
+const hasNumbers = (
+  value: unknown,
+  keys: readonly string[],
+): value is Record<string, unknown> =>
+  isRecord(value) && keys.every(key => typeof value[key] === 'number');
+
+const isArrayOf = <T>(
+  value: unknown,
+  isItem: (item: unknown) => item is T,
+): value is T[] => Array.isArray(value) && value.every(isItem);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isPosition = (value: unknown): value is Position =>
+  hasNumbers(value, ['x', 'y']);
+
+const isThrust = (value: unknown): value is ThrustCommand =>
+  hasNumbers(value, ['left', 'right']);
+
+const LANDING_STATUSES: LandingStatus[] = [
+  'flying',
+  'landed',
+  'hardLanding',
+  'crashed',
+];
+
+const MISSION_PHASES: MissionPhase[] = [
+  'moving',
+  'arriving',
+  'holding',
+  'complete',
+];
+
+const isPhysicsState = (value: unknown): value is PhysicsState =>
+  hasNumbers(value, ['rotation', 'angularVelocity']) &&
+  isPosition(value.position) &&
+  isPosition(value.velocity) &&
+  hasNumbers(value.payload, [
+    'angle',
+    'angularVelocity',
+    'stretch',
+    'stretchRate',
+  ]);
+
+const isBattery = (value: unknown): value is BatteryStatus =>
+  hasNumbers(value, [
+    'stateOfCharge',
+    'voltage',
+    'current',
+    'power',
+    'remainingTime',
+    'maxThrustScale',
+  ]);
+
+const isMissionStatus = (value: unknown): value is MissionStatus =>
+  hasNumbers(value, ['waypointIndex', 'progress', 'holdRemaining', 'lap']) &&
+  MISSION_PHASES.includes(value.phase as MissionPhase);
+
+const isEstimate = (value: unknown): value is EstimatedState =>
+  hasNumbers(value, ['rotation', 'angularVelocity']) &&
+  isPosition(value.position) &&
+  isPosition(value.velocity) &&
+  (value.deviation === null ||
+    (hasNumbers(value.deviation, ['rotation']) &&
+      isPosition(value.deviation.position) &&
+      isPosition(value.deviation.velocity)));
+
+const isDroneReplayFrame = (frame: unknown): frame is DroneReplayFrame =>
+  isRecord(frame) &&
+  isPhysicsState(frame.state) &&
+  isThrust(frame.command) &&
+  isThrust(frame.motorThrust) &&
+  LANDING_STATUSES.includes(frame.landingStatus as LandingStatus) &&
+  isBattery(frame.battery) &&
+  isPosition(frame.wind) &&
+  isArrayOf(frame.activeNoFlyZones, isString) &&
+  isArrayOf(frame.predictedPath, isPosition) &&
+  isPosition(frame.reference) &&
+  (frame.missionStatus === null || isMissionStatus(frame.missionStatus)) &&
+  (frame.missionSegmentStart === null ||
+    isPosition(frame.missionSegmentStart)) &&
+  isEstimate(frame.estimate);
+
+const isWaypoint = (value: unknown): value is Waypoint =>
+  hasNumbers(value, ['holdTime', 'tolerance', 'maxSpeed']) &&
+  isString(value.id) &&
+  isPosition(value.position);
+
+const isMission = (value: unknown): value is Mission =>
+  isRecord(value) &&
+  isArrayOf(value.waypoints, isWaypoint) &&
+  isString(value.profile) &&
+  Object.keys(MOTION_PROFILES).includes(value.profile) &&
+  typeof value.loop === 'boolean';
+
+const isWindZone = (value: unknown): value is WindZone =>
+  hasNumbers(value, ['x', 'y', 'width', 'height', 'windX', 'windY']) &&
+  isString(value.id);
+
+// 環境はファイルからの読み込みと同じ検証を使う
+const isEnvironment = (value: unknown): value is EnvironmentMap => {
+  try {
+    parseEnvironment(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isDroneReplayContext = (
+  context: unknown,
+): context is DroneReplayContext =>
+  isRecord(context) &&
+  hasNumbers(
+    context.params,
+    PHYSICS_PARAM_FIELDS.map(field => field.key),
+  ) &&
+  isEnvironment(context.environment) &&
+  isMission(context.mission) &&
+  isRecord(context.wind) &&
+  typeof context.wind.enabled === 'boolean' &&
+  isArrayOf(context.wind.zones, isWindZone) &&
+  isString(context.estimator) &&
+  Object.keys(ESTIMATOR_LABELS).includes(context.estimator);
+
+export const DRONE_REPLAY_SCHEMA: ReplaySchema<
+  DroneReplayFrame,
+  DroneReplayContext
+> = {
+  simulator: 'drone',
+  isFrame: isDroneReplayFrame,
+  isContext: isDroneReplayContext,
+};
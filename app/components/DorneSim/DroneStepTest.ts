@@ -0,0 +1,126 @@
+import { analyzeStepResponse } from '../Simulation/StepResponse';
+import type {
+  StepResponseSample,
+  StepTestAxis,
+  StepTester,
+} from '../Simulation/StepResponse';
+import type { IntegratorType } from '../Simulation/Integrators';
+import { DRONE_CONTROLLERS } from './DroneControllerRegistry';
+import { CascadePIDController } from './DroneControllers';
+import { hoverThrust } from './DroneLinearization';
+import { TUNING_POSITION, createEngine } from './DroneTuning';
+import type { PhysicsParams, PhysicsState, PIDConfig } from './types';
+
+type DroneStepAxisId = 'x' | 'y' | 'attitude';
+
+const AXES: Record<DroneStepAxisId, StepTestAxis> = {
+  x: {
+    id: 'x',
+    name: '水平位置',
+    unit: 'px',
+    defaultAmplitude: 50,
+    duration: 10,
+  },
+  y: { id: 'y', name: '高度', unit: 'px', defaultAmplitude: 30, duration: 10 },
+  attitude: {
+    id: 'attitude',
+    name: '姿勢',
+    unit: 'rad',
+    defaultAmplitude: 0.1,
+    duration: 3,
+  },
+};
+
+// 測定値は右向き・上向きを正とし、試験開始位置を 0 とする
+const measure = (axis: DroneStepAxisId, state: PhysicsState): number => {
+  switch (axis) {
+    case 'x':
+      return state.position.x - TUNING_POSITION.x;
+    case 'y':
+      return TUNING_POSITION.y - state.position.y;
+    case 'attitude':
+      return state.rotation;
+  }
+};
+
+/**
+ * ホバリングから目標値を1軸だけ変えたときの応答を試験する。
+ * 位置は目標位置を動かし、姿勢はカスケード PID の速度ループの出力を置き換えて傾きを指令する
+ * （他の制御器は目標姿勢を持たないため、姿勢の試験は PID のときだけ行える）。
+ */
+export const createDroneStepTester = (
+  controllerId: string,
+  config: unknown,
+  params: PhysicsParams,
+  integrator: IntegratorType,
+): StepTester => {
+  const run = (axisId: string, amplitude: number) => {
+    const axis = axisId as DroneStepAxisId;
+    if (amplitude === 0) {
+      throw new Error('振幅を 0 以外にしてください');
+    }
+
+    let controller = DRONE_CONTROLLERS.create(controllerId, config);
+    if (axis === 'attitude') {
+      const pid = config as PIDConfig;
+      if (!pid.loops.attitude.enabled) {
+        throw new Error('姿勢ループが無効です');
+      }
+      // 置き換える速度ループの段が実行されるよう有効にする
+      const cascade = new CascadePIDController({
+        ...pid,
+        loops: {
+          ...pid.loops,
+          velocity: { ...pid.loops.velocity, enabled: true },
+        },
+      });
+      cascade.setOverride('horizontalVelocity', () => amplitude);
+      controller = cascade;
+    }
+
+    const engine = createEngine(params, controller, integrator);
+    if (axis !== 'attitude') {
+      engine.setTarget(
+        axis === 'x'
+          ? { x: TUNING_POSITION.x + amplitude, y: TUNING_POSITION.y }
+          : { x: TUNING_POSITION.x, y: TUNING_POSITION.y - amplitude },
+      );
+    }
+
+    const initial = measure(axis, engine.getState());
+    const [hoverLeft, hoverRight] = hoverThrust(params);
+    const hover = (hoverLeft + hoverRight) / 2;
+    const samples: StepResponseSample[] = [];
+    let failed = false;
+    while (engine.getTime() < AXES[axis].duration) {
+      const state = engine.step();
+      if (engine.getLandingStatus() !== 'flying' || engine.isHalted()) {
+        failed = true;
+        break;
+      }
+      // 制御量は左右差（水平・姿勢）またはホバリングからの推力の増分（高度）
+      const { left, right } = engine.getCommand();
+      samples.push({
+        time: engine.getTime(),
+        value: measure(axis, state),
+        control: axis === 'y' ? (left + right) / 2 - hover : (left - right) / 2,
+      });
+    }
+    if (samples.length === 0) {
+      throw new Error('試験の開始直後に機体が接地しました');
+    }
+
+    return {
+      initial,
+      target: initial + amplitude,
+      samples,
+      metrics: analyzeStepResponse(samples, initial, initial + amplitude),
+      failed,
+    };
+  };
+
+  return {
+    axes: [AXES.x, AXES.y, ...(controllerId === 'pid' ? [AXES.attitude] : [])],
+    run,
+  };
+};
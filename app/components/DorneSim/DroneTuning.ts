@@ -0,0 +1,318 @@
+import { PerformanceIndex } from '../Simulation/PerformanceIndex';
+import { optimizeGains } from '../Simulation/PIDTuning';
+import type { PIDTuner, TuningLoop } from '../Simulation/PIDTuning';
+import { RelayFeedback } from '../Simulation/RelayAutoTune';
+import type { RelayResult } from '../Simulation/RelayAutoTune';
+import type { IntegratorType } from '../Simulation/Integrators';
+import { DroneEngine, FIXED_TIME_STEP } from './DroneEngine';
+import { DroneModel } from './DroneModel';
+import { hoverState, hoverThrust } from './DroneLinearization';
+import { CASCADE_STAGES, CascadePIDController } from './DroneControllers';
+import type { CascadeStageId, DroneController } from './DroneControllers';
+import { DEFAULT_SENSOR_CONFIG } from './defaults';
+import type {
+  CascadeLoop,
+  PhysicsParams,
+  PhysicsState,
+  PIDConfig,
+  PIDGains,
+  Position,
+} from './types';
+
+// 外側から順のループ
+const LOOP_ORDER: CascadeLoop[] = ['position', 'velocity', 'attitude', 'rate'];
+
+// 内側から調整するため、内側のループから並べる
+const TUNING_STAGES: CascadeStageId[] = [
+  'rate',
+  'attitude',
+  'horizontalVelocity',
+  'verticalVelocity',
+  'horizontalPosition',
+  'verticalPosition',
+];
+
+// 試験はアリーナ中央でホバリングした状態から始める
+export const TUNING_POSITION: Position = { x: 300, y: 150 };
+const RELAY_TEST_DURATION = 30; // [s]
+const RELAY_TEST_CYCLES = 4;
+// 接地・衝突したときに評価値へ加える罰則
+const CRASH_PENALTY = 1000;
+
+/**
+ * 最適化で評価する目標値の変化。
+ * 位置ループは目標位置を、それ以外は1つ外側のループの出力を置き換えて目標値を与える。
+ * 測定値は上向き・右向きを正とし、振幅で正規化して評価する。
+ */
+interface StepScenario {
+  outer: CascadeStageId | null;
+  amplitude: number;
+  duration: number; // [s]
+  shape: (time: number) => number;
+  measure: (state: PhysicsState) => number;
+  vertical: boolean;
+}
+
+const step = () => 1;
+// 角速度は一定のまま回し続けると転倒するため、正負のパルスで元の姿勢へ戻す
+const doublet = (time: number) => (time < 0.4 ? 1 : time < 0.8 ? -1 : 0);
+
+const STEP_SCENARIOS: Record<CascadeStageId, StepScenario> = {
+  rate: {
+    outer: 'attitude',
+    amplitude: 0.5, // [rad/s]
+    duration: 2,
+    shape: doublet,
+    measure: state => state.angularVelocity,
+    vertical: false,
+  },
+  attitude: {
+    outer: 'horizontalVelocity',
+    amplitude: 0.1, // [rad]
+    duration: 2,
+    shape: step,
+    measure: state => state.rotation,
+    vertical: false,
+  },
+  horizontalVelocity: {
+    outer: 'horizontalPosition',
+    amplitude: 5, // [px/s]
+    duration: 5,
+    shape: step,
+    measure: state => state.velocity.x,
+    vertical: false,
+  },
+  verticalVelocity: {
+    outer: 'verticalPosition',
+    amplitude: 5, // [px/s]
+    duration: 5,
+    shape: step,
+    measure: state => state.velocity.y,
+    vertical: true,
+  },
+  horizontalPosition: {
+    outer: null,
+    amplitude: 50, // [px]
+    duration: 10,
+    shape: step,
+    measure: state => state.position.x - TUNING_POSITION.x,
+    vertical: false,
+  },
+  verticalPosition: {
+    outer: null,
+    amplitude: 30, // [px]
+    duration: 10,
+    shape: step,
+    measure: state => TUNING_POSITION.y - state.position.y,
+    vertical: true,
+  },
+};
+
+const withStageGains = (
+  config: PIDConfig,
+  id: CascadeStageId,
+  gains: PIDGains,
+): PIDConfig => {
+  switch (id) {
+    case 'horizontalPosition':
+      return { ...config, position: { ...config.position, horizontal: gains } };
+    case 'verticalPosition':
+      return { ...config, position: { ...config.position, vertical: gains } };
+    case 'horizontalVelocity':
+      return { ...config, velocity: { ...config.velocity, horizontal: gains } };
+    case 'verticalVelocity':
+      return { ...config, velocity: { ...config.velocity, vertical: gains } };
+    case 'attitude':
+      return { ...config, attitude: gains };
+    case 'rate':
+      return { ...config, rate: gains };
+  }
+};
+
+// 試験用のエンジン（記録は行わない）。ステップ試験からも使う
+export const createEngine = (
+  params: PhysicsParams,
+  controller: DroneController,
+  integrator?: IntegratorType,
+): DroneEngine => {
+  const engine = new DroneEngine({
+    params,
+    controller,
+    integrator,
+    initialState: DroneModel.fromVector(hoverState(params, TUNING_POSITION)),
+    // 調整はセンサ誤差の影響を受けない真値で行う
+    sensors: {
+      ...DEFAULT_SENSOR_CONFIG,
+      estimator: 'truth',
+      controlOnEstimate: false,
+    },
+  });
+  engine.setTarget(TUNING_POSITION);
+  engine.getTelemetry().setEnabled(false);
+  engine.getLiveTelemetry().setEnabled(false);
+  return engine;
+};
+
+/**
+ * 指定したループの PID をリレーに置き換えて限界ゲイン・周期を求める。
+ * 外側のループは無効にし（目標値 0、位置ループは現在位置を保持）、内側のループは設定どおりに動かす。
+ */
+const runRelayTest = (
+  config: PIDConfig,
+  params: PhysicsParams,
+  id: CascadeStageId,
+  amplitudeRatio: number,
+  hysteresis: number,
+  integrator: IntegratorType,
+): RelayResult => {
+  const controller = new CascadePIDController(isolateLoop(config, id, null));
+  const engine = createEngine(params, controller, integrator);
+
+  // 振幅は出力上限が分かる最初の呼び出しで決める
+  let relay = null as RelayFeedback | null;
+  controller.setOverride(id, (setpoint, measured, limit) => {
+    relay ??= new RelayFeedback({
+      amplitude: amplitudeRatio * limit,
+      hysteresis,
+      // ループは設定した周波数で更新され、シミュレーションの刻みより細かくはならない
+      samplePeriod: Math.max(
+        1 / config.loops[CASCADE_STAGES[id].loop].rate,
+        FIXED_TIME_STEP,
+      ),
+    });
+    return relay.update(setpoint - measured, engine.getTime());
+  });
+
+  while (
+    engine.getTime() < RELAY_TEST_DURATION &&
+    (relay?.getCycles() ?? 0) < RELAY_TEST_CYCLES
+  ) {
+    engine.step();
+    if (engine.getLandingStatus() !== 'flying') {
+      throw new Error(
+        '試験中に機体が接地しました。リレー振幅を小さくしてください',
+      );
+    }
+  }
+
+  const result = relay?.getResult();
+  if (!result) {
+    throw new Error('持続振動が得られませんでした');
+  }
+  return result;
+};
+
+// 指定したループより外側を無効にする（outer で与えた段のループは残す）
+export const isolateLoop = (
+  config: PIDConfig,
+  id: CascadeStageId,
+  outer: CascadeStageId | null,
+): PIDConfig => {
+  const depth = LOOP_ORDER.indexOf(CASCADE_STAGES[id].loop);
+  const outerDepth = outer
+    ? LOOP_ORDER.indexOf(CASCADE_STAGES[outer].loop)
+    : depth;
+  const loops = Object.fromEntries(
+    LOOP_ORDER.map((loop, i) => [
+      loop,
+      {
+        ...config.loops[loop],
+        enabled:
+          i === depth ||
+          i === outerDepth ||
+          (i > depth && config.loops[loop].enabled),
+      },
+    ]),
+  ) as PIDConfig['loops'];
+  return { ...config, loops };
+};
+
+// 目標値の変化に対する ITAE（振幅で正規化）と推力の変化量を評価する
+const evaluateStepResponse = (
+  config: PIDConfig,
+  params: PhysicsParams,
+  id: CascadeStageId,
+  effortWeight: number,
+  integrator: IntegratorType,
+): number => {
+  const scenario = STEP_SCENARIOS[id];
+  const { outer, amplitude, duration, shape, measure, vertical } = scenario;
+  const controller = new CascadePIDController(isolateLoop(config, id, outer));
+  const engine = createEngine(params, controller, integrator);
+  const reference = () => amplitude * shape(engine.getTime());
+  if (outer) {
+    controller.setOverride(outer, reference);
+  } else {
+    engine.setTarget(
+      vertical
+        ? { x: TUNING_POSITION.x, y: TUNING_POSITION.y - amplitude }
+        : { x: TUNING_POSITION.x + amplitude, y: TUNING_POSITION.y },
+    );
+  }
+
+  // 高度の推力の変化量はホバリング推力（左右の平均）からの増分とする
+  const [hoverLeft, hoverRight] = hoverThrust(params);
+  const hover = (hoverLeft + hoverRight) / 2;
+
+  const index = new PerformanceIndex({ effort: effortWeight });
+  let previousTime = 0;
+  while (engine.getTime() < duration) {
+    const state = engine.step();
+    const time = engine.getTime();
+    const error = (reference() - measure(state)) / amplitude;
+    if (engine.getLandingStatus() !== 'flying') {
+      return index.getValue() + CRASH_PENALTY;
+    }
+    const { left, right } = engine.getCommand();
+    const control = vertical ? (left + right) / 2 - hover : (left - right) / 2;
+    index.add(time, error, control, time - previousTime);
+    previousTime = time;
+  }
+  return index.getValue();
+};
+
+// カスケード PID のリレー試験と最適化
+export const createDroneTuner = (
+  config: PIDConfig,
+  params: PhysicsParams,
+  integrator: IntegratorType,
+): PIDTuner<PIDConfig> => {
+  const stage = (loopId: string) => loopId as CascadeStageId;
+  const loops: TuningLoop[] = TUNING_STAGES.map(id => ({
+    id,
+    name: CASCADE_STAGES[id].name,
+  }));
+
+  return {
+    loops,
+    getGains: loopId => CASCADE_STAGES[stage(loopId)].gains(config),
+    withGains: (loopId, gains) => withStageGains(config, stage(loopId), gains),
+    runRelayTest: (loopId, { amplitudeRatio, hysteresis }) =>
+      runRelayTest(
+        config,
+        params,
+        stage(loopId),
+        amplitudeRatio,
+        hysteresis,
+        integrator,
+      ),
+    optimize: (loopId, { effortWeight, maxIterations }) => {
+      const id = stage(loopId);
+      if (!config.loops[CASCADE_STAGES[id].loop].enabled) {
+        throw new Error('無効なループは最適化できません');
+      }
+      return optimizeGains(
+        CASCADE_STAGES[id].gains(config),
+        gains =>
+          evaluateStepResponse(
+            withStageGains(config, id, gains),
+            params,
+            id,
+            effortWeight,
+            integrator,
+          ),
+        maxIterations,
+      );
+    },
+  };
+};
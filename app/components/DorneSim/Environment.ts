@@ -0,0 +1,41 @@
+import type { Position } from './types';
+
+// 静的な障害物（画面座標[px]）
+export type Obstacle =
+  | {
+      id: string;
+      kind: 'rect';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    }
+  | {
+      id: string;
+      kind: 'polygon';
+      points: Position[];
+    };
+
+// 進入すると違反として通知される飛行禁止区域
+export interface NoFlyZone {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 地面上の着陸パッド（x〜x+width の範囲）
+export interface LandingPad {
+  id: string;
+  x: number;
+  width: number;
+}
+
+export interface EnvironmentMap {
+  name: string;
+  ceilingY: number | null; // 天井の高さ（画面座標）。null なら天井なし
+  obstacles: Obstacle[];
+  noFlyZones: NoFlyZone[];
+  landingPads: LandingPad[];
+}
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import type { ChangeEvent } from 'react';
+import type { EnvironmentMap } from './Environment';
+import type { EnvironmentTool } from './EnvironmentLayer';
+import { ENVIRONMENT_PRESETS } from './EnvironmentPresets';
+import {
+  parseEnvironment,
+  environmentToJson,
+  loadSavedEnvironments,
+  saveEnvironment,
+  deleteSavedEnvironment,
+} from './EnvironmentStorage';
+
+interface EnvironmentEditorProps {
+  environment: EnvironmentMap;
+  tool: EnvironmentTool | null;
+  onChange: (environment: EnvironmentMap) => void;
+  onToolChange: (tool: EnvironmentTool | null) => void;
+}
+
+const TOOLS: { id: EnvironmentTool; label: string; hint: string }[] = [
+  { id: 'rect', label: '障害物(矩形)', hint: 'ドラッグで矩形を配置' },
+  {
+    id: 'polygon',
+    label: '障害物(多角形)',
+    hint: 'クリックで頂点を追加し、ダブルクリックで確定',
+  },
+  { id: 'noFly', label: '飛行禁止区域', hint: 'ドラッグで区域を配置' },
+  { id: 'pad', label: '着陸パッド', hint: '横方向のドラッグで地面に配置' },
+  { id: 'ceiling', label: '天井', hint: 'クリックした高さに天井を設定' },
+  { id: 'erase', label: '削除', hint: 'クリックした図形を削除' },
+];
+
+// 選択肢の値（組み込みと保存済みを区別する）
+const presetValue = (name: string) => `preset:${name}`;
+const savedValue = (name: string) => `saved:${name}`;
+
+// 障害物・飛行禁止区域などの編集とレイアウトの保存・読み込み
+const EnvironmentEditor = ({
+  environment,
+  tool,
+  onChange,
+  onToolChange,
+}: EnvironmentEditorProps) => {
+  const [saved, setSaved] = useState<EnvironmentMap[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage はブラウザでのみ読める
+  useEffect(() => {
+    setSaved(loadSavedEnvironments());
+  }, []);
+
+  const handleSelect = (value: string): void => {
+    const [source, ...rest] = value.split(':');
+    const name = rest.join(':');
+    const list = source === 'preset' ? ENVIRONMENT_PRESETS : saved;
+    const selected = list.find(item => item.name === name);
+    if (selected) {
+      onChange(selected);
+      setError(null);
+    }
+  };
+
+  const handleSave = (): void => {
+    try {
+      setSaved(saveEnvironment(environment));
+      setError(null);
+    } catch {
+      setError('ブラウザへの保存に失敗しました');
+    }
+  };
+
+  const handleExport = (): void => {
+    const blob = new Blob([environmentToJson(environment)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${environment.name}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseEnvironment(JSON.parse(await file.text())));
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof SyntaxError
+          ? 'JSON として読み込めません'
+          : (err as Error).message,
+      );
+    }
+  };
+
+  const isSaved = saved.some(item => item.name === environment.name);
+  const activeTool = TOOLS.find(item => item.id === tool);
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">環境</h3>
+        <select
+          value=""
+          onChange={e => handleSelect(e.target.value)}
+          className="px-2 py-1 border rounded bg-white text-sm"
+        >
+          <option value="" disabled>
+            レイアウトを読み込む
+          </option>
+          <optgroup label="組み込み">
+            {ENVIRONMENT_PRESETS.map(preset => (
+              <option key={preset.name} value={presetValue(preset.name)}>
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+          {saved.length > 0 && (
+            <optgroup label="保存済み">
+              {saved.map(item => (
+                <option key={item.name} value={savedValue(item.name)}>
+                  {item.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <label className="text-sm text-gray-600">名前</label>
+        <input
+          type="text"
+          value={environment.name}
+          onChange={e => onChange({ ...environment, name: e.target.value })}
+          className="flex-1 px-2 py-1 border rounded"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {TOOLS.map(item => (
+          <button
+            key={item.id}
+            className={`px-2 py-1 text-sm rounded ${
+              tool === item.id
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+            onClick={() => onToolChange(tool === item.id ? null : item.id)}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+      {activeTool && (
+        <p className="text-xs text-gray-500">
+          {activeTool.hint}（もう一度押すと編集を終了）
+        </p>
+      )}
+
+      <div className="text-sm text-gray-600">
+        障害物 {environment.obstacles.length} / 飛行禁止区域{' '}
+        {environment.noFlyZones.length} / 着陸パッド{' '}
+        {environment.landingPads.length} / 天井{' '}
+        {environment.ceilingY === null
+          ? 'なし'
+          : `${environment.ceilingY.toFixed(0)}px`}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          disabled={environment.name.trim() === ''}
+          onClick={handleSave}
+        >
+          ブラウザに保存
+        </button>
+        {isSaved && (
+          <button
+            className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600"
+            onClick={() => setSaved(deleteSavedEnvironment(environment.name))}
+          >
+            保存を削除
+          </button>
+        )}
+        <button
+          className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600"
+          onClick={handleExport}
+        >
+          JSON書き出し
+        </button>
+        <label className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 cursor-pointer">
+          JSON読み込み
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+          onClick={() =>
+            onChange({
+              ...environment,
+              ceilingY: null,
+              obstacles: [],
+              noFlyZones: [],
+              landingPads: [],
+            })
+          }
+        >
+          すべて消去
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  );
+};
+
+export default EnvironmentEditor;
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import type { MouseEvent } from 'react';
+import type { EnvironmentMap } from './Environment';
+import { EnvironmentModel } from './EnvironmentModel';
+import { ARENA_BOUNDS } from './DroneModel';
+import type { Position } from './types';
+
+export type EnvironmentTool =
+  | 'rect'
+  | 'polygon'
+  | 'noFly'
+  | 'pad'
+  | 'ceiling'
+  | 'erase';
+
+interface EnvironmentLayerProps {
+  environment: EnvironmentMap;
+  activeNoFlyZones: string[];
+  tool: EnvironmentTool | null;
+  onChange: (environment: EnvironmentMap) => void;
+}
+
+// ドラッグで作る図形の最小サイズ[px]
+const MIN_SHAPE_SIZE = 4;
+// 着陸パッドの描画上の厚さ[px]
+const PAD_THICKNESS = 4;
+
+let shapeCounter = 0;
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${shapeCounter++}`;
+
+const toPoints = (points: Position[]): string =>
+  points.map(point => `${point.x},${point.y}`).join(' ');
+
+const pointerPosition = (e: MouseEvent<SVGSVGElement>): Position => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+};
+
+/**
+ * アリーナ上に環境（障害物・飛行禁止区域・着陸パッド・天井）を描画する。
+ * tool が指定されている間はマウス操作で図形を追加・削除できる。
+ */
+const EnvironmentLayer = ({
+  environment,
+  activeNoFlyZones,
+  tool,
+  onChange,
+}: EnvironmentLayerProps) => {
+  const [dragStart, setDragStart] = useState<Position | null>(null);
+  const [pointer, setPointer] = useState<Position | null>(null);
+  const [polygonPoints, setPolygonPoints] = useState<Position[]>([]);
+
+  // ツールを切り替えたら作成途中の図形を破棄
+  useEffect(() => {
+    setDragStart(null);
+    setPolygonPoints([]);
+  }, [tool]);
+
+  const dragRect =
+    dragStart && pointer
+      ? {
+          x: Math.min(dragStart.x, pointer.x),
+          y: Math.min(dragStart.y, pointer.y),
+          width: Math.abs(pointer.x - dragStart.x),
+          height: Math.abs(pointer.y - dragStart.y),
+        }
+      : null;
+
+  const handleMouseDown = (e: MouseEvent<SVGSVGElement>): void => {
+    if (tool === 'rect' || tool === 'noFly' || tool === 'pad') {
+      setDragStart(pointerPosition(e));
+    }
+  };
+
+  const handleMouseUp = (): void => {
+    if (dragRect && dragRect.width >= MIN_SHAPE_SIZE) {
+      if (tool === 'rect' && dragRect.height >= MIN_SHAPE_SIZE) {
+        onChange({
+          ...environment,
+          obstacles: [
+            ...environment.obstacles,
+            { id: createId('obstacle'), kind: 'rect', ...dragRect },
+          ],
+        });
+      } else if (tool === 'noFly' && dragRect.height >= MIN_SHAPE_SIZE) {
+        onChange({
+          ...environment,
+          noFlyZones: [
+            ...environment.noFlyZones,
+            { id: createId('no-fly'), ...dragRect },
+          ],
+        });
+      } else if (tool === 'pad') {
+        onChange({
+          ...environment,
+          landingPads: [
+            ...environment.landingPads,
+            { id: createId('pad'), x: dragRect.x, width: dragRect.width },
+          ],
+        });
+      }
+    }
+    setDragStart(null);
+  };
+
+  const handleClick = (e: MouseEvent<SVGSVGElement>): void => {
+    const position = pointerPosition(e);
+    if (tool === 'polygon') {
+      setPolygonPoints(prev => [...prev, position]);
+    } else if (tool === 'ceiling') {
+      onChange({ ...environment, ceilingY: position.y });
+    }
+  };
+
+  // ダブルクリックで多角形を確定する
+  const handleDoubleClick = (): void => {
+    if (tool !== 'polygon') return;
+    // ダブルクリックの2回目のクリックで追加された重複点を除く
+    const points = polygonPoints.slice(0, -1);
+    if (points.length >= 3) {
+      onChange({
+        ...environment,
+        obstacles: [
+          ...environment.obstacles,
+          { id: createId('obstacle'), kind: 'polygon', points },
+        ],
+      });
+    }
+    setPolygonPoints([]);
+  };
+
+  // 削除ツールのときのみ図形自体がクリックを受け取る
+  const eraseHandler = (remove: () => EnvironmentMap) =>
+    tool === 'erase'
+      ? (e: MouseEvent) => {
+          e.stopPropagation();
+          onChange(remove());
+        }
+      : undefined;
+  const shapeCursor = tool === 'erase' ? 'cursor-pointer' : '';
+
+  return (
+    <svg
+      className={`absolute inset-0 w-full h-full ${
+        tool ? 'cursor-crosshair' : 'pointer-events-none'
+      }`}
+      onMouseDown={handleMouseDown}
+      onMouseMove={e => setPointer(pointerPosition(e))}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={() => setDragStart(null)}
+      onClick={handleClick}
+      onDoubleClick={handleDoubleClick}
+    >
+      {/* 天井 */}
+      {environment.ceilingY !== null && (
+        <rect
+          x="0"
+          y="0"
+          width="100%"
+          height={environment.ceilingY}
+          fill="#334155"
+          className={shapeCursor}
+          onClick={eraseHandler(() => ({ ...environment, ceilingY: null }))}
+        />
+      )}
+
+      {/* 飛行禁止区域 */}
+      {environment.noFlyZones.map(zone => (
+        <rect
+          key={zone.id}
+          x={zone.x}
+          y={zone.y}
+          width={zone.width}
+          height={zone.height}
+          fill={activeNoFlyZones.includes(zone.id) ? '#f87171' : '#fecaca'}
+          fillOpacity="0.5"
+          stroke="#dc2626"
+          strokeDasharray="4 2"
+          className={shapeCursor}
+          onClick={eraseHandler(() => ({
+            ...environment,
+            noFlyZones: environment.noFlyZones.filter(z => z.id !== zone.id),
+          }))}
+        />
+      ))}
+
+      {/* 障害物 */}
+      {environment.obstacles.map(obstacle => (
+        <polygon
+          key={obstacle.id}
+          points={toPoints(EnvironmentModel.outline(obstacle))}
+          fill="#64748b"
+          className={shapeCursor}
+          onClick={eraseHandler(() => ({
+            ...environment,
+            obstacles: environment.obstacles.filter(o => o.id !== obstacle.id),
+          }))}
+        />
+      ))}
+
+      {/* 着陸パッド */}
+      {environment.landingPads.map(pad => (
+        <rect
+          key={pad.id}
+          x={pad.x}
+          y={ARENA_BOUNDS.groundY - PAD_THICKNESS / 2}
+          width={pad.width}
+          height={PAD_THICKNESS}
+          fill="#16a34a"
+          className={shapeCursor}
+          onClick={eraseHandler(() => ({
+            ...environment,
+            landingPads: environment.landingPads.filter(p => p.id !== pad.id),
+          }))}
+        />
+      ))}
+
+      {/* 作成中の図形 */}
+      {dragRect && tool === 'pad' && (
+        <rect
+          x={dragRect.x}
+          y={ARENA_BOUNDS.groundY - PAD_THICKNESS / 2}
+          width={dragRect.width}
+          height={PAD_THICKNESS}
+          fill="#16a34a"
+          fillOpacity="0.5"
+        />
+      )}
+      {dragRect && tool !== 'pad' && (
+        <rect
+          {...dragRect}
+          fill="none"
+          stroke="#0f172a"
+          strokeDasharray="4 2"
+        />
+      )}
+      {polygonPoints.length > 0 && (
+        <polyline
+          points={toPoints(
+            pointer ? [...polygonPoints, pointer] : polygonPoints,
+          )}
+          fill="none"
+          stroke="#0f172a"
+          strokeDasharray="4 2"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default EnvironmentLayer;
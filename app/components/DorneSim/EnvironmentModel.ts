@@ -0,0 +1,145 @@
+import { ContactModel } from './ContactModel';
+import type { EnvironmentMap, LandingPad, Obstacle } from './Environment';
+import type { PhysicsState, Position } from './types';
+
+// 衝突判定に使う機体の外形（機体長さ単位、ロータと着陸脚を含む）
+export const COLLISION_OUTLINE: Position[] = [
+  { x: -0.6, y: -0.15 },
+  { x: 0.6, y: -0.15 },
+  { x: 0.6, y: 0.15 },
+  { x: -0.6, y: 0.15 },
+];
+
+export type Collision =
+  | { target: 'obstacle'; obstacleId: string }
+  | { target: 'ceiling' };
+
+// 線分 p1-p2 と q1-q2 が交差するか（端点の接触を含む）
+function segmentsIntersect(
+  p1: Position,
+  p2: Position,
+  q1: Position,
+  q2: Position,
+): boolean {
+  const cross = (a: Position, b: Position, c: Position): number =>
+    (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return d1 * d2 <= 0 && d3 * d4 <= 0;
+}
+
+export const EnvironmentModel = {
+  // 障害物の輪郭（頂点列）
+  outline(obstacle: Obstacle): Position[] {
+    if (obstacle.kind === 'polygon') {
+      return obstacle.points;
+    }
+    const { x, y, width, height } = obstacle;
+    return [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ];
+  },
+
+  // 機体外形の画面座標
+  bodyOutline(state: PhysicsState): Position[] {
+    return COLLISION_OUTLINE.map(point =>
+      ContactModel.toWorld(
+        point,
+        state.position.x,
+        state.position.y,
+        state.rotation,
+      ),
+    );
+  },
+
+  // 点が多角形の内側にあるか（凹多角形にも対応する交差数判定）
+  containsPoint(polygon: Position[], point: Position): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if (
+        a.y > point.y !== b.y > point.y &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  },
+
+  // 2つの多角形が重なっているか
+  polygonsOverlap(a: Position[], b: Position[]): boolean {
+    for (let i = 0; i < a.length; i++) {
+      const a1 = a[i];
+      const a2 = a[(i + 1) % a.length];
+      for (let j = 0; j < b.length; j++) {
+        if (segmentsIntersect(a1, a2, b[j], b[(j + 1) % b.length])) {
+          return true;
+        }
+      }
+    }
+    // 辺が交差しなければ、一方が他方に完全に含まれる場合のみ重なる
+    return (
+      EnvironmentModel.containsPoint(b, a[0]) ||
+      EnvironmentModel.containsPoint(a, b[0])
+    );
+  },
+
+  // 機体が障害物・天井に衝突していれば、その対象を返す
+  detectCollision(
+    state: PhysicsState,
+    environment: EnvironmentMap,
+  ): Collision | null {
+    const body = EnvironmentModel.bodyOutline(state);
+
+    const { ceilingY } = environment;
+    if (ceilingY !== null && body.some(point => point.y <= ceilingY)) {
+      return { target: 'ceiling' };
+    }
+
+    for (const obstacle of environment.obstacles) {
+      if (
+        EnvironmentModel.polygonsOverlap(
+          body,
+          EnvironmentModel.outline(obstacle),
+        )
+      ) {
+        return { target: 'obstacle', obstacleId: obstacle.id };
+      }
+    }
+    return null;
+  },
+
+  // 機体の重心が入っている飛行禁止区域の ID
+  noFlyZonesAt(environment: EnvironmentMap, position: Position): string[] {
+    return environment.noFlyZones
+      .filter(
+        zone =>
+          position.x >= zone.x &&
+          position.x <= zone.x + zone.width &&
+          position.y >= zone.y &&
+          position.y <= zone.y + zone.height,
+      )
+      .map(zone => zone.id);
+  },
+
+  /**
+   * 水平位置 x の真下にある着陸パッドと、パッド中心からのずれ[px]。
+   * パッドの外なら null。
+   */
+  landingPadAt(
+    environment: EnvironmentMap,
+    x: number,
+  ): { pad: LandingPad; offset: number } | null {
+    const pad = environment.landingPads.find(
+      candidate => x >= candidate.x && x <= candidate.x + candidate.width,
+    );
+    return pad ? { pad, offset: x - (pad.x + pad.width / 2) } : null;
+  },
+};
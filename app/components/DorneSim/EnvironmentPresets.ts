@@ -0,0 +1,44 @@
+import type { EnvironmentMap } from './Environment';
+import { DEFAULT_ENVIRONMENT } from './defaults';
+
+// 航法・精密着陸の課題用に用意した環境
+export const ENVIRONMENT_PRESETS: EnvironmentMap[] = [
+  DEFAULT_ENVIRONMENT,
+  {
+    name: 'ビル街',
+    ceilingY: 20,
+    obstacles: [
+      {
+        id: 'building-1',
+        kind: 'rect',
+        x: 180,
+        y: 170,
+        width: 50,
+        height: 130,
+      },
+      { id: 'building-2', kind: 'rect', x: 360, y: 210, width: 70, height: 90 },
+      {
+        id: 'antenna',
+        kind: 'polygon',
+        points: [
+          { x: 385, y: 150 },
+          { x: 405, y: 150 },
+          { x: 395, y: 210 },
+        ],
+      },
+    ],
+    noFlyZones: [{ id: 'no-fly-1', x: 240, y: 20, width: 100, height: 80 }],
+    landingPads: [{ id: 'pad-1', x: 470, width: 60 }],
+  },
+  {
+    name: '精密着陸',
+    ceilingY: null,
+    obstacles: [],
+    noFlyZones: [],
+    landingPads: [
+      { id: 'pad-wide', x: 120, width: 80 },
+      { id: 'pad-narrow', x: 280, width: 40 },
+      { id: 'pad-tiny', x: 440, width: 24 },
+    ],
+  },
+];
@@ -0,0 +1,152 @@
+import type { EnvironmentMap, LandingPad, Obstacle } from './Environment';
+
+// ブラウザに保存するレイアウトのキー
+const STORAGE_KEY = 'dorne-sim:environments';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function parseRectFields(
+  value: Record<string, unknown>,
+  label: string,
+): { id: string; x: number; y: number; width: number; height: number } {
+  const { id, x, y, width, height } = value;
+  if (
+    typeof id !== 'string' ||
+    !isFiniteNumber(x) ||
+    !isFiniteNumber(y) ||
+    !isFiniteNumber(width) ||
+    !isFiniteNumber(height) ||
+    width <= 0 ||
+    height <= 0
+  ) {
+    throw new Error(`${label}の形式が不正です`);
+  }
+  return { id, x, y, width, height };
+}
+
+function parseObstacle(value: unknown): Obstacle {
+  if (!isRecord(value)) {
+    throw new Error('障害物の形式が不正です');
+  }
+  if (value.kind === 'rect') {
+    return { kind: 'rect', ...parseRectFields(value, '障害物') };
+  }
+  if (value.kind === 'polygon') {
+    const { id, points } = value;
+    if (
+      typeof id !== 'string' ||
+      !Array.isArray(points) ||
+      points.length < 3 ||
+      !points.every(
+        point =>
+          isRecord(point) && isFiniteNumber(point.x) && isFiniteNumber(point.y),
+      )
+    ) {
+      throw new Error('多角形の障害物には3点以上の頂点が必要です');
+    }
+    return {
+      id,
+      kind: 'polygon',
+      points: points.map(point => ({ x: point.x, y: point.y })),
+    };
+  }
+  throw new Error(`未対応の障害物の種類です: ${String(value.kind)}`);
+}
+
+function parseLandingPad(value: unknown): LandingPad {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    !isFiniteNumber(value.x) ||
+    !isFiniteNumber(value.width) ||
+    value.width <= 0
+  ) {
+    throw new Error('着陸パッドの形式が不正です');
+  }
+  return { id: value.id, x: value.x, width: value.width };
+}
+
+function parseArray<T>(
+  value: unknown,
+  label: string,
+  parse: (item: unknown) => T,
+): T[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${label}は配列で指定してください`);
+  }
+  return value.map(parse);
+}
+
+/**
+ * JSON から読み込んだ値を検証して環境定義に変換する。
+ * 不正な場合は内容を説明するメッセージ付きの Error を投げる。
+ */
+export function parseEnvironment(value: unknown): EnvironmentMap {
+  if (!isRecord(value)) {
+    throw new Error('環境定義はオブジェクトで指定してください');
+  }
+  const { name, ceilingY } = value;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('環境の名前がありません');
+  }
+  if (ceilingY !== null && !isFiniteNumber(ceilingY)) {
+    throw new Error('天井の高さは数値か null で指定してください');
+  }
+
+  return {
+    name,
+    ceilingY,
+    obstacles: parseArray(value.obstacles, '障害物', parseObstacle),
+    noFlyZones: parseArray(value.noFlyZones, '飛行禁止区域', item => {
+      if (!isRecord(item)) throw new Error('飛行禁止区域の形式が不正です');
+      return parseRectFields(item, '飛行禁止区域');
+    }),
+    landingPads: parseArray(value.landingPads, '着陸パッド', parseLandingPad),
+  };
+}
+
+export function environmentToJson(environment: EnvironmentMap): string {
+  return JSON.stringify(environment, null, 2);
+}
+
+// ブラウザに保存済みのレイアウト（壊れたものは読み飛ばす）
+export function loadSavedEnvironments(): EnvironmentMap[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(item => {
+      try {
+        return [parseEnvironment(item)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedEnvironments(environments: EnvironmentMap[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(environments));
+}
+
+// 同名のレイアウトがあれば上書きして保存する
+export function saveEnvironment(environment: EnvironmentMap): EnvironmentMap[] {
+  const saved = [
+    ...loadSavedEnvironments().filter(item => item.name !== environment.name),
+    environment,
+  ];
+  writeSavedEnvironments(saved);
+  return saved;
+}
+
+export function deleteSavedEnvironment(name: string): EnvironmentMap[] {
+  const saved = loadSavedEnvironments().filter(item => item.name !== name);
+  writeSavedEnvironments(saved);
+  return saved;
+}
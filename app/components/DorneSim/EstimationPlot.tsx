@@ -0,0 +1,157 @@
+import { ARENA_BOUNDS } from './DroneModel';
+import type { EstimatedState } from './StateEstimator';
+import type { PhysicsState } from './types';
+
+// 1フレーム分の真値と推定値
+export interface EstimationSample {
+  time: number;
+  truth: PhysicsState;
+  estimate: EstimatedState;
+}
+
+interface EstimationPlotProps {
+  history: EstimationSample[];
+}
+
+// 表示するシミュレーション時間の幅[s]
+export const ESTIMATION_WINDOW = 20;
+
+const WIDTH = 600;
+const HEIGHT = 60;
+
+// 各グラフの量（value は真値・推定値の共通の取り出し方、deviation は標準偏差）
+interface Channel {
+  label: string;
+  unit: string;
+  value: (state: PhysicsState | EstimatedState) => number;
+  deviation: (estimate: EstimatedState) => number | null;
+}
+
+const CHANNELS: Channel[] = [
+  {
+    label: 'x',
+    unit: 'px',
+    value: state => state.position.x,
+    deviation: estimate => estimate.deviation?.position.x ?? null,
+  },
+  {
+    label: '高度',
+    unit: 'px',
+    value: state => ARENA_BOUNDS.groundY - state.position.y,
+    deviation: estimate => estimate.deviation?.position.y ?? null,
+  },
+  {
+    label: '姿勢角',
+    unit: 'rad',
+    value: state => state.rotation,
+    deviation: estimate => estimate.deviation?.rotation ?? null,
+  },
+  {
+    label: 'vx',
+    unit: 'px/s',
+    value: state => state.velocity.x,
+    deviation: estimate => estimate.deviation?.velocity.x ?? null,
+  },
+  {
+    label: 'vy',
+    unit: 'px/s',
+    value: state => state.velocity.y,
+    deviation: estimate => estimate.deviation?.velocity.y ?? null,
+  },
+];
+
+const toPoints = (points: [number, number][]): string =>
+  points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+/**
+ * 真値（灰）と推定値（青）の時系列。共分散を持つ推定器では ±2σ の帯も描く。
+ * 縦軸は表示中の範囲に合わせて自動で拡大する。
+ */
+const EstimationPlot = ({ history }: EstimationPlotProps) => {
+  if (history.length < 2) {
+    return null;
+  }
+
+  const end = history[history.length - 1].time;
+  const start = end - ESTIMATION_WINDOW;
+  const toX = (time: number) => ((time - start) / ESTIMATION_WINDOW) * WIDTH;
+
+  return (
+    <div className="space-y-2">
+      {CHANNELS.map(channel => {
+        const truth = history.map(sample => channel.value(sample.truth));
+        const estimate = history.map(sample => channel.value(sample.estimate));
+        const band = history.map(sample => {
+          const sigma = channel.deviation(sample.estimate);
+          return sigma === null ? 0 : 2 * sigma;
+        });
+
+        const values = [
+          ...truth,
+          ...estimate.map((value, i) => value + band[i]),
+          ...estimate.map((value, i) => value - band[i]),
+        ];
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        const span = Math.max(max - min, 1e-3);
+        const toY = (value: number) =>
+          HEIGHT - ((value - min) / span) * (HEIGHT - 4) - 2;
+
+        const line = (series: number[]) =>
+          toPoints(
+            history.map((sample, i) => [toX(sample.time), toY(series[i])]),
+          );
+        const upper = history.map((sample, i): [number, number] => [
+          toX(sample.time),
+          toY(estimate[i] + band[i]),
+        ]);
+        const lower = history
+          .map((sample, i): [number, number] => [
+            toX(sample.time),
+            toY(estimate[i] - band[i]),
+          ])
+          .reverse();
+        const error = estimate[estimate.length - 1] - truth[truth.length - 1];
+
+        return (
+          <div key={channel.label}>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>
+                {channel.label} [{channel.unit}]
+              </span>
+              <span>誤差: {error.toFixed(3)}</span>
+            </div>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-12 bg-gray-50 rounded"
+            >
+              {band.some(value => value > 0) && (
+                <polygon
+                  points={toPoints([...upper, ...lower])}
+                  fill="rgb(59 130 246 / 0.15)"
+                />
+              )}
+              <polyline
+                points={line(truth)}
+                fill="none"
+                stroke="rgb(107 114 128)"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+              <polyline
+                points={line(estimate)}
+                fill="none"
+                stroke="rgb(59 130 246)"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EstimationPlot;
@@ -0,0 +1,75 @@
+import type { SensorId } from './SensorConfig';
+
+export type MotorSide = 'left' | 'right';
+
+// 注入する故障の内容（故障は reset まで続く）
+export type Fault =
+  | { type: 'motorDead'; motor: MotorSide } // 推力ゼロ
+  | { type: 'motorStuck'; motor: MotorSide } // 故障時の推力のまま固着
+  | {
+      type: 'thrustDegradation';
+      motor: MotorSide;
+      efficiency: number; // 最終的な推力効率
+      duration: number; // 最終値に達するまでの時間[s]
+    }
+  | {
+      type: 'payloadDrop';
+      massLoss: number; // 機体から失われる質量[kg]
+      centerOfMassShift: number; // 重心の移動量[px]（右が正）
+    }
+  | { type: 'sensorFreeze'; sensor: SensorId } // 故障時の値を出し続ける
+  | { type: 'sensorBias'; sensor: SensorId; bias: number }; // バイアスの段差
+
+export type FaultType = Fault['type'];
+
+// タイムライン上の故障（time はシミュレーション時刻[s]）
+export interface FaultEvent {
+  id: string;
+  time: number;
+  fault: Fault;
+}
+
+// recovering: 回復待ち（回復後に範囲を外れた場合を含む）、recovered: 目標への誤差が戻った、lost: 墜落・衝突した
+export type FaultOutcome = 'recovering' | 'recovered' | 'lost';
+
+// 故障ごとの制御器の回復の記録
+export interface FaultRecord {
+  event: FaultEvent;
+  errorAtFault: number; // 故障時の目標位置との距離[px]
+  peakError: number; // 故障後の最大の距離[px]
+  peakTilt: number; // 故障後の最大の傾き[rad]
+  recoveryTime: number | null; // 故障から回復までの時間[s]
+  outcome: FaultOutcome;
+}
+
+export const FAULT_LABELS: Record<FaultType, string> = {
+  motorDead: 'モータ停止',
+  motorStuck: 'モータ固着',
+  thrustDegradation: '推力低下',
+  payloadDrop: '積荷の投下',
+  sensorFreeze: 'センサ固着',
+  sensorBias: 'センサバイアス',
+};
+
+// 種類を選んだときの既定の故障
+export const DEFAULT_FAULTS: Record<FaultType, Fault> = {
+  motorDead: { type: 'motorDead', motor: 'left' },
+  motorStuck: { type: 'motorStuck', motor: 'left' },
+  thrustDegradation: {
+    type: 'thrustDegradation',
+    motor: 'left',
+    efficiency: 0.8,
+    duration: 5,
+  },
+  payloadDrop: { type: 'payloadDrop', massLoss: 0.2, centerOfMassShift: 0.05 },
+  sensorFreeze: { type: 'sensorFreeze', sensor: 'gyro' },
+  sensorBias: { type: 'sensorBias', sensor: 'barometer', bias: 10 },
+};
+
+let faultCounter = 0;
+
+export const createFaultEvent = (time: number, fault: Fault): FaultEvent => ({
+  id: `fault-${Date.now()}-${faultCounter++}`,
+  time,
+  fault,
+});
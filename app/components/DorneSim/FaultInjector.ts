@@ -0,0 +1,282 @@
+import type { SensorReading } from './SensorModel';
+import type { SensorId } from './SensorConfig';
+import type { Fault, FaultEvent, FaultRecord, MotorSide } from './Fault';
+import type {
+  DroneEvent,
+  PhysicsParams,
+  PhysicsState,
+  ThrustCommand,
+} from './types';
+
+// 回復の判定基準
+export const RECOVERY_CRITERIA = {
+  tolerance: 5, // 故障時の誤差からの増加がこれ以下なら回復とみなす[px]
+  maxTilt: 0.3, // 傾き[rad]
+  maxAngularVelocity: 0.5, // 角速度[rad/s]
+  holdTime: 2, // 回復とみなすまでにその範囲にとどまる時間[s]
+};
+
+const EFFICIENCY_KEYS: Record<
+  MotorSide,
+  'LEFT_THRUST_EFFICIENCY' | 'RIGHT_THRUST_EFFICIENCY'
+> = {
+  left: 'LEFT_THRUST_EFFICIENCY',
+  right: 'RIGHT_THRUST_EFFICIENCY',
+};
+
+const wrapAngle = (angle: number): number =>
+  Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// 故障が進行しきるまでの時間（回復はその後から判定する）
+const developmentTime = (fault: Fault): number =>
+  fault.type === 'thrustDegradation' ? Math.max(fault.duration, 0) : 0;
+
+// 故障後に残す最小の質量の比率
+const MIN_MASS_RATIO = 0.1;
+// 重心はロータ間距離のこの比率より内側に制限する
+const MAX_CENTER_OF_MASS_RATIO = 0.9;
+
+/**
+ * タイムラインに従って故障を注入し、故障ごとに制御器の回復を記録する。
+ * 故障はモータ推力・物理パラメータ・センサ出力に適用する。
+ * 制御器には故障を知らせないため、エンジンは制御器に公称のパラメータを渡す。
+ */
+export class FaultInjector {
+  private timeline: FaultEvent[] = [];
+  private triggered: { event: FaultEvent; time: number }[] = [];
+  private records: FaultRecord[] = [];
+  // 固着したモータの推力
+  private stuckThrust: Partial<Record<MotorSide, number>> = {};
+  private lastReadings: Partial<Record<SensorId, SensorReading>> = {};
+  private frozenReadings: Partial<Record<SensorId, SensorReading>> = {};
+  // 回復の判定範囲に入った時刻（故障 ID ごと）
+  private withinSince: Record<string, number | null> = {};
+
+  public getTimeline(): FaultEvent[] {
+    return this.timeline;
+  }
+
+  public getRecords(): FaultRecord[] {
+    return this.records;
+  }
+
+  // 未発生の故障だけが置き換わり、発生済みの故障は reset まで続く
+  public setTimeline(timeline: FaultEvent[]): void {
+    this.timeline = timeline;
+  }
+
+  public reset(): void {
+    this.triggered = [];
+    this.records = [];
+    this.stuckThrust = {};
+    this.lastReadings = {};
+    this.frozenReadings = {};
+    this.withinSince = {};
+  }
+
+  /**
+   * 時刻 time までに予定された故障を発生させ、回復の記録を更新する。
+   * @param error 目標位置との距離[px]
+   * @param lost 墜落・衝突した
+   */
+  public update(
+    state: PhysicsState,
+    motorThrust: ThrustCommand,
+    error: number,
+    lost: boolean,
+    time: number,
+  ): DroneEvent[] {
+    const events: DroneEvent[] = [];
+
+    this.timeline
+      .filter(
+        event =>
+          event.time <= time + 1e-9 &&
+          !this.triggered.some(item => item.event.id === event.id),
+      )
+      .forEach(event => {
+        this.trigger(event, motorThrust, time);
+        this.records = [
+          ...this.records,
+          {
+            event,
+            errorAtFault: error,
+            peakError: error,
+            peakTilt: Math.abs(wrapAngle(state.rotation)),
+            recoveryTime: null,
+            outcome: 'recovering',
+          },
+        ];
+        this.withinSince[event.id] = null;
+        events.push({
+          type: 'faultInjected',
+          time,
+          faultId: event.id,
+          fault: event.fault.type,
+        });
+      });
+
+    // 回復した後も監視を続け、範囲を外れたら回復待ちへ戻す（墜落した場合は lost）
+    this.records = this.records.map((record): FaultRecord => {
+      if (record.outcome === 'lost') return record;
+      if (lost) return { ...record, outcome: 'lost' };
+      const id = record.event.id;
+      const start = this.triggeredAt(id);
+      const next = {
+        ...record,
+        peakError: Math.max(record.peakError, error),
+        peakTilt: Math.max(
+          record.peakTilt,
+          Math.abs(wrapAngle(state.rotation)),
+        ),
+      };
+      const within =
+        time >= start + developmentTime(record.event.fault) &&
+        error <= record.errorAtFault + RECOVERY_CRITERIA.tolerance &&
+        Math.abs(wrapAngle(state.rotation)) <= RECOVERY_CRITERIA.maxTilt &&
+        Math.abs(state.angularVelocity) <= RECOVERY_CRITERIA.maxAngularVelocity;
+      if (!within) {
+        this.withinSince[id] = null;
+        if (record.outcome === 'recovered') {
+          events.push({ type: 'faultRelapsed', time, faultId: id, error });
+          return { ...next, recoveryTime: null, outcome: 'recovering' };
+        }
+        return next;
+      }
+      if (record.outcome === 'recovered') {
+        return next;
+      }
+      const since = this.withinSince[id] ?? time;
+      this.withinSince[id] = since;
+      if (time - since < RECOVERY_CRITERIA.holdTime) {
+        return next;
+      }
+      const recoveryTime = since - start;
+      events.push({
+        type: 'faultRecovered',
+        time,
+        faultId: id,
+        recoveryTime,
+        peakError: next.peakError,
+      });
+      return { ...next, recoveryTime, outcome: 'recovered' };
+    });
+
+    return events;
+  }
+
+  // 故障を反映した物理パラメータ
+  public applyToParams(params: PhysicsParams, time: number): PhysicsParams {
+    return this.triggered.reduce((current, { event, time: start }) => {
+      const { fault } = event;
+      switch (fault.type) {
+        case 'thrustDegradation': {
+          const key = EFFICIENCY_KEYS[fault.motor];
+          const progress =
+            fault.duration > 0
+              ? Math.min((time - start) / fault.duration, 1)
+              : 1;
+          return {
+            ...current,
+            [key]:
+              current[key] *
+              (1 + (fault.efficiency - 1) * Math.max(progress, 0)),
+          };
+        }
+        case 'payloadDrop': {
+          const limit = current.THRUST_DISTANCE * MAX_CENTER_OF_MASS_RATIO;
+          return {
+            ...current,
+            MASS: Math.max(
+              current.MASS - fault.massLoss,
+              params.MASS * MIN_MASS_RATIO,
+            ),
+            CENTER_OF_MASS_OFFSET: Math.min(
+              Math.max(
+                current.CENTER_OF_MASS_OFFSET + fault.centerOfMassShift,
+                -limit,
+              ),
+              limit,
+            ),
+            // 吊り荷があれば切り離す
+            PAYLOAD_MASS: 0,
+          };
+        }
+        default:
+          return current;
+      }
+    }, params);
+  }
+
+  // 故障を反映したロータの推力
+  public applyToMotors(motorThrust: ThrustCommand): ThrustCommand {
+    return this.triggered.reduce((current, { event }) => {
+      const { fault } = event;
+      switch (fault.type) {
+        case 'motorDead':
+          return { ...current, [fault.motor]: 0 };
+        case 'motorStuck':
+          return {
+            ...current,
+            [fault.motor]:
+              this.stuckThrust[fault.motor] ?? current[fault.motor],
+          };
+        default:
+          return current;
+      }
+    }, motorThrust);
+  }
+
+  // 故障を反映したセンサの出力（固着したセンサは故障前の最後の値を出し続ける）
+  public applyToReadings(readings: SensorReading[]): SensorReading[] {
+    return readings.map(reading => {
+      const frozen = this.frozenReadings[reading.sensor];
+      if (frozen) {
+        return { ...frozen, time: reading.time } as SensorReading;
+      }
+      this.lastReadings[reading.sensor] = reading;
+
+      const bias = this.triggered.reduce(
+        (sum, { event: { fault } }) =>
+          fault.type === 'sensorBias' && fault.sensor === reading.sensor
+            ? sum + fault.bias
+            : sum,
+        0,
+      );
+      if (bias === 0) return reading;
+      switch (reading.sensor) {
+        case 'gyro':
+        case 'barometer':
+          return { ...reading, value: reading.value + bias };
+        case 'accelerometer':
+        case 'positionFix':
+          return {
+            ...reading,
+            value: { x: reading.value.x + bias, y: reading.value.y + bias },
+          };
+      }
+    });
+  }
+
+  private trigger(
+    event: FaultEvent,
+    motorThrust: ThrustCommand,
+    time: number,
+  ): void {
+    this.triggered = [...this.triggered, { event, time }];
+    const { fault } = event;
+    if (fault.type === 'motorStuck') {
+      this.stuckThrust[fault.motor] = motorThrust[fault.motor];
+    }
+    if (fault.type === 'sensorFreeze') {
+      const last = this.lastReadings[fault.sensor];
+      if (last) {
+        this.frozenReadings[fault.sensor] = last;
+      }
+    }
+  }
+
+  private triggeredAt(id: string): number {
+    return this.triggered.find(item => item.event.id === id)?.time ?? 0;
+  }
+}
@@ -0,0 +1,300 @@
+import { DEFAULT_FAULTS, FAULT_LABELS, createFaultEvent } from './Fault';
+import type {
+  Fault,
+  FaultEvent,
+  FaultOutcome,
+  FaultRecord,
+  FaultType,
+  MotorSide,
+} from './Fault';
+import type { SensorId } from './SensorConfig';
+
+interface FaultPanelProps {
+  timeline: FaultEvent[];
+  records: FaultRecord[];
+  time: number; // 現在のシミュレーション時刻
+  onChange: (timeline: FaultEvent[]) => void;
+}
+
+const MOTOR_LABELS: Record<MotorSide, string> = {
+  left: '左',
+  right: '右',
+};
+
+const SENSOR_LABELS: Record<SensorId, string> = {
+  gyro: 'ジャイロ',
+  accelerometer: '加速度計',
+  barometer: '気圧高度計',
+  positionFix: '位置計測',
+};
+
+const OUTCOME_LABELS: Record<FaultOutcome, string> = {
+  recovering: '回復待ち',
+  recovered: '回復',
+  lost: '墜落',
+};
+
+// 新しい故障を現在時刻からどれだけ後に予定するか[s]
+const DEFAULT_LEAD_TIME = 2;
+
+const NumberInput = ({
+  value,
+  step,
+  min,
+  max,
+  onChange,
+}: {
+  value: number;
+  step: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}) => (
+  <input
+    type="number"
+    value={value}
+    step={step}
+    min={min}
+    max={max}
+    onChange={e => {
+      const next = Number(e.target.value);
+      if (Number.isFinite(next)) onChange(next);
+    }}
+    className="w-16 px-1 border rounded"
+  />
+);
+
+// 故障の種類ごとの設定項目
+const FaultFields = ({
+  fault,
+  onChange,
+}: {
+  fault: Fault;
+  onChange: (fault: Fault) => void;
+}) => {
+  switch (fault.type) {
+    case 'motorDead':
+    case 'motorStuck':
+    case 'thrustDegradation':
+      return (
+        <span className="flex items-center gap-1">
+          <select
+            value={fault.motor}
+            onChange={e =>
+              onChange({ ...fault, motor: e.target.value as MotorSide })
+            }
+            className="px-1 border rounded bg-white"
+          >
+            {Object.entries(MOTOR_LABELS).map(([side, label]) => (
+              <option key={side} value={side}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {fault.type === 'thrustDegradation' && (
+            <>
+              <span>効率</span>
+              <NumberInput
+                value={fault.efficiency}
+                step={0.05}
+                min={0}
+                max={1}
+                onChange={efficiency =>
+                  onChange({
+                    ...fault,
+                    efficiency: Math.min(Math.max(efficiency, 0), 1),
+                  })
+                }
+              />
+              <span>所要[s]</span>
+              <NumberInput
+                value={fault.duration}
+                step={0.5}
+                min={0}
+                onChange={duration =>
+                  onChange({ ...fault, duration: Math.max(duration, 0) })
+                }
+              />
+            </>
+          )}
+        </span>
+      );
+    case 'payloadDrop':
+      return (
+        <span className="flex items-center gap-1">
+          <span>質量[kg]</span>
+          <NumberInput
+            value={fault.massLoss}
+            step={0.05}
+            min={0}
+            onChange={massLoss =>
+              onChange({ ...fault, massLoss: Math.max(massLoss, 0) })
+            }
+          />
+          <span>重心[px]</span>
+          <NumberInput
+            value={fault.centerOfMassShift}
+            step={0.01}
+            onChange={centerOfMassShift =>
+              onChange({ ...fault, centerOfMassShift })
+            }
+          />
+        </span>
+      );
+    case 'sensorFreeze':
+    case 'sensorBias':
+      return (
+        <span className="flex items-center gap-1">
+          <select
+            value={fault.sensor}
+            onChange={e =>
+              onChange({ ...fault, sensor: e.target.value as SensorId })
+            }
+            className="px-1 border rounded bg-white"
+          >
+            {Object.entries(SENSOR_LABELS).map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {fault.type === 'sensorBias' && (
+            <>
+              <span>バイアス</span>
+              <NumberInput
+                value={fault.bias}
+                step={0.1}
+                onChange={bias => onChange({ ...fault, bias })}
+              />
+            </>
+          )}
+        </span>
+      );
+  }
+};
+
+/**
+ * 故障のタイムラインの編集と、発生した故障からの回復の記録。
+ * 発生済みの故障は reset まで続くため、編集しても取り消されない。
+ */
+const FaultPanel = ({ timeline, records, time, onChange }: FaultPanelProps) => {
+  const updateEvent = (id: string, patch: Partial<FaultEvent>): void => {
+    onChange(
+      timeline.map(event => (event.id === id ? { ...event, ...patch } : event)),
+    );
+  };
+
+  const triggered = (id: string) =>
+    records.some(record => record.event.id === id);
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">故障の注入</h3>
+        <button
+          className="px-2 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+          onClick={() =>
+            onChange([
+              ...timeline,
+              createFaultEvent(
+                Math.round(time + DEFAULT_LEAD_TIME),
+                DEFAULT_FAULTS.motorDead,
+              ),
+            ])
+          }
+        >
+          故障を追加
+        </button>
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          故障を追加すると、指定した時刻にモータ・機体・センサの故障が発生します
+        </p>
+      ) : (
+        <div className="space-y-2 text-sm text-gray-600">
+          {[...timeline]
+            .sort((a, b) => a.time - b.time)
+            .map(event => (
+              <div
+                key={event.id}
+                className={`flex flex-wrap items-center gap-2 ${
+                  triggered(event.id) ? 'text-gray-400' : ''
+                }`}
+              >
+                <span>時刻[s]</span>
+                <NumberInput
+                  value={event.time}
+                  step={0.5}
+                  min={0}
+                  onChange={value =>
+                    updateEvent(event.id, { time: Math.max(value, 0) })
+                  }
+                />
+                <select
+                  value={event.fault.type}
+                  onChange={e =>
+                    updateEvent(event.id, {
+                      fault: DEFAULT_FAULTS[e.target.value as FaultType],
+                    })
+                  }
+                  className="px-1 border rounded bg-white"
+                >
+                  {Object.entries(FAULT_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <FaultFields
+                  fault={event.fault}
+                  onChange={fault => updateEvent(event.id, { fault })}
+                />
+                <button
+                  className="ml-auto text-xs text-red-500 hover:text-red-700"
+                  onClick={() =>
+                    onChange(timeline.filter(item => item.id !== event.id))
+                  }
+                >
+                  削除
+                </button>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <table className="w-full text-sm text-gray-600">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th>時刻</th>
+              <th>故障</th>
+              <th>最大誤差</th>
+              <th>最大傾き</th>
+              <th>回復時間</th>
+              <th>結果</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(record => (
+              <tr key={record.event.id}>
+                <td>{record.event.time.toFixed(1)}s</td>
+                <td>{FAULT_LABELS[record.event.fault.type]}</td>
+                <td>{record.peakError.toFixed(1)}px</td>
+                <td>{((record.peakTilt * 180) / Math.PI).toFixed(1)}°</td>
+                <td>
+                  {record.recoveryTime !== null
+                    ? `${record.recoveryTime.toFixed(2)}s`
+                    : '-'}
+                </td>
+                <td>{OUTCOME_LABELS[record.outcome]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default FaultPanel;
@@ -0,0 +1,137 @@
+import type { ContactForces } from './ContactModel';
+import type {
+  DroneEvent,
+  LandingStatus,
+  PhysicsParams,
+  PhysicsState,
+} from './types';
+
+// 接地判定のしきい値
+export const LANDING_CRITERIA = {
+  // 降下速度は抗力で終端速度に頭打ちになるため、終端速度に対する比率で判定する
+  softSpeedRatio: 0.5, // これ以下の降下速度なら通常の着陸
+  crashSpeedRatio: 0.8, // これを超えると墜落（自由落下は数 px でこの速度に達する）
+  maxSoftSpeed: 5, // 抗力が小さい機体での上限[px/s]
+  maxCrashSpeed: 15, // 同上[px/s]
+  softAttitude: (10 * Math.PI) / 180, // 通常の着陸とみなす傾き
+  crashAttitude: (30 * Math.PI) / 180, // これを超えると墜落
+  takeoffHeight: 3, // 離陸とみなす地面からの高さ[px]
+  takeoffClearance: 0.5, // 離陸とみなすまでにその高さを保つ時間
+};
+
+// 回転角を -π〜π に正規化
+const wrapAngle = (angle: number): number =>
+  Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// 自由落下の終端速度 √(mg/c)[px/s]（抗力がなければ Infinity）
+const terminalSpeed = (params: PhysicsParams): number =>
+  params.DRAG_COEFFICIENT > 0
+    ? Math.sqrt(
+        ((params.MASS + params.PAYLOAD_MASS) * params.GRAVITY) /
+          params.DRAG_COEFFICIENT,
+      )
+    : Infinity;
+
+// 通常の着陸・墜落とみなす降下速度[px/s]
+const touchdownSpeeds = (
+  params: PhysicsParams,
+): { soft: number; crash: number } => {
+  const terminal = terminalSpeed(params);
+  return {
+    soft: Math.min(
+      LANDING_CRITERIA.softSpeedRatio * terminal,
+      LANDING_CRITERIA.maxSoftSpeed,
+    ),
+    crash: Math.min(
+      LANDING_CRITERIA.crashSpeedRatio * terminal,
+      LANDING_CRITERIA.maxCrashSpeed,
+    ),
+  };
+};
+
+export function classifyTouchdown(
+  impactSpeed: number,
+  attitude: number,
+  params: PhysicsParams,
+): LandingStatus {
+  const tilt = Math.abs(attitude);
+  const speeds = touchdownSpeeds(params);
+  if (impactSpeed > speeds.crash || tilt > LANDING_CRITERIA.crashAttitude) {
+    return 'crashed';
+  }
+  if (impactSpeed > speeds.soft || tilt > LANDING_CRITERIA.softAttitude) {
+    return 'hardLanding';
+  }
+  return 'landed';
+}
+
+/**
+ * 接触状態の変化から着陸・ハードランディング・墜落・離陸を判定する。
+ * 墜落は reset されるまで保持する。
+ */
+export class LandingMonitor {
+  private status: LandingStatus = 'flying';
+  private airborneTime = 0;
+
+  public getStatus(): LandingStatus {
+    return this.status;
+  }
+
+  public reset(status: LandingStatus = 'flying'): void {
+    this.status = status;
+    this.airborneTime = 0;
+  }
+
+  public update(
+    state: PhysicsState,
+    contact: ContactForces,
+    clearance: number,
+    params: PhysicsParams,
+    time: number,
+    dt: number,
+  ): DroneEvent | null {
+    const touching = contact.skidContacts > 0 || contact.hullContact;
+
+    if (this.status === 'crashed') {
+      return null;
+    }
+
+    if (this.status === 'flying') {
+      if (!touching) return null;
+
+      const impactSpeed = Math.max(-state.velocity.y, 0);
+      const attitude = wrapAngle(state.rotation);
+      this.status = contact.hullContact
+        ? 'crashed'
+        : classifyTouchdown(impactSpeed, attitude, params);
+      this.airborneTime = 0;
+      return {
+        type: 'touchdown',
+        time,
+        status: this.status,
+        impactSpeed,
+        attitude,
+      };
+    }
+
+    // 接地中に機体が地面に触れたら転倒
+    if (contact.hullContact) {
+      this.status = 'crashed';
+      return { type: 'tipOver', time };
+    }
+
+    // バウンドでの誤判定を避けるため、一定の高さを一定時間保ってから離陸とする
+    if (touching || clearance < LANDING_CRITERIA.takeoffHeight) {
+      this.airborneTime = 0;
+      return null;
+    }
+
+    this.airborneTime += dt;
+    if (this.airborneTime >= LANDING_CRITERIA.takeoffClearance) {
+      this.status = 'flying';
+      this.airborneTime = 0;
+      return { type: 'takeoff', time };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import type { MotionProfileType } from '../Simulation/MotionProfile';
+import type { Position } from './types';
+
+// ミッションの経由点（位置は画面座標[px]）
+export interface Waypoint {
+  id: string;
+  position: Position;
+  holdTime: number; // 到着後にとどまる時間[s]
+  tolerance: number; // 到着とみなす距離[px]
+  maxSpeed: number; // この経由点へ向かう区間の最大速度[px/s]
+}
+
+export interface Mission {
+  waypoints: Waypoint[];
+  profile: MotionProfileType;
+  loop: boolean; // 最後の経由点の後に最初へ戻る
+}
+
+// moving: 軌道に沿って移動中、arriving: 軌道の終点で許容範囲に入るのを待っている
+export type MissionPhase = 'moving' | 'arriving' | 'holding' | 'complete';
+
+export interface MissionStatus {
+  phase: MissionPhase;
+  waypointIndex: number; // 向かっている（完了時は最後の）経由点
+  progress: number; // 現在の区間の軌道の進み具合（0〜1）
+  holdRemaining: number; // 残りの待機時間[s]
+  lap: number; // 周回するミッションで何周目か（0始まり）
+}
+
+export const DEFAULT_WAYPOINT: Omit<Waypoint, 'id' | 'position'> = {
+  holdTime: 1,
+  tolerance: 5,
+  maxSpeed: 5,
+};
+
+export const DEFAULT_MISSION: Mission = {
+  waypoints: [],
+  profile: 'minimumJerk',
+  loop: false,
+};
+
+let waypointCounter = 0;
+
+export const createWaypoint = (position: Position): Waypoint => ({
+  id: `waypoint-${Date.now()}-${waypointCounter++}`,
+  position,
+  ...DEFAULT_WAYPOINT,
+});
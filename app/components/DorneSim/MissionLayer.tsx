@@ -0,0 +1,101 @@
+import type { Mission, MissionStatus } from './Mission';
+import type { Position } from './types';
+
+interface MissionLayerProps {
+  mission: Mission;
+  status: MissionStatus | null;
+  segmentStart: Position | null; // 実行中の区間の始点
+  reference: Position; // 制御器に与えている目標位置
+}
+
+const toPoints = (points: Position[]): string =>
+  points.map(point => `${point.x},${point.y}`).join(' ');
+
+// 目標位置の十字の大きさ[px]
+const MARKER_SIZE = 6;
+
+/**
+ * 経由点と基準軌道、現在の目標位置を描画する。
+ * 区間の軌道は経由点を結ぶ直線上を進むため、経路は折れ線で表せる。
+ */
+const MissionLayer = ({
+  mission,
+  status,
+  segmentStart,
+  reference,
+}: MissionLayerProps) => {
+  const { waypoints } = mission;
+  const positions = waypoints.map(waypoint => waypoint.position);
+  const current =
+    status && status.phase !== 'complete'
+      ? waypoints[status.waypointIndex]
+      : null;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none">
+      {/* 経由点を結ぶ経路（周回するなら閉じる） */}
+      {positions.length > 1 && (
+        <polyline
+          points={toPoints(
+            mission.loop ? [...positions, positions[0]] : positions,
+          )}
+          fill="none"
+          stroke="#94a3b8"
+          strokeDasharray="4,3"
+        />
+      )}
+
+      {/* 実行中の区間 */}
+      {current && segmentStart && (
+        <line
+          x1={segmentStart.x}
+          y1={segmentStart.y}
+          x2={current.position.x}
+          y2={current.position.y}
+          stroke="#059669"
+          strokeWidth="1.5"
+        />
+      )}
+
+      {/* 経由点（円は到着とみなす範囲） */}
+      {waypoints.map((waypoint, i) => (
+        <g key={waypoint.id}>
+          <circle
+            cx={waypoint.position.x}
+            cy={waypoint.position.y}
+            r={waypoint.tolerance}
+            fill={waypoint === current ? '#a7f3d0' : '#e2e8f0'}
+            fillOpacity="0.6"
+            stroke={waypoint === current ? '#059669' : '#64748b'}
+          />
+          <text
+            x={waypoint.position.x + waypoint.tolerance + 2}
+            y={waypoint.position.y - 2}
+            fontSize="10"
+            fill="#334155"
+          >
+            {i + 1}
+          </text>
+        </g>
+      ))}
+
+      {/* 目標位置 */}
+      <g stroke="#059669" strokeWidth="1.5">
+        <line
+          x1={reference.x - MARKER_SIZE}
+          y1={reference.y}
+          x2={reference.x + MARKER_SIZE}
+          y2={reference.y}
+        />
+        <line
+          x1={reference.x}
+          y1={reference.y - MARKER_SIZE}
+          x2={reference.x}
+          y2={reference.y + MARKER_SIZE}
+        />
+      </g>
+    </svg>
+  );
+};
+
+export default MissionLayer;
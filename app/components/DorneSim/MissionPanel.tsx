@@ -0,0 +1,227 @@
+import { MOTION_PROFILES } from '../Simulation/MotionProfile';
+import type { MotionProfileType } from '../Simulation/MotionProfile';
+import type { Mission, MissionPhase, MissionStatus, Waypoint } from './Mission';
+
+// アリーナをクリックしたときの動作
+export type ArenaClickMode = 'target' | 'waypoint';
+
+interface MissionPanelProps {
+  mission: Mission;
+  status: MissionStatus | null; // 実行中（完了を含む）でなければ null
+  clickMode: ArenaClickMode;
+  onChange: (mission: Mission) => void;
+  onClickModeChange: (mode: ArenaClickMode) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const PHASE_LABELS: Record<MissionPhase, string> = {
+  moving: '移動中',
+  arriving: '到着待ち',
+  holding: '待機中',
+  complete: '完了',
+};
+
+const CLICK_MODES: { id: ArenaClickMode; label: string }[] = [
+  { id: 'target', label: 'クリックで目標位置' },
+  { id: 'waypoint', label: 'クリックで経由点を追加' },
+];
+
+// 経由点ごとに編集する数値
+const WAYPOINT_FIELDS = [
+  { key: 'holdTime', label: '待機[s]', min: 0, step: 0.5 },
+  { key: 'tolerance', label: '許容[px]', min: 1, step: 1 },
+  { key: 'maxSpeed', label: '最大速度[px/s]', min: 0.5, step: 0.5 },
+] as const;
+
+// 経由点ミッションの編集と進行状況（実行中は編集できない）
+const MissionPanel = ({
+  mission,
+  status,
+  clickMode,
+  onChange,
+  onClickModeChange,
+  onStart,
+  onStop,
+}: MissionPanelProps) => {
+  const running = status !== null && status.phase !== 'complete';
+
+  const updateWaypoint = (id: string, patch: Partial<Waypoint>): void => {
+    onChange({
+      ...mission,
+      waypoints: mission.waypoints.map(waypoint =>
+        waypoint.id === id ? { ...waypoint, ...patch } : waypoint,
+      ),
+    });
+  };
+
+  const removeWaypoint = (id: string): void => {
+    onChange({
+      ...mission,
+      waypoints: mission.waypoints.filter(waypoint => waypoint.id !== id),
+    });
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">ミッション</h3>
+        <div className="flex gap-2">
+          {CLICK_MODES.map(mode => (
+            <button
+              key={mode.id}
+              className={`px-2 py-1 text-sm rounded ${
+                clickMode === mode.id
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+              onClick={() => onClickModeChange(mode.id)}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <label className="flex items-center space-x-2">
+          <span>軌道</span>
+          <select
+            value={mission.profile}
+            disabled={running}
+            onChange={e =>
+              onChange({
+                ...mission,
+                profile: e.target.value as MotionProfileType,
+              })
+            }
+            className="px-2 py-1 border rounded bg-white"
+          >
+            {Object.entries(MOTION_PROFILES).map(([type, profile]) => (
+              <option key={type} value={type}>
+                {profile.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={mission.loop}
+            disabled={running}
+            onChange={e => onChange({ ...mission, loop: e.target.checked })}
+          />
+          <span>周回する</span>
+        </label>
+      </div>
+
+      {mission.waypoints.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          「クリックで経由点を追加」を選んでアリーナをクリックすると経由点を追加できます
+        </p>
+      ) : (
+        <table className="w-full text-sm text-gray-600">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th>#</th>
+              <th>位置</th>
+              {WAYPOINT_FIELDS.map(field => (
+                <th key={field.key}>{field.label}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {mission.waypoints.map((waypoint, i) => (
+              <tr
+                key={waypoint.id}
+                className={
+                  running && status.waypointIndex === i ? 'bg-emerald-50' : ''
+                }
+              >
+                <td>{i + 1}</td>
+                <td>
+                  ({waypoint.position.x.toFixed(0)},{' '}
+                  {waypoint.position.y.toFixed(0)})
+                </td>
+                {WAYPOINT_FIELDS.map(({ key, min, step }) => (
+                  <td key={key}>
+                    <input
+                      type="number"
+                      min={min}
+                      step={step}
+                      value={waypoint[key]}
+                      disabled={running}
+                      onChange={e =>
+                        updateWaypoint(waypoint.id, {
+                          [key]: Math.max(Number(e.target.value), min),
+                        })
+                      }
+                      className="w-20 px-1 border rounded"
+                    />
+                  </td>
+                ))}
+                <td>
+                  <button
+                    className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                    disabled={running}
+                    onClick={() => removeWaypoint(waypoint.id)}
+                  >
+                    削除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {running ? (
+          <button
+            className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600"
+            onClick={onStop}
+          >
+            中止
+          </button>
+        ) : (
+          <button
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            disabled={mission.waypoints.length === 0}
+            onClick={onStart}
+          >
+            開始
+          </button>
+        )}
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+          disabled={running}
+          onClick={() => onChange({ ...mission, waypoints: [] })}
+        >
+          経由点をすべて削除
+        </button>
+      </div>
+
+      {/* 進行状況 */}
+      {status && (
+        <div className="space-y-1 text-sm text-gray-600">
+          <div>
+            経由点 {status.waypointIndex + 1} / {mission.waypoints.length}:{' '}
+            {PHASE_LABELS[status.phase]}
+            {status.phase === 'holding' &&
+              `（残り ${status.holdRemaining.toFixed(1)}s）`}
+            {mission.loop && ` ${status.lap + 1}周目`}
+          </div>
+          <div className="relative h-2 bg-gray-200 rounded">
+            <div
+              className="absolute inset-y-0 left-0 bg-emerald-500 rounded"
+              style={{ width: `${status.progress * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MissionPanel;
@@ -0,0 +1,135 @@
+import { Trajectory, staticReference } from './Trajectory';
+import type { TrajectorySegment } from './Trajectory';
+import type { Mission, MissionStatus } from './Mission';
+import type { DroneEvent, Position, TrajectoryReference } from './types';
+
+/**
+ * ミッションの経由点を順にたどり、各時刻の目標を生成する。
+ * 区間の軌道を終えても許容範囲に入るまでは終点で待ち、
+ * 待機中に許容範囲から出た場合は待機時間を数え直す。
+ */
+export class MissionRunner {
+  private mission: Mission;
+  private segment: TrajectorySegment;
+  private segmentStartTime: number;
+  private holdStartTime = 0;
+  private reference: TrajectoryReference;
+  private status: MissionStatus = {
+    phase: 'moving',
+    waypointIndex: 0,
+    progress: 0,
+    holdRemaining: 0,
+    lap: 0,
+  };
+
+  constructor(mission: Mission, start: Position, time: number) {
+    if (mission.waypoints.length === 0) {
+      throw new Error('経由点がないミッションは開始できません');
+    }
+    this.mission = mission;
+    this.segment = this.planSegment(start, 0);
+    this.segmentStartTime = time;
+    this.reference = staticReference(start);
+  }
+
+  public getMission(): Mission {
+    return this.mission;
+  }
+
+  public getStatus(): MissionStatus {
+    return this.status;
+  }
+
+  public getReference(): TrajectoryReference {
+    return this.reference;
+  }
+
+  // 現在の区間の始点（描画用）
+  public getSegmentStart(): Position {
+    return this.segment.start;
+  }
+
+  public update(position: Position, time: number): DroneEvent | null {
+    const { waypoints } = this.mission;
+    const waypoint = waypoints[this.status.waypointIndex];
+    const distance = Math.hypot(
+      position.x - waypoint.position.x,
+      position.y - waypoint.position.y,
+    );
+    const withinTolerance = distance <= waypoint.tolerance;
+
+    switch (this.status.phase) {
+      case 'complete':
+        return null;
+
+      case 'moving': {
+        const elapsed = time - this.segmentStartTime;
+        this.reference = Trajectory.sample(this.segment, elapsed);
+        const { duration } = this.segment;
+        this.status = {
+          ...this.status,
+          progress: duration > 0 ? Math.min(elapsed / duration, 1) : 1,
+        };
+        if (elapsed >= duration) {
+          this.reference = staticReference(waypoint.position);
+          this.status = { ...this.status, phase: 'arriving' };
+        }
+        return null;
+      }
+
+      case 'arriving':
+        if (!withinTolerance) return null;
+        this.holdStartTime = time;
+        this.status = {
+          ...this.status,
+          phase: 'holding',
+          holdRemaining: waypoint.holdTime,
+        };
+        return {
+          type: 'waypointReached',
+          time,
+          index: this.status.waypointIndex,
+        };
+
+      case 'holding': {
+        if (!withinTolerance) {
+          this.status = { ...this.status, phase: 'arriving' };
+          return null;
+        }
+        const holdRemaining = Math.max(
+          waypoint.holdTime - (time - this.holdStartTime),
+          0,
+        );
+        this.status = { ...this.status, holdRemaining };
+        if (holdRemaining > 0) return null;
+
+        const isLast = this.status.waypointIndex === waypoints.length - 1;
+        if (isLast && !this.mission.loop) {
+          this.status = { ...this.status, phase: 'complete' };
+          return { type: 'missionComplete', time };
+        }
+        const next = isLast ? 0 : this.status.waypointIndex + 1;
+        this.segment = this.planSegment(waypoint.position, next);
+        this.segmentStartTime = time;
+        this.status = {
+          phase: 'moving',
+          waypointIndex: next,
+          progress: 0,
+          holdRemaining: 0,
+          lap: isLast ? this.status.lap + 1 : this.status.lap,
+        };
+        return null;
+      }
+    }
+  }
+
+  private planSegment(start: Position, index: number): TrajectorySegment {
+    const waypoint = this.mission.waypoints[index];
+    return Trajectory.planSegment(
+      start,
+      waypoint.position,
+      waypoint.maxSpeed,
+      this.mission.profile,
+    );
+  }
+}
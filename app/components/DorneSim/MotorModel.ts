@@ -0,0 +1,56 @@
+import type { PhysicsParams, ThrustCommand } from './types';
+
+/**
+ * ロータ（モータ＋プロペラ）の一次遅れモデル。
+ * 指令推力に対して、デッドバンド・飽和・スルーレート制限・時定数を適用し
+ * 実際に発生する推力を求める。
+ */
+export const MotorModel = {
+  // 指令値にデッドバンドと上下限を適用した定常推力
+  saturate(command: number, params: PhysicsParams): number {
+    if (command <= params.MOTOR_DEADBAND) {
+      return params.MOTOR_MIN_THRUST;
+    }
+    return Math.min(
+      Math.max(command, params.MOTOR_MIN_THRUST),
+      params.MOTOR_MAX_THRUST,
+    );
+  },
+
+  step(
+    actual: number,
+    command: number,
+    params: PhysicsParams,
+    dt: number,
+  ): number {
+    const target = MotorModel.saturate(command, params);
+
+    // 一次遅れ（厳密離散化）。時定数0なら即応
+    const tau = params.MOTOR_TIME_CONSTANT;
+    let delta =
+      tau > 0 ? (target - actual) * (1 - Math.exp(-dt / tau)) : target - actual;
+
+    // 回転数の変化速度の上限
+    const maxDelta = params.MOTOR_MAX_SLEW_RATE * dt;
+    if (maxDelta > 0) {
+      delta = Math.min(Math.max(delta, -maxDelta), maxDelta);
+    }
+
+    return Math.min(
+      Math.max(actual + delta, params.MOTOR_MIN_THRUST),
+      params.MOTOR_MAX_THRUST,
+    );
+  },
+
+  stepAll(
+    actual: ThrustCommand,
+    command: ThrustCommand,
+    params: PhysicsParams,
+    dt: number,
+  ): ThrustCommand {
+    return {
+      left: MotorModel.step(actual.left, command.left, params, dt),
+      right: MotorModel.step(actual.right, command.right, params, dt),
+    };
+  },
+};
@@ -0,0 +1,158 @@
+import type { PhysicsParams, PhysicsState, Position, Velocity } from './types';
+
+// ケーブルの伸びに対する剛性[N/px]。実質的に伸びない程度に硬くする
+const CABLE_STIFFNESS = 1000;
+// ケーブル軸方向の減衰比（伸縮振動を抑える）
+const CABLE_DAMPING_RATIO = 1.0;
+// 極座標の特異点を避けるためのケーブル長の下限[px]
+const MIN_CABLE_LENGTH = 1;
+// 吊り荷の接地時の摩擦を滑らかにするための基準すべり速度[px/s]
+const FRICTION_SLIP_VELOCITY = 0.5;
+
+// 力（y は上向き正）
+export interface PlanarForce {
+  x: number;
+  y: number;
+}
+
+// 機体と吊り荷の加速度
+export interface PayloadAccelerations {
+  ax: number; // 機体の水平加速度
+  ay: number; // 機体の垂直加速度（上向き正）
+  swing: number; // 振れ角の角加速度
+  stretch: number; // ケーブルの伸びの加速度
+  tension: number; // ケーブル張力（たるんでいれば0）
+}
+
+/**
+ * 機体の重心からケーブルで吊り下げた質点（吊り荷）のモデル。
+ * 吊り荷の位置は機体からの極座標（ケーブル長 + 伸び, 振れ角）で表す。
+ * 振れ角は鉛直下向きから測り、吊り荷が +x 側にあるとき正とする。
+ *
+ * ケーブルは引張のみを伝える硬いばねとして扱うため、吊り荷が接地して
+ * 機体が降下したときなどにはたるむ。吊り点が重心なので機体の回転とは連成しない。
+ */
+export const PayloadModel = {
+  hasPayload(params: PhysicsParams): boolean {
+    return params.PAYLOAD_MASS > 0;
+  },
+
+  // 静止して吊り下げたときのケーブルの伸び[px]（張力が吊り荷の重さと釣り合う）
+  equilibriumStretch(params: PhysicsParams): number {
+    return PayloadModel.hasPayload(params)
+      ? (params.PAYLOAD_MASS * params.GRAVITY) / CABLE_STIFFNESS
+      : 0;
+  },
+
+  // 機体から吊り荷までの距離[px]
+  cableLength(state: PhysicsState, params: PhysicsParams): number {
+    return Math.max(
+      params.PAYLOAD_CABLE_LENGTH + state.payload.stretch,
+      MIN_CABLE_LENGTH,
+    );
+  },
+
+  // 吊り荷の位置（画面座標）
+  position(state: PhysicsState, params: PhysicsParams): Position {
+    const length = PayloadModel.cableLength(state, params);
+    return {
+      x: state.position.x + length * Math.sin(state.payload.angle),
+      y: state.position.y + length * Math.cos(state.payload.angle),
+    };
+  },
+
+  // 吊り荷の速度（vy は上向き正）
+  velocity(state: PhysicsState, params: PhysicsParams): Velocity {
+    const length = PayloadModel.cableLength(state, params);
+    const { angle, angularVelocity, stretchRate } = state.payload;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    return {
+      x: state.velocity.x + stretchRate * sin + length * cos * angularVelocity,
+      y: state.velocity.y - stretchRate * cos + length * sin * angularVelocity,
+    };
+  },
+
+  // 地面からの反力と摩擦（機体と同じ接地パラメータを使う）
+  groundForce(
+    position: Position,
+    velocity: Velocity,
+    params: PhysicsParams,
+    groundY: number,
+  ): PlanarForce {
+    const penetration = position.y - groundY;
+    if (penetration <= 0) {
+      return { x: 0, y: 0 };
+    }
+    const normal = Math.max(
+      params.GROUND_STIFFNESS * penetration -
+        params.GROUND_DAMPING * velocity.y,
+      0,
+    );
+    const friction =
+      -params.GROUND_FRICTION *
+      normal *
+      Math.tanh(velocity.x / FRICTION_SLIP_VELOCITY);
+    return { x: friction, y: normal };
+  },
+
+  /**
+   * 機体と吊り荷の運動方程式を解く。
+   * 両者を質点として張力と減衰力を介して結合し、吊り荷の相対加速度を極座標に直す。
+   * @param bodyForce 機体にかかる重力以外の力
+   * @param payloadForce 吊り荷にかかる重力以外の外力
+   */
+  accelerations(
+    state: PhysicsState,
+    bodyForce: PlanarForce,
+    payloadForce: PlanarForce,
+    params: PhysicsParams,
+  ): PayloadAccelerations {
+    const M = params.MASS;
+    const m = params.PAYLOAD_MASS;
+    const g = params.GRAVITY;
+    const { angle, angularVelocity, stretch, stretchRate } = state.payload;
+    const length = PayloadModel.cableLength(state, params);
+
+    // 機体から吊り荷へ向かう単位ベクトル e_r と振れ角の増える向き e_φ
+    const radial = { x: Math.sin(angle), y: -Math.cos(angle) };
+    const tangential = { x: Math.cos(angle), y: Math.sin(angle) };
+
+    // 張力は伸びているときのみ働き、押す力にはならない
+    const reducedMass = (M * m) / (M + m);
+    const axialDamping =
+      2 * CABLE_DAMPING_RATIO * Math.sqrt(CABLE_STIFFNESS * reducedMass);
+    const tension =
+      stretch > 0
+        ? Math.max(CABLE_STIFFNESS * stretch + axialDamping * stretchRate, 0)
+        : 0;
+
+    // 振れの減衰は吊り荷の相対速度（接線方向）に比例する力として扱う
+    const swingDrag = params.PAYLOAD_DAMPING * length * angularVelocity;
+
+    // 吊り荷へ働く結合力（機体には反作用が働く）
+    const couplingX = -tension * radial.x - swingDrag * tangential.x;
+    const couplingY = -tension * radial.y - swingDrag * tangential.y;
+
+    const ax = (bodyForce.x - couplingX) / M;
+    const ay = (bodyForce.y - couplingY) / M - g;
+    const payloadAx = (payloadForce.x + couplingX) / m;
+    const payloadAy = (payloadForce.y + couplingY) / m - g;
+
+    // 相対加速度を極座標成分へ分解
+    const relativeX = payloadAx - ax;
+    const relativeY = payloadAy - ay;
+    const radialAcceleration = relativeX * radial.x + relativeY * radial.y;
+    const tangentialAcceleration =
+      relativeX * tangential.x + relativeY * tangential.y;
+
+    return {
+      ax,
+      ay,
+      swing:
+        (tangentialAcceleration - 2 * stretchRate * angularVelocity) / length,
+      stretch: radialAcceleration + length * angularVelocity ** 2,
+      tension,
+    };
+  },
+};
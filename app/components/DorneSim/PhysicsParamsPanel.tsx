@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import type { PhysicsParams } from './types';
+import {
+  PHYSICS_PARAM_FIELDS,
+  validatePhysicsParams,
+} from './PhysicsParamsSpec';
+import { VEHICLE_PRESETS, findPreset } from './VehiclePresets';
+
+export type ParamsApplyTiming = 'live' | 'reset';
+
+interface PhysicsParamsPanelProps {
+  params: PhysicsParams;
+  pendingParams: PhysicsParams | null;
+  onApply: (params: PhysicsParams, timing: ParamsApplyTiming) => void;
+}
+
+type Draft = Record<keyof PhysicsParams, string>;
+
+const toDraft = (params: PhysicsParams): Draft =>
+  Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [key, String(value)]),
+  ) as Draft;
+
+const fromDraft = (draft: Draft, base: PhysicsParams): PhysicsParams => {
+  const params = { ...base };
+  for (const field of PHYSICS_PARAM_FIELDS) {
+    const text = draft[field.key].trim();
+    params[field.key] = text === '' ? NaN : Number(text);
+  }
+  return params;
+};
+
+const GROUPS = Array.from(
+  new Set(PHYSICS_PARAM_FIELDS.map(field => field.group)),
+);
+
+// 物理パラメータの編集と機体プリセットの適用
+const PhysicsParamsPanel = ({
+  params,
+  pendingParams,
+  onApply,
+}: PhysicsParamsPanelProps) => {
+  const [draft, setDraft] = useState<Draft>(toDraft(params));
+
+  // 外部でパラメータが変わったら編集内容を合わせる
+  useEffect(() => {
+    setDraft(toDraft(pendingParams ?? params));
+  }, [params, pendingParams]);
+
+  const parsed = fromDraft(draft, params);
+  const errors = validatePhysicsParams(parsed);
+  const isValid = Object.keys(errors).length === 0;
+  const matchedPreset = isValid ? findPreset(parsed) : undefined;
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">機体パラメータ</h3>
+        <select
+          value={matchedPreset?.id ?? ''}
+          onChange={e => {
+            const preset = VEHICLE_PRESETS.find(p => p.id === e.target.value);
+            if (preset) setDraft(toDraft(preset.params));
+          }}
+          className="px-2 py-1 border rounded bg-white text-sm"
+        >
+          <option value="" disabled>
+            カスタム
+          </option>
+          {VEHICLE_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {matchedPreset && (
+        <p className="text-xs text-gray-500">{matchedPreset.description}</p>
+      )}
+
+      {GROUPS.map(group => (
+        <div key={group} className="space-y-2">
+          <h4 className="font-medium text-gray-700">{group}</h4>
+          <div className="grid grid-cols-3 gap-4">
+            {PHYSICS_PARAM_FIELDS.filter(field => field.group === group).map(
+              field => (
+                <div key={field.key}>
+                  <label className="block text-sm text-gray-600">
+                    {field.label}
+                  </label>
+                  <input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={draft[field.key]}
+                    onChange={e =>
+                      setDraft(prev => ({
+                        ...prev,
+                        [field.key]: e.target.value,
+                      }))
+                    }
+                    className={`w-full px-2 py-1 border rounded ${
+                      errors[field.key] ? 'border-red-500' : ''
+                    }`}
+                  />
+                  {errors[field.key] && (
+                    <div className="text-xs text-red-600">
+                      {errors[field.key]}
+                    </div>
+                  )}
+                </div>
+              ),
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-2">
+        <button
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          disabled={!isValid}
+          onClick={() => onApply(parsed, 'live')}
+        >
+          即時適用
+        </button>
+        <button
+          className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+          disabled={!isValid}
+          onClick={() => onApply(parsed, 'reset')}
+        >
+          リセット時に適用
+        </button>
+        {pendingParams && (
+          <span className="text-xs text-gray-500">
+            次回のリセットで適用されます
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhysicsParamsPanel;
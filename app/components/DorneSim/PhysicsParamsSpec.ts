@@ -0,0 +1,261 @@
+import type { PhysicsParams } from './types';
+
+export interface PhysicsParamField {
+  key: keyof PhysicsParams;
+  label: string;
+  group: string;
+  min: number;
+  max: number;
+  step: number;
+  exclusiveMin?: boolean; // min ちょうどを許可しない
+}
+
+// 編集可能なパラメータとその許容範囲
+export const PHYSICS_PARAM_FIELDS: PhysicsParamField[] = [
+  {
+    key: 'MASS',
+    label: '質量',
+    group: '機体',
+    min: 0,
+    max: 10,
+    step: 0.05,
+    exclusiveMin: true,
+  },
+  {
+    key: 'MOMENT_OF_INERTIA',
+    label: '慣性モーメント',
+    group: '機体',
+    min: 0,
+    max: 2,
+    step: 0.01,
+    exclusiveMin: true,
+  },
+  {
+    key: 'THRUST_DISTANCE',
+    label: 'ロータ間距離(半分)',
+    group: '機体',
+    min: 0,
+    max: 1,
+    step: 0.01,
+    exclusiveMin: true,
+  },
+  {
+    key: 'CENTER_OF_MASS_OFFSET',
+    label: '重心オフセット',
+    group: '機体',
+    min: -1,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: 'DRAG_COEFFICIENT',
+    label: '抗力係数',
+    group: '空力',
+    min: 0,
+    max: 2,
+    step: 0.01,
+  },
+  {
+    key: 'ANGULAR_DRAG_COEFFICIENT',
+    label: '回転抗力係数',
+    group: '空力',
+    min: 0,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    key: 'GRAVITY',
+    label: '重力加速度',
+    group: '環境',
+    min: 0,
+    max: 30,
+    step: 0.1,
+  },
+  {
+    key: 'LEFT_THRUST_EFFICIENCY',
+    label: '左推力効率',
+    group: 'ロータ',
+    min: 0,
+    max: 1.5,
+    step: 0.01,
+    exclusiveMin: true,
+  },
+  {
+    key: 'RIGHT_THRUST_EFFICIENCY',
+    label: '右推力効率',
+    group: 'ロータ',
+    min: 0,
+    max: 1.5,
+    step: 0.01,
+    exclusiveMin: true,
+  },
+  {
+    key: 'MOTOR_TIME_CONSTANT',
+    label: '時定数',
+    group: 'ロータ',
+    min: 0,
+    max: 2,
+    step: 0.01,
+  },
+  {
+    key: 'MOTOR_MAX_SLEW_RATE',
+    label: '最大変化率',
+    group: 'ロータ',
+    min: 0,
+    max: 1000,
+    step: 10,
+  },
+  {
+    key: 'MOTOR_MIN_THRUST',
+    label: '最小推力',
+    group: 'ロータ',
+    min: 0,
+    max: 50,
+    step: 0.1,
+  },
+  {
+    key: 'MOTOR_MAX_THRUST',
+    label: '最大推力',
+    group: 'ロータ',
+    min: 0,
+    max: 50,
+    step: 0.1,
+    exclusiveMin: true,
+  },
+  {
+    key: 'MOTOR_DEADBAND',
+    label: 'デッドバンド',
+    group: 'ロータ',
+    min: 0,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    key: 'GROUND_STIFFNESS',
+    label: '地面の剛性',
+    group: '接地',
+    min: 0,
+    max: 50,
+    step: 0.5,
+    exclusiveMin: true,
+  },
+  {
+    key: 'GROUND_DAMPING',
+    label: '地面の減衰',
+    group: '接地',
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    key: 'GROUND_FRICTION',
+    label: '摩擦係数',
+    group: '接地',
+    min: 0,
+    max: 2,
+    step: 0.05,
+  },
+  {
+    key: 'BATTERY_CAPACITY',
+    label: '容量[A·s]',
+    group: 'バッテリー',
+    min: 0,
+    max: 100000,
+    step: 100,
+    exclusiveMin: true,
+  },
+  {
+    key: 'BATTERY_INTERNAL_RESISTANCE',
+    label: '内部抵抗[Ω]',
+    group: 'バッテリー',
+    min: 0,
+    max: 5,
+    step: 0.01,
+    exclusiveMin: true,
+  },
+  {
+    key: 'BATTERY_CELLS',
+    label: 'セル数',
+    group: 'バッテリー',
+    min: 1,
+    max: 12,
+    step: 1,
+  },
+  {
+    key: 'ROTOR_POWER_COEFFICIENT',
+    label: '電力係数',
+    group: 'バッテリー',
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    key: 'PAYLOAD_MASS',
+    label: '質量(0でなし)',
+    group: '吊り荷',
+    min: 0,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    key: 'PAYLOAD_CABLE_LENGTH',
+    label: 'ケーブル長[px]',
+    group: '吊り荷',
+    min: 0,
+    max: 120,
+    step: 1,
+    exclusiveMin: true,
+  },
+  {
+    key: 'PAYLOAD_DAMPING',
+    label: 'ケーブル減衰',
+    group: '吊り荷',
+    min: 0,
+    max: 2,
+    step: 0.01,
+  },
+];
+
+export type PhysicsParamErrors = Partial<Record<keyof PhysicsParams, string>>;
+
+/**
+ * パラメータの妥当性を検証し、不正な項目ごとのエラーメッセージを返す。
+ * 空のオブジェクトなら適用可能。
+ */
+export function validatePhysicsParams(
+  params: PhysicsParams,
+): PhysicsParamErrors {
+  const errors: PhysicsParamErrors = {};
+
+  for (const field of PHYSICS_PARAM_FIELDS) {
+    const value = params[field.key];
+    if (!Number.isFinite(value)) {
+      errors[field.key] = '数値を入力してください';
+    } else if (field.exclusiveMin ? value <= field.min : value < field.min) {
+      errors[field.key] = field.exclusiveMin
+        ? `${field.min}より大きい値にしてください`
+        : `${field.min}以上にしてください`;
+    } else if (value > field.max) {
+      errors[field.key] = `${field.max}以下にしてください`;
+    }
+  }
+
+  // 項目間の整合性
+  if (!errors.BATTERY_CELLS && !Number.isInteger(params.BATTERY_CELLS)) {
+    errors.BATTERY_CELLS = '整数にしてください';
+  }
+  if (
+    !errors.CENTER_OF_MASS_OFFSET &&
+    Math.abs(params.CENTER_OF_MASS_OFFSET) >= params.THRUST_DISTANCE
+  ) {
+    errors.CENTER_OF_MASS_OFFSET = 'ロータ間距離より内側にしてください';
+  }
+  if (
+    !errors.MOTOR_MAX_THRUST &&
+    params.MOTOR_MAX_THRUST <= params.MOTOR_MIN_THRUST
+  ) {
+    errors.MOTOR_MAX_THRUST = '最小推力より大きい値にしてください';
+  }
+
+  return errors;
+}
@@ -0,0 +1,26 @@
+export type SensorId = 'gyro' | 'accelerometer' | 'barometer' | 'positionFix';
+
+// 各センサの誤差と出力タイミング（単位は測定量に従う）
+export interface SensorSpec {
+  noise: number; // 白色ノイズの標準偏差
+  bias: number; // 一定のオフセット
+  rate: number; // 出力周波数[Hz]（シミュレーションの刻みより細かくはならない）
+  latency: number; // 計測してから推定器に届くまでの遅れ[s]
+}
+
+export type EstimatorType = 'truth' | 'complementary' | 'ekf';
+
+// 相補フィルタの時定数（長いほどジャイロ・加速度計の積分を信頼する）
+export interface ComplementaryFilterConfig {
+  attitudeTimeConstant: number; // [s]（位置の時定数の半分より短くはならない）
+  positionTimeConstant: number; // [s]
+}
+
+export interface SensorConfig {
+  seed: number; // センサノイズ用の乱数シード
+  sensors: Record<SensorId, SensorSpec>;
+  estimator: EstimatorType;
+  // 制御器に真値ではなく推定値を渡す
+  controlOnEstimate: boolean;
+  complementary: ComplementaryFilterConfig;
+}
@@ -0,0 +1,163 @@
+import { createRandom, gaussian } from '../Simulation/Random';
+import type { RandomSource } from '../Simulation/Random';
+import { ARENA_BOUNDS } from './DroneModel';
+import type { SensorConfig, SensorId, SensorSpec } from './SensorConfig';
+import type { Acceleration, PhysicsState, Position } from './types';
+
+// time は計測した時刻（推定器に届くのは latency だけ後）
+export type SensorReading =
+  | { sensor: 'gyro'; time: number; value: number } // [rad/s]
+  | { sensor: 'accelerometer'; time: number; value: Acceleration } // 機体座標の比力
+  | { sensor: 'barometer'; time: number; value: number } // 地上高[px]
+  | { sensor: 'positionFix'; time: number; value: Position }; // 画面座標[px]
+
+const SENSOR_IDS: SensorId[] = [
+  'gyro',
+  'accelerometer',
+  'barometer',
+  'positionFix',
+];
+
+/**
+ * 機体座標と世界座標（y 上向き正）の変換。
+ * 機体の右向きは (cosθ, -sinθ)、上向き（推力の向き）は (sinθ, cosθ)。
+ */
+export const SensorModel = {
+  // 加速度計が測る比力（重力を除いた加速度、x: 機体の右, y: 機体の上）
+  specificForce(
+    rotation: number,
+    acceleration: Acceleration,
+    gravity: number,
+  ): Acceleration {
+    const fx = acceleration.x;
+    const fy = acceleration.y + gravity;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    return { x: fx * cos - fy * sin, y: fx * sin + fy * cos };
+  },
+
+  // 機体座標の比力から世界座標の加速度を求める（specificForce の逆変換）
+  worldAcceleration(
+    rotation: number,
+    specificForce: Acceleration,
+    gravity: number,
+  ): Acceleration {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    return {
+      x: specificForce.x * cos + specificForce.y * sin,
+      y: -specificForce.x * sin + specificForce.y * cos - gravity,
+    };
+  },
+};
+
+/**
+ * ジャイロ・加速度計・気圧高度計・位置計測を模擬する。
+ * 各センサは設定した周波数で真値を計測し、バイアスとノイズを加えて遅延後に出力する。
+ */
+export class SensorSuite {
+  private config: SensorConfig;
+  private random: RandomSource;
+  private nextSampleTime: Record<SensorId, number> = {
+    gyro: 0,
+    accelerometer: 0,
+    barometer: 0,
+    positionFix: 0,
+  };
+  // 遅延中の計測値（届く時刻つき）
+  private pending: { arrival: number; reading: SensorReading }[] = [];
+
+  constructor(config: SensorConfig) {
+    this.config = config;
+    this.random = createRandom(config.seed);
+  }
+
+  public setConfig(config: SensorConfig): void {
+    const seedChanged = config.seed !== this.config.seed;
+    this.config = config;
+    if (seedChanged) {
+      this.random = createRandom(config.seed);
+    }
+  }
+
+  public reset(): void {
+    this.random = createRandom(this.config.seed);
+    SENSOR_IDS.forEach(id => {
+      this.nextSampleTime[id] = 0;
+    });
+    this.pending = [];
+  }
+
+  /**
+   * 時刻 time の真値を計測し、この時刻までに届いた計測値を返す。
+   * @param acceleration 世界座標（y 上向き正）の加速度
+   */
+  public update(
+    state: PhysicsState,
+    acceleration: Acceleration,
+    gravity: number,
+    time: number,
+  ): SensorReading[] {
+    SENSOR_IDS.forEach(id => {
+      const spec = this.config.sensors[id];
+      if (spec.rate <= 0 || time < this.nextSampleTime[id] - 1e-9) return;
+      // 周波数が刻みより高い場合は毎ステップ計測する
+      this.nextSampleTime[id] = Math.max(
+        this.nextSampleTime[id] + 1 / spec.rate,
+        time,
+      );
+      this.pending.push({
+        arrival: time + spec.latency,
+        reading: this.measure(id, spec, state, acceleration, gravity, time),
+      });
+    });
+
+    const arrived = this.pending.filter(item => item.arrival <= time + 1e-9);
+    this.pending = this.pending.filter(item => item.arrival > time + 1e-9);
+    return arrived.map(item => item.reading);
+  }
+
+  private measure(
+    id: SensorId,
+    spec: SensorSpec,
+    state: PhysicsState,
+    acceleration: Acceleration,
+    gravity: number,
+    time: number,
+  ): SensorReading {
+    const corrupt = (value: number) =>
+      value + spec.bias + spec.noise * gaussian(this.random);
+
+    switch (id) {
+      case 'gyro':
+        return { sensor: id, time, value: corrupt(state.angularVelocity) };
+      case 'accelerometer': {
+        const force = SensorModel.specificForce(
+          state.rotation,
+          acceleration,
+          gravity,
+        );
+        return {
+          sensor: id,
+          time,
+          value: { x: corrupt(force.x), y: corrupt(force.y) },
+        };
+      }
+      case 'barometer':
+        return {
+          sensor: id,
+          time,
+          value: corrupt(ARENA_BOUNDS.groundY - state.position.y),
+        };
+      case 'positionFix':
+        return {
+          sensor: id,
+          time,
+          value: {
+            x: corrupt(state.position.x),
+            y: corrupt(state.position.y),
+          },
+        };
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { ESTIMATOR_LABELS } from './StateEstimator';
+import type {
+  ComplementaryFilterConfig,
+  EstimatorType,
+  SensorConfig,
+  SensorId,
+  SensorSpec,
+} from './SensorConfig';
+
+interface SensorPanelProps {
+  config: SensorConfig;
+  onChange: (config: SensorConfig) => void;
+}
+
+const SENSOR_LABELS: { id: SensorId; label: string; unit: string }[] = [
+  { id: 'gyro', label: 'ジャイロ', unit: 'rad/s' },
+  { id: 'accelerometer', label: '加速度計', unit: 'px/s²' },
+  { id: 'barometer', label: '気圧高度計', unit: 'px' },
+  { id: 'positionFix', label: '位置計測', unit: 'px' },
+];
+
+// センサごとに編集する数値
+const SPEC_FIELDS = [
+  { key: 'noise', label: 'ノイズσ', min: 0, step: 0.01 },
+  { key: 'bias', label: 'バイアス', step: 0.01 },
+  { key: 'rate', label: '周波数[Hz]', min: 0.5, step: 0.5 },
+  { key: 'latency', label: '遅延[s]', min: 0, step: 0.01 },
+] as const;
+
+const TIME_CONSTANT_FIELDS: {
+  key: keyof ComplementaryFilterConfig;
+  label: string;
+}[] = [
+  { key: 'attitudeTimeConstant', label: '姿勢の時定数' },
+  { key: 'positionTimeConstant', label: '位置の時定数' },
+];
+
+// センサ誤差と推定器の設定
+const SensorPanel = ({ config, onChange }: SensorPanelProps) => {
+  const updateSpec = (id: SensorId, patch: Partial<SensorSpec>): void => {
+    onChange({
+      ...config,
+      sensors: { ...config.sensors, [id]: { ...config.sensors[id], ...patch } },
+    });
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h3 className="text-lg font-medium text-gray-900">センサと状態推定</h3>
+
+      <table className="w-full text-sm text-gray-600">
+        <thead>
+          <tr className="text-xs text-gray-500 text-left">
+            <th>センサ</th>
+            {SPEC_FIELDS.map(field => (
+              <th key={field.key}>{field.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {SENSOR_LABELS.map(({ id, label, unit }) => (
+            <tr key={id}>
+              <td>
+                {label}
+                <span className="ml-1 text-xs text-gray-400">[{unit}]</span>
+              </td>
+              {SPEC_FIELDS.map(field => (
+                <td key={field.key}>
+                  <input
+                    type="number"
+                    min={'min' in field ? field.min : undefined}
+                    step={field.step}
+                    value={config.sensors[id][field.key]}
+                    onChange={e => {
+                      const value = Number(e.target.value);
+                      if (!Number.isFinite(value)) return;
+                      updateSpec(id, {
+                        [field.key]:
+                          'min' in field ? Math.max(value, field.min) : value,
+                      });
+                    }}
+                    className="w-20 px-1 border rounded"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <label className="flex items-center space-x-2">
+          <span>推定器</span>
+          <select
+            value={config.estimator}
+            onChange={e =>
+              onChange({
+                ...config,
+                estimator: e.target.value as EstimatorType,
+              })
+            }
+            className="px-2 py-1 border rounded bg-white"
+          >
+            {Object.entries(ESTIMATOR_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={config.controlOnEstimate}
+            onChange={e =>
+              onChange({ ...config, controlOnEstimate: e.target.checked })
+            }
+          />
+          <span>推定値で制御</span>
+        </label>
+      </div>
+
+      {config.estimator === 'complementary' && (
+        <div className="grid grid-cols-2 gap-4">
+          {TIME_CONSTANT_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm text-gray-600">
+                {label}: {config.complementary[key].toFixed(2)}s
+              </label>
+              <input
+                type="range"
+                min="0.1"
+                max="5"
+                step="0.05"
+                value={config.complementary[key]}
+                onChange={e =>
+                  onChange({
+                    ...config,
+                    complementary: {
+                      ...config.complementary,
+                      [key]: Number(e.target.value),
+                    },
+                  })
+                }
+                className="w-full"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensorPanel;
@@ -0,0 +1,70 @@
+import { ComplementaryFilter } from './ComplementaryFilter';
+import { DroneEKF } from './DroneEKF';
+import type { SensorReading } from './SensorModel';
+import type { EstimatorType, SensorConfig } from './SensorConfig';
+import type { PhysicsParams, PhysicsState, Position, Velocity } from './types';
+
+// 推定値の標準偏差（共分散を持たない推定器では null）
+export interface EstimateDeviation {
+  position: Position;
+  velocity: Velocity;
+  rotation: number;
+}
+
+export interface EstimatedState {
+  position: Position;
+  velocity: Velocity; // y 上向き正
+  rotation: number;
+  angularVelocity: number;
+  deviation: EstimateDeviation | null;
+}
+
+/**
+ * センサの計測値から機体の状態を推定する。
+ * reset で既知の初期状態から始め、update は毎ステップ届いた計測値とともに呼ばれる。
+ */
+export interface StateEstimator {
+  reset(initial: PhysicsState): void;
+  update(readings: SensorReading[], params: PhysicsParams, dt: number): void;
+  getEstimate(): EstimatedState;
+}
+
+export const ESTIMATOR_LABELS: Record<EstimatorType, string> = {
+  truth: '真値（推定なし）',
+  complementary: '相補フィルタ',
+  ekf: '拡張カルマンフィルタ',
+};
+
+// 真値を推定値として扱う（センサを使わない）
+export const truthEstimate = (state: PhysicsState): EstimatedState => ({
+  position: state.position,
+  velocity: state.velocity,
+  rotation: state.rotation,
+  angularVelocity: state.angularVelocity,
+  deviation: null,
+});
+
+// 推定値で真値を置き換えた状態（吊り荷はセンサを模擬しないため真値のまま）
+export const applyEstimate = (
+  state: PhysicsState,
+  estimate: EstimatedState,
+): PhysicsState => ({
+  ...state,
+  position: estimate.position,
+  velocity: estimate.velocity,
+  rotation: estimate.rotation,
+  angularVelocity: estimate.angularVelocity,
+});
+
+export const createEstimator = (
+  config: SensorConfig,
+): StateEstimator | null => {
+  switch (config.estimator) {
+    case 'truth':
+      return null;
+    case 'complementary':
+      return new ComplementaryFilter(config.complementary, config.sensors);
+    case 'ekf':
+      return new DroneEKF(config.sensors);
+  }
+};
@@ -0,0 +1,57 @@
+import {
+  MOTION_PROFILES,
+  sampleMotionProfile,
+} from '../Simulation/MotionProfile';
+import type { MotionProfileType } from '../Simulation/MotionProfile';
+import type { Position, TrajectoryReference } from './types';
+
+// 2点間を静止から静止まで直線で結ぶ区間
+export interface TrajectorySegment {
+  start: Position;
+  end: Position;
+  duration: number; // [s]
+  profile: MotionProfileType;
+}
+
+// 静止した目標（速度・加速度のフィードフォワードなし）
+export const staticReference = (position: Position): TrajectoryReference => ({
+  position,
+  velocity: { x: 0, y: 0 },
+  acceleration: { x: 0, y: 0 },
+});
+
+export const Trajectory = {
+  // 区間の途中の最大速度が maxSpeed となる所要時間で計画する
+  planSegment(
+    start: Position,
+    end: Position,
+    maxSpeed: number,
+    profile: MotionProfileType,
+  ): TrajectorySegment {
+    const distance = Math.hypot(end.x - start.x, end.y - start.y);
+    const duration =
+      maxSpeed > 0
+        ? (MOTION_PROFILES[profile].peakVelocity * distance) / maxSpeed
+        : 0;
+    return { start, end, duration, profile };
+  },
+
+  // 区間の開始から elapsed 秒後の目標（区間の前後は端点で静止）
+  sample(segment: TrajectorySegment, elapsed: number): TrajectoryReference {
+    const { start, end, duration, profile } = segment;
+    if (duration <= 0) {
+      return staticReference(elapsed > 0 ? end : start);
+    }
+    const s = sampleMotionProfile(profile, elapsed / duration);
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    // 正規化時間の微分を実時間の微分へ換算し、速度・加速度の y は上向き正にする
+    const velocityScale = s.velocity / duration;
+    const accelerationScale = s.acceleration / (duration * duration);
+    return {
+      position: { x: start.x + dx * s.position, y: start.y + dy * s.position },
+      velocity: { x: dx * velocityScale, y: -dy * velocityScale },
+      acceleration: { x: dx * accelerationScale, y: -dy * accelerationScale },
+    };
+  },
+};
@@ -0,0 +1,83 @@
+import type { PhysicsParams } from './types';
+import { DEFAULT_PHYSICS_PARAMS } from './defaults';
+
+export interface VehiclePreset {
+  id: string;
+  name: string;
+  description: string;
+  params: PhysicsParams;
+}
+
+// 同じゲインの頑健性を比較するための代表的な機体
+export const VEHICLE_PRESETS: VehiclePreset[] = [
+  {
+    id: 'standard',
+    name: '標準機',
+    description: '既定のパラメータ',
+    params: DEFAULT_PHYSICS_PARAMS,
+  },
+  {
+    id: 'lightRacer',
+    name: '軽量レーサー',
+    description: '軽く俊敏で、ロータの応答が速い',
+    params: {
+      ...DEFAULT_PHYSICS_PARAMS,
+      MASS: 0.7,
+      MOMENT_OF_INERTIA: 0.05,
+      DRAG_COEFFICIENT: 0.05,
+      ANGULAR_DRAG_COEFFICIENT: 0.3,
+      THRUST_DISTANCE: 0.3,
+      MOTOR_TIME_CONSTANT: 0.02,
+      MOTOR_MAX_SLEW_RATE: 400,
+      BATTERY_CAPACITY: 1800,
+    },
+  },
+  {
+    id: 'heavyLifter',
+    name: '重量物運搬機',
+    description: '重く慣性が大きく、ロータの応答が遅い',
+    params: {
+      ...DEFAULT_PHYSICS_PARAMS,
+      MASS: 1.3,
+      MOMENT_OF_INERTIA: 0.2,
+      DRAG_COEFFICIENT: 0.15,
+      ANGULAR_DRAG_COEFFICIENT: 0.8,
+      THRUST_DISTANCE: 0.5,
+      MOTOR_TIME_CONSTANT: 0.12,
+      MOTOR_MAX_SLEW_RATE: 100,
+      MOTOR_MAX_THRUST: 14,
+      BATTERY_CAPACITY: 7200,
+      BATTERY_CELLS: 4,
+    },
+  },
+  {
+    id: 'damaged',
+    name: '損傷機（非対称）',
+    description: '右ロータの効率低下と重心のずれ',
+    params: {
+      ...DEFAULT_PHYSICS_PARAMS,
+      CENTER_OF_MASS_OFFSET: 0.05,
+      LEFT_THRUST_EFFICIENCY: 1.0,
+      RIGHT_THRUST_EFFICIENCY: 0.8,
+    },
+  },
+  {
+    id: 'delivery',
+    name: '配送機（吊り荷あり）',
+    description: 'ケーブルで荷物を吊り下げている',
+    params: {
+      ...DEFAULT_PHYSICS_PARAMS,
+      PAYLOAD_MASS: 0.3,
+      PAYLOAD_CABLE_LENGTH: 40,
+    },
+  },
+];
+
+// 現在のパラメータと一致するプリセット（なければ undefined）
+export function findPreset(params: PhysicsParams): VehiclePreset | undefined {
+  return VEHICLE_PRESETS.find(preset =>
+    (Object.keys(preset.params) as (keyof PhysicsParams)[]).every(
+      key => preset.params[key] === params[key],
+    ),
+  );
+}
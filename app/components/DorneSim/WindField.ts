@@ -0,0 +1,144 @@
+import { gaussian, uniformSigned } from '../Simulation/Random';
+import type { RandomSource } from '../Simulation/Random';
+import type { WindDisturbance, WindZone } from './DisturbanceConfig';
+import type { Velocity } from './types';
+
+// Dryden フィルタの対気速度が小さすぎると時定数が発散するための下限[px/s]
+const MIN_AIRSPEED = 1;
+
+/**
+ * Dryden 乱流モデル。白色雑音を成形フィルタに通して色付き雑音を作る。
+ *   水平成分: H_u(s) = σ √(2L/πV) / (1 + (L/V)s)
+ *   鉛直成分: H_w(s) = σ √(L/πV) (1 + √3(L/V)s) / (1 + (L/V)s)²
+ * 入力雑音の強度は出力の分散が σ² になるよう π とする。
+ */
+export class DrydenTurbulence {
+  private u = 0;
+  private w1 = 0;
+  private w2 = 0;
+
+  public reset(): void {
+    this.u = 0;
+    this.w1 = 0;
+    this.w2 = 0;
+  }
+
+  public step(
+    intensity: number,
+    lengthScale: number,
+    airspeed: number,
+    dt: number,
+    random: RandomSource,
+  ): Velocity {
+    const speed = Math.max(airspeed, MIN_AIRSPEED);
+    const T = lengthScale / speed;
+    const noiseScale = Math.sqrt(Math.PI / dt);
+
+    // 水平成分（1次遅れ）
+    const ku = intensity * Math.sqrt((2 * lengthScale) / (Math.PI * speed));
+    this.u += ((-this.u + ku * gaussian(random) * noiseScale) / T) * dt;
+
+    // 鉛直成分（2次、可制御正準形）
+    const kw = intensity * Math.sqrt(lengthScale / (Math.PI * speed));
+    const dw1 = this.w2;
+    const dw2 =
+      -this.w1 / (T * T) - (2 * this.w2) / T + gaussian(random) * noiseScale;
+    this.w1 += dw1 * dt;
+    this.w2 += dw2 * dt;
+    const w = (kw / (T * T)) * this.w1 + ((kw * Math.sqrt(3)) / T) * this.w2;
+
+    return { x: this.u, y: w };
+  }
+}
+
+// 点が風域の内側にあるか
+export function isInsideZone(zone: WindZone, x: number, y: number): boolean {
+  return (
+    x >= zone.x &&
+    x <= zone.x + zone.width &&
+    y >= zone.y &&
+    y <= zone.y + zone.height
+  );
+}
+
+/**
+ * 位置と時刻に依存する2次元の風速場。
+ * 平均風（地面近くのシアを含む）・突風・風域・乱流を合成する。
+ */
+export class WindField {
+  private turbulence = new DrydenTurbulence();
+
+  public reset(): void {
+    this.turbulence.reset();
+  }
+
+  // 乱流を含まない平均風速
+  public meanWind(
+    config: WindDisturbance,
+    x: number,
+    y: number,
+    groundY: number,
+    time: number,
+  ): Velocity {
+    let windX = config.baseSpeed;
+
+    // べき法則による地面近くの風速低下
+    if (config.shear.enabled) {
+      const height = Math.max(groundY - y, 0);
+      windX *= Math.pow(
+        height / Math.max(config.shear.referenceHeight, 1),
+        config.shear.exponent,
+      );
+    }
+
+    const gustPhase = 2 * Math.PI * config.gustFrequency * time;
+    windX += Math.sin(gustPhase) * config.gustMagnitude;
+
+    let windY = config.verticalSpeed;
+    for (const zone of config.zones) {
+      if (isInsideZone(zone, x, y)) {
+        windX += zone.windX;
+        windY += zone.windY;
+      }
+    }
+    return { x: windX, y: windY };
+  }
+
+  /**
+   * 現在位置での風速を1ステップ分進めて求める。
+   * @param velocity 機体速度（対気速度の計算に使う）
+   */
+  public sample(
+    config: WindDisturbance,
+    x: number,
+    y: number,
+    velocity: Velocity,
+    groundY: number,
+    time: number,
+    dt: number,
+    random: RandomSource,
+  ): Velocity {
+    if (!config.enabled) {
+      return { x: 0, y: 0 };
+    }
+
+    const mean = this.meanWind(config, x, y, groundY, time);
+
+    if (config.turbulenceModel === 'white') {
+      return {
+        x: mean.x + uniformSigned(random) * config.turbulenceIntensity,
+        y: mean.y,
+      };
+    }
+
+    const airspeed = Math.hypot(velocity.x - mean.x, velocity.y - mean.y);
+    const turbulence = this.turbulence.step(
+      config.turbulenceIntensity,
+      config.turbulenceLengthScale,
+      airspeed,
+      dt,
+      random,
+    );
+    return { x: mean.x + turbulence.x, y: mean.y + turbulence.y };
+  }
+}
@@ -0,0 +1,75 @@
+import type { WindZone } from './DisturbanceConfig';
+
+interface WindZoneEditorProps {
+  zones: WindZone[];
+  onChange: (zones: WindZone[]) => void;
+}
+
+const ZONE_FIELDS: { key: Exclude<keyof WindZone, 'id'>; label: string }[] = [
+  { key: 'x', label: 'x' },
+  { key: 'y', label: 'y' },
+  { key: 'width', label: '幅' },
+  { key: 'height', label: '高さ' },
+  { key: 'windX', label: '風速x' },
+  { key: 'windY', label: '風速y' },
+];
+
+let zoneCounter = 0;
+
+const createZone = (): WindZone => ({
+  id: `zone-${Date.now()}-${zoneCounter++}`,
+  x: 250,
+  y: 100,
+  width: 100,
+  height: 150,
+  windX: 0,
+  windY: 5,
+});
+
+// 局所的な風域（上昇気流・横風など）の一覧編集
+const WindZoneEditor = ({ zones, onChange }: WindZoneEditorProps) => {
+  const updateZone = (id: string, patch: Partial<WindZone>) => {
+    onChange(
+      zones.map(zone => (zone.id === id ? { ...zone, ...patch } : zone)),
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">風域</span>
+        <button
+          className="px-2 py-0.5 text-xs bg-gray-500 text-white rounded hover:bg-gray-600"
+          onClick={() => onChange([...zones, createZone()])}
+        >
+          追加
+        </button>
+      </div>
+      {zones.map(zone => (
+        <div key={zone.id} className="flex items-end space-x-1 text-xs">
+          {ZONE_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col">
+              <span className="text-gray-500">{field.label}</span>
+              <input
+                type="number"
+                value={zone[field.key]}
+                onChange={e =>
+                  updateZone(zone.id, { [field.key]: Number(e.target.value) })
+                }
+                className="w-16 px-1 py-0.5 border rounded"
+              />
+            </label>
+          ))}
+          <button
+            className="px-2 py-0.5 bg-red-500 text-white rounded hover:bg-red-600"
+            onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+          >
+            削除
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WindZoneEditor;
@@ -0,0 +1,153 @@
+import type { PhysicsParams, PhysicsState, PIDConfig } from './types';
+import type { DisturbanceConfig } from './DisturbanceConfig';
+import type { SensorConfig } from './SensorConfig';
+import type { EnvironmentMap } from './Environment';
+import { DEFAULT_PID_OPTIONS } from '../Simulation/PIDController';
+
+export const DEFAULT_PHYSICS_PARAMS: PhysicsParams = {
+  GRAVITY: 9.8,
+  MASS: 1.0,
+  MOMENT_OF_INERTIA: 0.1,
+  DRAG_COEFFICIENT: 0.1,
+  ANGULAR_DRAG_COEFFICIENT: 0.5,
+  THRUST_DISTANCE: 0.4,
+  CENTER_OF_MASS_OFFSET: 0.0,
+  LEFT_THRUST_EFFICIENCY: 1.0,
+  RIGHT_THRUST_EFFICIENCY: 1.0,
+  MOTOR_TIME_CONSTANT: 0.05,
+  MOTOR_MAX_SLEW_RATE: 200,
+  MOTOR_MIN_THRUST: 0.0,
+  MOTOR_MAX_THRUST: 10.0,
+  MOTOR_DEADBAND: 0.0,
+  GROUND_STIFFNESS: 10.0,
+  GROUND_DAMPING: 2.5,
+  GROUND_FRICTION: 0.6,
+  BATTERY_CAPACITY: 3600,
+  BATTERY_INTERNAL_RESISTANCE: 0.1,
+  BATTERY_CELLS: 3,
+  ROTOR_POWER_COEFFICIENT: 1.0,
+  PAYLOAD_MASS: 0.0,
+  PAYLOAD_CABLE_LENGTH: 40,
+  PAYLOAD_DAMPING: 0.05,
+};
+
+export const DEFAULT_DISTURBANCE_CONFIG: DisturbanceConfig = {
+  seed: 12345,
+  wind: {
+    enabled: true,
+    baseSpeed: 0.0, //0.5,
+    verticalSpeed: 0.0,
+    gustFrequency: 0.0, //0.2,
+    gustMagnitude: 0.0, //1.0,
+    turbulenceIntensity: 0.0, //0.1
+    turbulenceModel: 'dryden',
+    turbulenceLengthScale: 100,
+    shear: {
+      enabled: false,
+      referenceHeight: 150,
+      exponent: 0.2,
+    },
+    zones: [],
+  },
+  thrust: {
+    enabled: true,
+    magnitude: 0.0,
+    frequency: 10,
+  },
+};
+
+export const DEFAULT_SENSOR_CONFIG: SensorConfig = {
+  seed: 54321,
+  sensors: {
+    gyro: { noise: 0.02, bias: 0.01, rate: 200, latency: 0 }, // [rad/s]
+    accelerometer: { noise: 0.3, bias: 0, rate: 200, latency: 0 }, // [px/s²]
+    barometer: { noise: 1, bias: 3, rate: 20, latency: 0.02 }, // 地上高[px]
+    positionFix: { noise: 2, bias: 0, rate: 2, latency: 0.1 }, // [px]
+  },
+  estimator: 'ekf',
+  controlOnEstimate: false,
+  complementary: {
+    attitudeTimeConstant: 1,
+    positionTimeConstant: 2,
+  },
+};
+
+export const DEFAULT_PID_CONFIG: PIDConfig = {
+  // 位置の偏差から目標速度を決める
+  position: {
+    horizontal: {
+      kp: 1.0,
+      ki: 0.0,
+      kd: 0.0,
+    },
+    vertical: {
+      kp: 1.5,
+      ki: 0.0,
+      kd: 0.0,
+    },
+  },
+  // 速度の偏差から目標姿勢角（水平）・推力の共通分（垂直）を決める
+  velocity: {
+    horizontal: {
+      kp: 0.2,
+      ki: 0.05,
+      kd: 0.0,
+    },
+    vertical: {
+      kp: 1.0,
+      ki: 0.5,
+      kd: 0.0,
+    },
+  },
+  attitude: {
+    kp: 8.0, // 姿勢制御はより高いゲインと速い応答
+    ki: 0.0,
+    kd: 0.0,
+  },
+  // 減衰は角速度ループが受け持つ
+  rate: {
+    kp: 1.0,
+    ki: 0.0,
+    kd: 0.0,
+  },
+  loops: {
+    position: { enabled: true, rate: 50 },
+    velocity: { enabled: true, rate: 100 },
+    attitude: { enabled: true, rate: 200 },
+    rate: { enabled: true, rate: 200 },
+  },
+  limits: {
+    maxVelocity: 10,
+    maxTilt: Math.PI / 6,
+    maxBodyRate: 4,
+  },
+  swingDamping: {
+    kp: 0.0,
+    kd: 0.0,
+  },
+  options: {
+    ...DEFAULT_PID_OPTIONS,
+    derivativeFilter: 50,
+    derivativeOnMeasurement: true,
+  },
+};
+
+export const INITIAL_PHYSICS_STATE: PhysicsState = {
+  position: { x: 100, y: 150 },
+  velocity: { x: 0, y: 0 },
+  rotation: 0,
+  angularVelocity: 0,
+  payload: { angle: 0, angularVelocity: 0, stretch: 0, stretchRate: 0 },
+};
+
+// 手動操作時の初期推力（ホバリング相当）
+export const DEFAULT_MANUAL_THRUST = { left: 4.9, right: 4.9 };
+
+// 障害物のない環境
+export const DEFAULT_ENVIRONMENT: EnvironmentMap = {
+  name: '空のアリーナ',
+  ceilingY: null,
+  obstacles: [],
+  noFlyZones: [],
+  landingPads: [],
+};
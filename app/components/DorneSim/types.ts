@@ -1,3 +1,8 @@
+import type { PIDGains, PIDOptions } from '../Simulation/PIDController';
+import type { FaultType } from './Fault';
+
+export type { PIDGains };
+
 export interface Position {
   x: number;
   y: number;
@@ -8,11 +13,38 @@ export interface Velocity {
   y: number;
 }
 
+export interface Acceleration {
+  x: number;
+  y: number;
+}
+
+// 制御器に与える時変の目標。速度・加速度は PhysicsState と同じく y 上向き正
+export interface TrajectoryReference {
+  position: Position;
+  velocity: Velocity;
+  acceleration: Acceleration;
+}
+
+// 吊り荷の状態（振れ角は鉛直下向きから測り、吊り荷が +x 側で正）
+export interface PayloadState {
+  angle: number;
+  angularVelocity: number;
+  stretch: number; // ケーブル長からの伸び[px]（負ならたるみ）
+  stretchRate: number;
+}
+
 export interface PhysicsState {
   position: Position;
   velocity: Velocity;
   rotation: number;
   angularVelocity: number;
+  payload: PayloadState;
+}
+
+// 左右ロータへの推力指令
+export interface ThrustCommand {
+  left: number;
+  right: number;
 }
 
 export interface PhysicsParams {
@@ -25,26 +57,97 @@ export interface PhysicsParams {
   CENTER_OF_MASS_OFFSET: number;
   LEFT_THRUST_EFFICIENCY: number;
   RIGHT_THRUST_EFFICIENCY: number;
+  // ロータの応答特性
+  MOTOR_TIME_CONSTANT: number;
+  MOTOR_MAX_SLEW_RATE: number; // 0以下で制限なし
+  MOTOR_MIN_THRUST: number;
+  MOTOR_MAX_THRUST: number;
+  MOTOR_DEADBAND: number;
+  // 地面との接触
+  GROUND_STIFFNESS: number;
+  GROUND_DAMPING: number;
+  GROUND_FRICTION: number;
+  // バッテリーと消費電力
+  BATTERY_CAPACITY: number; // [A·s]
+  BATTERY_INTERNAL_RESISTANCE: number; // [Ω]
+  BATTERY_CELLS: number;
+  ROTOR_POWER_COEFFICIENT: number; // 推力^1.5 あたりの電力
+  // 吊り荷（質量0で吊り荷なし）
+  PAYLOAD_MASS: number;
+  PAYLOAD_CABLE_LENGTH: number; // [px]
+  PAYLOAD_DAMPING: number;
 }
 
 // types.ts に追加
+// カスケードの各ループ（外側から順に 位置 → 速度 → 姿勢 → 角速度）
+export type CascadeLoop = 'position' | 'velocity' | 'attitude' | 'rate';
+
+export interface CascadeLoopSettings {
+  enabled: boolean; // 無効なループは飛ばし、外側の出力を次の有効なループへ渡す
+  rate: number; // 実行周波数[Hz]（実行の間は出力を保持する）
+}
+
 export interface PIDConfig {
-  enabled: boolean;
-  attitude: {
+  position: {
+    horizontal: PIDGains;
+    vertical: PIDGains;
+  };
+  velocity: {
+    horizontal: PIDGains;
+    vertical: PIDGains;
+  };
+  attitude: PIDGains;
+  // 機体の角速度
+  rate: PIDGains;
+  loops: Record<CascadeLoop, CascadeLoopSettings>;
+  // 外側のループが内側へ渡す目標値の上限
+  limits: {
+    maxVelocity: number; // [px/s]
+    maxTilt: number; // [rad]
+    maxBodyRate: number; // [rad/s]
+  };
+  // 吊り荷の振れ角・角速度を目標姿勢角へ加える揺れ止め
+  swingDamping: {
     kp: number;
-    ki: number;
     kd: number;
   };
-  position: {
-    horizontal: {
-      kp: number;
-      ki: number;
-      kd: number;
-    };
-    vertical: {
-      kp: number;
-      ki: number;
-      kd: number;
-    };
-  };
-}
\ No newline at end of file
+  // 全ループ共通の微分・積分の扱い
+  options: PIDOptions;
+}
+
+export type LandingStatus = 'flying' | 'landed' | 'hardLanding' | 'crashed';
+
+// シミュレーションから通知されるイベント
+export type DroneEvent =
+  | {
+      type: 'touchdown';
+      time: number;
+      status: LandingStatus;
+      impactSpeed: number; // 接地時の降下速度
+      attitude: number; // 接地時の傾き[rad]
+      padId?: string; // 着陸パッド上に接地した場合のパッド
+      padOffset?: number; // パッド中心からの水平方向のずれ[px]
+    }
+  | { type: 'tipOver'; time: number }
+  | { type: 'lowBattery'; time: number; stateOfCharge: number }
+  | { type: 'batteryDepleted'; time: number }
+  | { type: 'takeoff'; time: number }
+  | {
+      type: 'collision';
+      time: number;
+      target: 'obstacle' | 'ceiling';
+      obstacleId?: string;
+    }
+  | { type: 'noFlyEntry'; time: number; zoneId: string }
+  | { type: 'waypointReached'; time: number; index: number }
+  | { type: 'missionComplete'; time: number }
+  | { type: 'faultInjected'; time: number; faultId: string; fault: FaultType }
+  | {
+      type: 'faultRecovered';
+      time: number;
+      faultId: string;
+      recoveryTime: number; // 故障から回復までの時間[s]
+      peakError: number; // 故障後の目標位置との最大距離[px]
+    }
+  // 回復とみなした後に誤差・姿勢が判定範囲から外れた
+  | { type: 'faultRelapsed'; time: number; faultId: string; error: number };
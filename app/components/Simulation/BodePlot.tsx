@@ -0,0 +1,186 @@
+import type { BodePoint, StabilityMargins } from './FrequencyResponse';
+
+// 重ねて描く周波数応答（測定値は点で描く）
+export interface BodeSeries {
+  id: string;
+  label: string;
+  color: string;
+  points: BodePoint[];
+  markers?: boolean;
+}
+
+interface BodePlotProps {
+  series: BodeSeries[];
+  margins: StabilityMargins | null;
+  minFrequency: number; // 横軸の範囲[rad/s]
+  maxFrequency: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+const MARGIN = 4;
+
+// 縦軸の範囲（値の範囲を step の倍数へ広げ、基準線 reference が入るようにする）
+const axisRange = (values: number[], reference: number, step: number) => {
+  const finite = values.filter(Number.isFinite);
+  const min = Math.min(...finite, reference);
+  const max = Math.max(...finite, reference);
+  return {
+    low: Math.floor(min / step) * step,
+    high: Math.max(
+      Math.ceil(max / step) * step,
+      Math.floor(min / step) * step + step,
+    ),
+  };
+};
+
+/**
+ * ゲイン[dB]と位相[deg]を対数の周波数軸で上下に並べる。
+ * 0 dB と -180° の線、ゲイン交差・位相交差の周波数に縦線を引く。
+ */
+const BodePlot = ({
+  series,
+  margins,
+  minFrequency,
+  maxFrequency,
+}: BodePlotProps) => {
+  const toX = (frequency: number) =>
+    (Math.log(frequency / minFrequency) /
+      Math.log(maxFrequency / minFrequency)) *
+    WIDTH;
+  const decades = Array.from(
+    {
+      length:
+        Math.floor(Math.log10(maxFrequency)) -
+        Math.ceil(Math.log10(minFrequency)) +
+        1,
+    },
+    (_, i) => 10 ** (Math.ceil(Math.log10(minFrequency)) + i),
+  );
+  const crossovers = [margins?.gainCrossover, margins?.phaseCrossover].filter(
+    (frequency): frequency is number => frequency != null,
+  );
+
+  const panel = (
+    label: string,
+    value: (point: BodePoint) => number,
+    reference: number,
+    step: number,
+  ) => {
+    const { low, high } = axisRange(
+      series.flatMap(item => item.points.map(value)),
+      reference,
+      step,
+    );
+    const toY = (y: number) =>
+      HEIGHT - MARGIN - ((y - low) / (high - low)) * (HEIGHT - 2 * MARGIN);
+    return (
+      <div>
+        <div className="text-xs text-gray-500">{label}</div>
+        <div className="flex">
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-24 bg-gray-50 rounded"
+          >
+            {decades.map(frequency => (
+              <line
+                key={frequency}
+                x1={toX(frequency)}
+                y1={0}
+                x2={toX(frequency)}
+                y2={HEIGHT}
+                stroke="rgb(229 231 235)"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            <line
+              x1={0}
+              y1={toY(reference)}
+              x2={WIDTH}
+              y2={toY(reference)}
+              stroke="rgb(156 163 175)"
+              vectorEffect="non-scaling-stroke"
+            />
+            {crossovers.map(frequency => (
+              <line
+                key={frequency}
+                x1={toX(frequency)}
+                y1={0}
+                x2={toX(frequency)}
+                y2={HEIGHT}
+                stroke="rgb(107 114 128)"
+                strokeDasharray="2,2"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {series.map(item =>
+              item.markers ? (
+                // 縦横の拡大率が異なるため、円ではなく長さ 0 の線の丸い端で点を描く
+                item.points.map(point => (
+                  <path
+                    key={`${item.id}-${point.frequency}`}
+                    d={`M ${toX(point.frequency)} ${toY(value(point))} h 0`}
+                    stroke={item.color}
+                    strokeWidth={6}
+                    strokeLinecap="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))
+              ) : (
+                <polyline
+                  key={item.id}
+                  points={item.points
+                    .filter(point => Number.isFinite(value(point)))
+                    .map(
+                      point =>
+                        `${toX(point.frequency).toFixed(1)},${toY(
+                          value(point),
+                        ).toFixed(1)}`,
+                    )
+                    .join(' ')}
+                  fill="none"
+                  stroke={item.color}
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ),
+            )}
+          </svg>
+          <div className="ml-1 flex w-12 flex-col justify-between text-[10px] text-gray-400">
+            <span>{high}</span>
+            <span>{low}</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-x-3 text-xs">
+        {series.map(item => (
+          <span key={item.id} style={{ color: item.color }}>
+            {item.label}
+          </span>
+        ))}
+      </div>
+      {panel('ゲイン [dB]', point => point.magnitude, 0, 20)}
+      {panel('位相 [deg]', point => point.phase, -180, 90)}
+      <div className="relative mr-12 h-3 text-[10px] text-gray-400">
+        {decades.map(frequency => (
+          <span
+            key={frequency}
+            className="absolute -translate-x-1/2"
+            style={{ left: `${(toX(frequency) / WIDTH) * 100}%` }}
+          >
+            {frequency}
+          </span>
+        ))}
+      </div>
+      <div className="text-right text-[10px] text-gray-400">周波数 [rad/s]</div>
+    </div>
+  );
+};
+
+export default BodePlot;
@@ -0,0 +1,86 @@
+import type { ComponentType } from 'react';
+
+// 画面表示用の内部量（名前 → 値）
+export type ControllerDiagnostics = Record<string, number>;
+
+/**
+ * シミュレータ共通の制御器の契約。
+ * 観測から指令を計算し、内部状態（積分器など）は reset で初期化する。
+ */
+export interface Controller<Observation, Command, Config = unknown> {
+  reset(): void;
+  update(observation: Observation, dt: number): Command;
+  getDiagnostics(): ControllerDiagnostics;
+  // 実行中に設定（ゲインなど）を変更する
+  configure(config: Config): void;
+}
+
+export interface ControllerSettingsProps<Config> {
+  config: Config;
+  onChange: (config: Config) => void;
+}
+
+export interface ControllerDefinition<Observation, Command, Config = unknown> {
+  id: string;
+  name: string;
+  description: string;
+  defaultConfig: Config;
+  create: (config: Config) => Controller<Observation, Command, Config>;
+  // 設定を編集する UI（設定項目がなければ省略）
+  Settings?: ComponentType<ControllerSettingsProps<Config>>;
+}
+
+/**
+ * 選択可能な制御器の一覧。シミュレータはここから生成するため、
+ * 制御器を追加しても画面側のコードを変更する必要はない。
+ */
+export class ControllerRegistry<Observation, Command> {
+  // 設定の型は制御器ごとに異なるため、登録時に検査した後は unknown として保持する
+  private definitions = new Map<
+    string,
+    ControllerDefinition<Observation, Command, unknown>
+  >();
+
+  public register<Config>(
+    definition: ControllerDefinition<Observation, Command, Config>,
+  ): this {
+    this.definitions.set(
+      definition.id,
+      definition as ControllerDefinition<Observation, Command, unknown>,
+    );
+    return this;
+  }
+
+  public list(): ControllerDefinition<Observation, Command, unknown>[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * 登録した定義を取り出す。設定を型付きで扱う場合は、
+   * 登録時と同じ設定の型を Config に指定する（既定では unknown）。
+   */
+  public get<Config = unknown>(
+    id: string,
+  ): ControllerDefinition<Observation, Command, Config> {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`未登録の制御器です: ${id}`);
+    }
+    return definition as ControllerDefinition<Observation, Command, Config>;
+  }
+
+  // 各制御器の既定の設定
+  public defaultConfigs(): Record<string, unknown> {
+    return Object.fromEntries(
+      this.list().map(definition => [definition.id, definition.defaultConfig]),
+    );
+  }
+
+  public create<Config = unknown>(
+    id: string,
+    config?: Config,
+  ): Controller<Observation, Command, Config> {
+    const definition = this.get<Config>(id);
+    return definition.create(config ?? definition.defaultConfig);
+  }
+}
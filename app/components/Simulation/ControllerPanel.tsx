@@ -0,0 +1,59 @@
+import type { ControllerDiagnostics, ControllerRegistry } from './Controller';
+
+interface ControllerPanelProps<Observation, Command> {
+  registry: ControllerRegistry<Observation, Command>;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  config: unknown;
+  onConfigChange: (config: unknown) => void;
+  diagnostics: ControllerDiagnostics;
+}
+
+// 制御器の選択・設定と内部量の表示
+const ControllerPanel = <Observation, Command>({
+  registry,
+  selectedId,
+  onSelect,
+  config,
+  onConfigChange,
+  diagnostics,
+}: ControllerPanelProps<Observation, Command>) => {
+  const definition = registry.get(selectedId);
+  const { Settings } = definition;
+  const entries = Object.entries(diagnostics);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">制御器</h3>
+        <select
+          value={selectedId}
+          onChange={e => onSelect(e.target.value)}
+          className="px-2 py-1 border rounded bg-white text-sm"
+        >
+          {registry.list().map(item => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500">{definition.description}</p>
+
+      {Settings && <Settings config={config} onChange={onConfigChange} />}
+
+      {entries.length > 0 && (
+        <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-xs text-gray-600">
+          {entries.map(([name, value]) => (
+            <div key={name} className="flex justify-between">
+              <span className="text-gray-500">{name}</span>
+              <span>{value.toFixed(3)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ControllerPanel;
@@ -0,0 +1,298 @@
+import { inverse, zeros } from './Matrix';
+import type { Matrix } from './Matrix';
+import type { PIDGains, PIDOptions } from './PIDController';
+import type { TuningLoop } from './PIDTuning';
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const ComplexMath = {
+  of(re: number, im: number = 0): Complex {
+    return { re, im };
+  },
+
+  add(a: Complex, b: Complex): Complex {
+    return { re: a.re + b.re, im: a.im + b.im };
+  },
+
+  multiply(a: Complex, b: Complex): Complex {
+    return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+  },
+
+  divide(a: Complex, b: Complex): Complex {
+    const denominator = b.re * b.re + b.im * b.im;
+    return {
+      re: (a.re * b.re + a.im * b.im) / denominator,
+      im: (a.im * b.re - a.re * b.im) / denominator,
+    };
+  },
+
+  abs(a: Complex): number {
+    return Math.hypot(a.re, a.im);
+  },
+
+  // 偏角[rad]（-π〜π）
+  arg(a: Complex): number {
+    return Math.atan2(a.im, a.re);
+  },
+
+  // e^{jθ}
+  unit(angle: number): Complex {
+    return { re: Math.cos(angle), im: Math.sin(angle) };
+  },
+};
+
+// 角周波数 ω[rad/s] での伝達関数の値
+export interface FrequencyPoint {
+  frequency: number;
+  response: Complex;
+}
+
+// ボード線図の1点（位相は周波数の低い側から連続になるようにつないだ値）
+export interface BodePoint {
+  frequency: number;
+  magnitude: number; // [dB]
+  phase: number; // [deg]
+}
+
+export interface StabilityMargins {
+  gainMargin: number | null; // [dB]（位相が -180° を横切らなければ null）
+  phaseCrossover: number | null; // [rad/s]
+  phaseMargin: number | null; // [deg]（ゲインが 0 dB を横切らなければ null）
+  gainCrossover: number | null; // [rad/s]
+  bandwidth: number | null; // 閉ループのゲインが低域から 3 dB 下がる周波数[rad/s]
+}
+
+/**
+ * シミュレータごとのループ整形の解析。
+ * ループは PID の出力で切り開き、内側のループは閉じ、外側のループは開いた状態で評価する。
+ */
+export interface LoopAnalyzer {
+  loops: TuningLoop[];
+  // 線形化したモデルから一巡伝達関数を求める（線形モデルを作れない制御対象では null）
+  analyze: ((loopId: string, frequencies: number[]) => FrequencyPoint[]) | null;
+  // 非線形モデルに正弦波を加えて一巡伝達関数を測る（一括シミュレーションのため時間がかかる）
+  sweep:
+    | ((
+        loopId: string,
+        frequencies: number[],
+        options: SweepOptions,
+      ) => FrequencyPoint[])
+    | null;
+}
+
+export interface SweepOptions {
+  amplitudeRatio: number; // 加える正弦波の振幅（ループの出力上限に対する比）
+  settlingCycles: number; // 測定前に過渡応答が収まるのを待つ周期数
+  measurementCycles: number; // フーリエ係数を求める周期数
+}
+
+export const DEFAULT_SWEEP_OPTIONS: SweepOptions = {
+  amplitudeRatio: 0.1,
+  settlingCycles: 2,
+  measurementCycles: 3,
+};
+
+// 対数で等間隔な角周波数
+export const logFrequencies = (
+  min: number,
+  max: number,
+  count: number,
+): number[] =>
+  Array.from(
+    { length: count },
+    (_, i) => min * (max / min) ** (count > 1 ? i / (count - 1) : 0),
+  );
+
+/**
+ * 連続系 dx/dt = Ax + b u の、入力 u から状態 x への周波数応答 (jωI - A)^{-1} b。
+ * 実部と虚部に分けた実数の連立方程式として解く。
+ */
+export const stateResponse = (
+  A: Matrix,
+  b: number[],
+  frequency: number,
+): Complex[] => {
+  const n = A.length;
+  // [[-A, -ωI], [ωI, -A]] [Re x; Im x] = [b; 0]
+  const system = zeros(2 * n, 2 * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      system[i][j] = -A[i][j];
+      system[n + i][n + j] = -A[i][j];
+    }
+    system[i][n + i] = -frequency;
+    system[n + i][i] = frequency;
+  }
+  const solution = inverse(system).map(row =>
+    row.reduce((sum, value, j) => sum + value * (j < n ? b[j] : 0), 0),
+  );
+  return Array.from({ length: n }, (_, i) =>
+    ComplexMath.of(solution[i], solution[n + i]),
+  );
+};
+
+/**
+ * PIDController の偏差から出力までの伝達関数 Kp + Ki/s + Kd N s / (s + N)。
+ * 目標値の重みは一巡伝達関数に現れず、出力の飽和は小振幅では効かないため含めない。
+ */
+export const pidResponse = (
+  { kp, ki, kd }: PIDGains,
+  { derivativeFilter }: PIDOptions,
+  frequency: number,
+): Complex => {
+  const s = ComplexMath.of(0, frequency);
+  const integral = ComplexMath.divide(ComplexMath.of(ki), s);
+  const derivative =
+    derivativeFilter === Infinity
+      ? ComplexMath.multiply(ComplexMath.of(kd), s)
+      : ComplexMath.divide(
+          ComplexMath.multiply(ComplexMath.of(kd * derivativeFilter), s),
+          ComplexMath.add(s, ComplexMath.of(derivativeFilter)),
+        );
+  return ComplexMath.add(
+    ComplexMath.add(ComplexMath.of(kp), integral),
+    derivative,
+  );
+};
+
+// 周期 period ごとに実行して出力を保持することによる遅れ（半周期のむだ時間で近似）
+export const sampleDelay = (period: number, frequency: number): Complex =>
+  ComplexMath.unit((-frequency * period) / 2);
+
+// 一巡伝達関数 L から閉ループ伝達関数 L / (1 + L) を求める
+export const closedLoop = (points: FrequencyPoint[]): FrequencyPoint[] =>
+  points.map(({ frequency, response }) => ({
+    frequency,
+    response: ComplexMath.divide(
+      response,
+      ComplexMath.add(ComplexMath.of(1), response),
+    ),
+  }));
+
+const toDecibel = (value: number) => 20 * Math.log10(value);
+
+export const toBode = (points: FrequencyPoint[]): BodePoint[] => {
+  let offset = 0;
+  let previous: number | null = null;
+  return points.map(({ frequency, response }) => {
+    const phase = (ComplexMath.arg(response) * 180) / Math.PI;
+    if (previous !== null) {
+      // 隣の点から 180° 以上跳んだら 360° の倍数だけずらしてつなぐ
+      offset -= 360 * Math.round((phase + offset - previous) / 360);
+    }
+    previous = phase + offset;
+    return {
+      frequency,
+      magnitude: toDecibel(ComplexMath.abs(response)),
+      phase: phase + offset,
+    };
+  });
+};
+
+// 2点の間を周波数の対数で線形補間する
+const interpolateFrequency = (a: number, b: number, ratio: number) =>
+  Math.exp(Math.log(a) + (Math.log(b) - Math.log(a)) * ratio);
+
+// 複数の交差がある場合は余裕の最も小さいものを選ぶ
+const smallest = <T extends { margin: number }>(items: T[]): T | null =>
+  items.reduce<T | null>(
+    (min, item) =>
+      !min || Math.abs(item.margin) < Math.abs(min.margin) ? item : min,
+    null,
+  );
+
+/**
+ * 一巡伝達関数の周波数応答からゲイン余裕・位相余裕と閉ループの帯域幅を求める。
+ * 交差する周波数は隣り合う点の間を補間して求めるため、点は十分細かく取ること。
+ */
+export const stabilityMargins = (
+  points: FrequencyPoint[],
+): StabilityMargins => {
+  const phaseCrossings: { frequency: number; margin: number }[] = [];
+  const gainCrossings: { frequency: number; margin: number }[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+
+    // 負の実軸を横切る点（位相 -180°）
+    if (a.response.im === 0 || a.response.im * b.response.im < 0) {
+      const ratio = a.response.im / (a.response.im - b.response.im);
+      const re = a.response.re + (b.response.re - a.response.re) * ratio;
+      if (re < 0) {
+        phaseCrossings.push({
+          frequency: interpolateFrequency(a.frequency, b.frequency, ratio),
+          margin: -toDecibel(-re),
+        });
+      }
+    }
+
+    // 単位円を横切る点（ゲイン 0 dB）
+    const gainA = toDecibel(ComplexMath.abs(a.response));
+    const gainB = toDecibel(ComplexMath.abs(b.response));
+    if (gainA === 0 || gainA * gainB < 0) {
+      const ratio = gainA / (gainA - gainB);
+      const angle =
+        (ComplexMath.arg({
+          re: a.response.re + (b.response.re - a.response.re) * ratio,
+          im: a.response.im + (b.response.im - a.response.im) * ratio,
+        }) *
+          180) /
+        Math.PI;
+      gainCrossings.push({
+        frequency: interpolateFrequency(a.frequency, b.frequency, ratio),
+        margin: angle > 0 ? angle - 180 : angle + 180,
+      });
+    }
+  }
+
+  const phaseCrossing = smallest(phaseCrossings);
+  const gainCrossing = smallest(gainCrossings);
+
+  // 閉ループのゲインが最も低い周波数での値から 3 dB 下がる点
+  const closed = closedLoop(points).map(point =>
+    toDecibel(ComplexMath.abs(point.response)),
+  );
+  const threshold = closed[0] - 3;
+  const below = closed.findIndex(gain => gain < threshold);
+  const bandwidth =
+    below > 0
+      ? interpolateFrequency(
+          points[below - 1].frequency,
+          points[below].frequency,
+          (closed[below - 1] - threshold) / (closed[below - 1] - closed[below]),
+        )
+      : null;
+
+  return {
+    gainMargin: phaseCrossing?.margin ?? null,
+    phaseCrossover: phaseCrossing?.frequency ?? null,
+    phaseMargin: gainCrossing?.margin ?? null,
+    gainCrossover: gainCrossing?.frequency ?? null,
+    bandwidth,
+  };
+};
+
+/**
+ * 時系列の角周波数 ω 成分（フーリエ係数）。正弦波掃引で入出力の比を求めるのに使う。
+ * times は整数周期の区間にわたっていること。
+ */
+export const fourierCoefficient = (
+  times: number[],
+  values: number[],
+  frequency: number,
+): Complex =>
+  values.reduce<Complex>(
+    (sum, value, i) =>
+      ComplexMath.add(
+        sum,
+        ComplexMath.multiply(
+          ComplexMath.of(value),
+          ComplexMath.unit(-frequency * times[i]),
+        ),
+      ),
+    ComplexMath.of(0),
+  );
@@ -0,0 +1,309 @@
+import { useMemo, useState } from 'react';
+import BodePlot from './BodePlot';
+import type { BodeSeries } from './BodePlot';
+import NyquistPlot from './NyquistPlot';
+import type { NyquistSeries } from './NyquistPlot';
+import {
+  DEFAULT_SWEEP_OPTIONS,
+  closedLoop,
+  logFrequencies,
+  stabilityMargins,
+  toBode,
+} from './FrequencyResponse';
+import type {
+  BodePoint,
+  FrequencyPoint,
+  LoopAnalyzer,
+  StabilityMargins,
+  SweepOptions,
+} from './FrequencyResponse';
+
+interface FrequencyResponsePanelProps {
+  analyzer: LoopAnalyzer;
+}
+
+// 線形モデルで評価する周波数[rad/s]（横軸の範囲）
+const MIN_FREQUENCY = 0.01;
+const MAX_FREQUENCY = 1000;
+const ANALYSIS_FREQUENCIES = logFrequencies(MIN_FREQUENCY, MAX_FREQUENCY, 300);
+
+// 正弦波掃引の周波数範囲[rad/s]（低い周波数ほど試験時間が長くなる）
+const SWEEP_MIN_FREQUENCY = 0.5;
+const SWEEP_MAX_FREQUENCY = 50;
+
+interface SweepResult {
+  loopId: string;
+  points: FrequencyPoint[];
+}
+
+const formatMargin = (value: number | null, unit: string) =>
+  value === null ? '-' : `${value.toFixed(1)}${unit}`;
+
+const formatFrequency = (value: number | null) =>
+  value === null ? '' : `（${value.toFixed(2)} rad/s）`;
+
+// 測定点の位相を、線形モデルの同じ周波数付近の位相と 360° の倍数だけそろえる
+const alignPhase = (points: BodePoint[], reference: BodePoint[]) => {
+  const first = points[0];
+  if (!first || reference.length === 0) return points;
+  const nearest = reference.reduce((best, point) =>
+    Math.abs(Math.log(point.frequency / first.frequency)) <
+    Math.abs(Math.log(best.frequency / first.frequency))
+      ? point
+      : best,
+  );
+  const offset = 360 * Math.round((nearest.phase - first.phase) / 360);
+  return points.map(point => ({ ...point, phase: point.phase + offset }));
+};
+
+// 一巡伝達関数のボード線図・ナイキスト線図と安定余裕（線形モデルの結果は設定の変更に追従する）
+const FrequencyResponsePanel = ({ analyzer }: FrequencyResponsePanelProps) => {
+  const [loopId, setLoopId] = useState(analyzer.loops[0].id);
+  const [sweepOptions, setSweepOptions] = useState<SweepOptions>(
+    DEFAULT_SWEEP_OPTIONS,
+  );
+  const [sweepPoints, setSweepPoints] = useState(12);
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // 線形モデルの評価は数十ms かかるため、解析の対象が変わったときだけやり直す
+  const { linear, linearError } = useMemo(() => {
+    if (!analyzer.analyze) {
+      return { linear: null, linearError: null };
+    }
+    try {
+      return {
+        linear: analyzer.analyze(loopId, ANALYSIS_FREQUENCIES),
+        linearError: null,
+      };
+    } catch (e) {
+      return {
+        linear: null,
+        linearError: e instanceof Error ? e.message : String(e),
+      };
+    }
+  }, [analyzer, loopId]);
+  const measured = sweep?.loopId === loopId ? sweep.points : null;
+
+  const { margins, bodeSeries, nyquistSeries } = useMemo(() => {
+    // 余裕は細かく評価できる線形モデルを優先し、なければ測定値から求める
+    const source = linear ?? measured;
+    const margins: StabilityMargins | null = source
+      ? stabilityMargins(source)
+      : null;
+
+    const linearBode = linear ? toBode(linear) : [];
+    const bodeSeries: BodeSeries[] = [];
+    const nyquistSeries: NyquistSeries[] = [];
+    if (linear) {
+      bodeSeries.push(
+        {
+          id: 'linear',
+          label: '一巡（線形モデル）',
+          color: '#2563eb',
+          points: linearBode,
+        },
+        {
+          id: 'closed',
+          label: '閉ループ',
+          color: '#9ca3af',
+          points: toBode(closedLoop(linear)),
+        },
+      );
+      nyquistSeries.push({
+        id: 'linear',
+        label: '線形モデル',
+        color: '#2563eb',
+        points: linear,
+      });
+    }
+    if (measured) {
+      bodeSeries.push({
+        id: 'sweep',
+        label: '一巡（正弦波掃引）',
+        color: '#dc2626',
+        points: alignPhase(toBode(measured), linearBode),
+        markers: true,
+      });
+      nyquistSeries.push({
+        id: 'sweep',
+        label: '正弦波掃引',
+        color: '#dc2626',
+        points: measured,
+        markers: true,
+      });
+    }
+    return { margins, bodeSeries, nyquistSeries };
+  }, [linear, measured]);
+
+  const { sweep: runSweep } = analyzer;
+  // 一括シミュレーションは数百ms〜数秒かかるため、実行中の表示を描画してから始める
+  const handleSweep = () => {
+    if (!runSweep) return;
+    setRunning(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        setSweep({
+          loopId,
+          points: runSweep(
+            loopId,
+            logFrequencies(
+              SWEEP_MIN_FREQUENCY,
+              SWEEP_MAX_FREQUENCY,
+              sweepPoints,
+            ),
+            sweepOptions,
+          ),
+        });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">周波数応答</h3>
+        <select
+          value={loopId}
+          onChange={e => {
+            setLoopId(e.target.value);
+            setError(null);
+          }}
+          className="px-2 py-1 border rounded bg-white text-sm"
+        >
+          {analyzer.loops.map(loop => (
+            <option key={loop.id} value={loop.id}>
+              {loop.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500">
+        ループを PID
+        の出力で切り開いた一巡伝達関数（内側のループは閉じ、外側のループは開く）
+      </p>
+
+      {margins && (
+        <div className="grid grid-cols-3 gap-4 text-sm text-gray-600">
+          <div>
+            ゲイン余裕: {formatMargin(margins.gainMargin, ' dB')}
+            {formatFrequency(margins.phaseCrossover)}
+          </div>
+          <div>
+            位相余裕: {formatMargin(margins.phaseMargin, '°')}
+            {formatFrequency(margins.gainCrossover)}
+          </div>
+          <div>帯域幅: {formatMargin(margins.bandwidth, ' rad/s')}</div>
+        </div>
+      )}
+      {linearError && <p className="text-sm text-red-600">{linearError}</p>}
+
+      {bodeSeries.length > 0 && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="md:col-span-2">
+            <BodePlot
+              series={bodeSeries}
+              margins={margins}
+              minFrequency={MIN_FREQUENCY}
+              maxFrequency={MAX_FREQUENCY}
+            />
+          </div>
+          <NyquistPlot series={nyquistSeries} />
+        </div>
+      )}
+
+      {/* 線形化に含まれない出力制限・ロータの非線形性などを含めた測定 */}
+      {runSweep && (
+        <div className="space-y-2">
+          <h4 className="font-medium text-gray-700">正弦波掃引</h4>
+          <div className="grid grid-cols-4 gap-4 items-end text-sm text-gray-600">
+            <label className="block">
+              <span className="block">
+                振幅（出力上限の{' '}
+                {(sweepOptions.amplitudeRatio * 100).toFixed(0)}%）
+              </span>
+              <input
+                type="range"
+                min="0.01"
+                max="0.5"
+                step="0.01"
+                value={sweepOptions.amplitudeRatio}
+                onChange={e =>
+                  setSweepOptions({
+                    ...sweepOptions,
+                    amplitudeRatio: Number(e.target.value),
+                  })
+                }
+                className="w-full"
+              />
+            </label>
+            <label className="block">
+              <span className="block">測定周期数</span>
+              <input
+                type="number"
+                min="1"
+                max="20"
+                step="1"
+                value={sweepOptions.measurementCycles}
+                onChange={e =>
+                  setSweepOptions({
+                    ...sweepOptions,
+                    measurementCycles: Math.min(
+                      Math.max(Math.round(Number(e.target.value)), 1),
+                      20,
+                    ),
+                  })
+                }
+                className="w-full px-2 py-1 border rounded"
+              />
+            </label>
+            <label className="block">
+              <span className="block">
+                周波数の点数（{SWEEP_MIN_FREQUENCY}〜{SWEEP_MAX_FREQUENCY}{' '}
+                rad/s）
+              </span>
+              <input
+                type="number"
+                min="2"
+                max="40"
+                step="1"
+                value={sweepPoints}
+                onChange={e =>
+                  setSweepPoints(
+                    Math.min(
+                      Math.max(Math.round(Number(e.target.value)), 2),
+                      40,
+                    ),
+                  )
+                }
+                className="w-full px-2 py-1 border rounded"
+              />
+            </label>
+            <button
+              onClick={handleSweep}
+              disabled={running}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              掃引を実行
+            </button>
+          </div>
+          {measured && (
+            <p className="text-xs text-gray-500">
+              掃引の結果は実行時の設定によるもので、設定を変えても更新されません。
+            </p>
+          )}
+          {running && <p className="text-sm text-gray-500">実行中…</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrequencyResponsePanel;
@@ -0,0 +1,29 @@
+import { INTEGRATOR_LABELS, INTEGRATOR_TYPES } from './Integrators';
+import type { IntegratorType } from './Integrators';
+
+interface IntegratorSelectProps {
+  value: IntegratorType;
+  onChange: (value: IntegratorType) => void;
+}
+
+// 数値積分法の切り替え
+const IntegratorSelect = ({ value, onChange }: IntegratorSelectProps) => {
+  return (
+    <label className="flex items-center space-x-2 text-sm text-gray-700">
+      <span>積分法</span>
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value as IntegratorType)}
+        className="px-2 py-1 border rounded bg-white"
+      >
+        {INTEGRATOR_TYPES.map(type => (
+          <option key={type} value={type}>
+            {INTEGRATOR_LABELS[type]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default IntegratorSelect;
@@ -0,0 +1,84 @@
+// 数値積分法の共通実装
+
+export type IntegratorType = 'euler' | 'semiImplicitEuler' | 'rk4';
+
+/**
+ * 状態ベクトルの時間微分。
+ * 状態は [一般化座標 q..., 一般化速度 v...] の順に同じ長さで並べる。
+ */
+export type DerivativeFunction = (state: number[]) => number[];
+
+export const INTEGRATOR_LABELS: Record<IntegratorType, string> = {
+  euler: 'オイラー法',
+  semiImplicitEuler: '半陰的オイラー法',
+  rk4: 'ルンゲ＝クッタ法 (RK4)',
+};
+
+export const INTEGRATOR_TYPES = Object.keys(
+  INTEGRATOR_LABELS,
+) as IntegratorType[];
+
+const addScaled = (a: number[], b: number[], scale: number): number[] =>
+  a.map((value, i) => value + b[i] * scale);
+
+// 陽的オイラー法: 現時点の微分のみを使う1次精度の更新
+export function eulerStep(
+  f: DerivativeFunction,
+  state: number[],
+  dt: number,
+): number[] {
+  return addScaled(state, f(state), dt);
+}
+
+// 半陰的（シンプレクティック）オイラー法: 速度を先に更新し、新しい速度で座標を進める
+export function semiImplicitEulerStep(
+  f: DerivativeFunction,
+  state: number[],
+  dt: number,
+): number[] {
+  const half = state.length / 2;
+  const derivative = f(state);
+
+  const next = state.slice();
+  for (let i = half; i < state.length; i++) {
+    next[i] = state[i] + derivative[i] * dt;
+  }
+
+  const updatedDerivative = f(next);
+  for (let i = 0; i < half; i++) {
+    next[i] = state[i] + updatedDerivative[i] * dt;
+  }
+  return next;
+}
+
+// 古典的4次ルンゲ＝クッタ法
+export function rk4Step(
+  f: DerivativeFunction,
+  state: number[],
+  dt: number,
+): number[] {
+  const k1 = f(state);
+  const k2 = f(addScaled(state, k1, dt / 2));
+  const k3 = f(addScaled(state, k2, dt / 2));
+  const k4 = f(addScaled(state, k3, dt));
+
+  return state.map(
+    (value, i) => value + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]),
+  );
+}
+
+export function integrate(
+  type: IntegratorType,
+  f: DerivativeFunction,
+  state: number[],
+  dt: number,
+): number[] {
+  switch (type) {
+    case 'euler':
+      return eulerStep(f, state, dt);
+    case 'semiImplicitEuler':
+      return semiImplicitEulerStep(f, state, dt);
+    case 'rk4':
+      return rk4Step(f, state, dt);
+  }
+}
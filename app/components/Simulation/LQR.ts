@@ -0,0 +1,81 @@
+import {
+  add,
+  diag,
+  identity,
+  inverse,
+  maxAbs,
+  multiply,
+  subtract,
+  transpose,
+} from './Matrix';
+import type { Matrix } from './Matrix';
+import type { LinearModel } from './Linearization';
+
+// LQR の重み（Q・R とも対角成分のみ指定する）
+export interface LQRWeights {
+  q: number[]; // 状態の重み
+  r: number[]; // 入力の重み（正の値）
+}
+
+export interface LQRDesign {
+  K: Matrix; // 状態フィードバックゲイン（u = -Kx）
+  P: Matrix; // リカッチ方程式の解
+  iterations: number;
+}
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/**
+ * 離散時間代数リカッチ方程式
+ *   P = Q + AᵀPA - AᵀPB (R + BᵀPB)⁻¹ BᵀPA
+ * を構造保存ダブリング法で解く。反復ごとに予測区間が倍になるため、
+ * 刻み幅が小さく閉ループ極が 1 に近い系でも数十回で収束する。
+ * (A, B) が可安定で Q の重みを付けた状態が可検出である必要がある。
+ */
+export function solveDiscreteRiccati(
+  model: LinearModel,
+  Q: Matrix,
+  R: Matrix,
+): { P: Matrix; iterations: number } {
+  const n = model.A.length;
+  let A = model.A;
+  let G = multiply(model.B, multiply(inverse(R), transpose(model.B)));
+  let H = Q;
+
+  for (let iteration = 1; iteration <= MAX_ITERATIONS; iteration++) {
+    const W = inverse(add(identity(n), multiply(G, H)));
+    const WA = multiply(W, A);
+    const nextA = multiply(A, WA);
+    const nextG = add(G, multiply(A, multiply(W, multiply(G, transpose(A)))));
+    const nextH = add(H, multiply(transpose(A), multiply(H, WA)));
+
+    const change = maxAbs(subtract(nextH, H));
+    A = nextA;
+    G = nextG;
+    H = nextH;
+    if (!Number.isFinite(change)) {
+      break;
+    }
+    if (change <= TOLERANCE * Math.max(1, maxAbs(H))) {
+      return { P: H, iterations: iteration };
+    }
+  }
+  throw new Error('リカッチ方程式の解が収束しませんでした');
+}
+
+// 離散時間 LQR のゲインを設計する
+export function designLQR(model: LinearModel, weights: LQRWeights): LQRDesign {
+  const { P, iterations } = solveDiscreteRiccati(
+    model,
+    diag(weights.q),
+    diag(weights.r),
+  );
+  const { A, B } = model;
+  const Bt = transpose(B);
+  const K = multiply(
+    inverse(add(diag(weights.r), multiply(Bt, multiply(P, B)))),
+    multiply(Bt, multiply(P, A)),
+  );
+  return { K, P, iterations };
+}
@@ -0,0 +1,76 @@
+import type { ComponentType } from 'react';
+import type { ControllerSettingsProps } from './Controller';
+import type { LQRWeights } from './LQR';
+
+interface LQRWeightsPanelProps extends ControllerSettingsProps<LQRWeights> {
+  stateLabels: string[];
+  inputLabels: string[];
+}
+
+const replaceAt = (values: number[], index: number, value: number) =>
+  values.map((current, i) => (i === index ? value : current));
+
+// LQR の Q・R の対角成分の編集
+const LQRWeightsPanel = ({
+  config,
+  onChange,
+  stateLabels,
+  inputLabels,
+}: LQRWeightsPanelProps) => {
+  const renderWeights = (
+    key: keyof LQRWeights,
+    labels: string[],
+    min: number,
+  ) => (
+    <div className="grid grid-cols-4 gap-2 text-sm text-gray-600">
+      {labels.map((label, i) => (
+        <label key={label} className="block">
+          <span className="block text-xs text-gray-500">{label}</span>
+          <input
+            type="number"
+            min={min}
+            step="any"
+            value={config[key][i]}
+            onChange={e =>
+              onChange({
+                ...config,
+                [key]: replaceAt(
+                  config[key],
+                  i,
+                  Math.max(Number(e.target.value), min),
+                ),
+              })
+            }
+            className="w-full px-2 py-1 border rounded"
+          />
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-gray-700">状態の重み Q</h4>
+      {renderWeights('q', stateLabels, 0)}
+      <h4 className="font-medium text-gray-700">入力の重み R</h4>
+      {renderWeights('r', inputLabels, 1e-6)}
+    </div>
+  );
+};
+
+// 状態・入力の名前を固定した設定 UI を作る（制御器の登録用）
+export const createLQRSettings = (
+  stateLabels: string[],
+  inputLabels: string[],
+): ComponentType<ControllerSettingsProps<LQRWeights>> => {
+  const Settings = (props: ControllerSettingsProps<LQRWeights>) => (
+    <LQRWeightsPanel
+      {...props}
+      stateLabels={stateLabels}
+      inputLabels={inputLabels}
+    />
+  );
+  return Settings;
+};
+
+export default LQRWeightsPanel;
@@ -0,0 +1,92 @@
+import { expm, zeros } from './Matrix';
+import type { Matrix } from './Matrix';
+
+// 入力付きの状態方程式 dx/dt = f(x, u)
+export type ControlledDerivativeFunction = (
+  state: number[],
+  input: number[],
+) => number[];
+
+// 線形化した状態方程式（連続系なら dx/dt = Ax + Bu、離散系なら x[k+1] = Ax[k] + Bu[k]）
+export interface LinearModel {
+  A: Matrix;
+  B: Matrix;
+}
+
+// 中心差分の刻み（変数の大きさに合わせて拡大する）
+const DEFAULT_EPSILON = 1e-5;
+
+const perturb = (values: number[], index: number, delta: number) =>
+  values.map((value, i) => (i === index ? value + delta : value));
+
+/**
+ * 平衡点 (x0, u0) まわりのヤコビアンを中心差分で求める。
+ * モデルの式を書き換えずに済むよう、微分の式そのものを数値的に微分する。
+ */
+export function linearize(
+  f: ControlledDerivativeFunction,
+  state: number[],
+  input: number[],
+  epsilon: number = DEFAULT_EPSILON,
+): LinearModel {
+  const n = state.length;
+  const A = zeros(n, n);
+  const B = zeros(n, input.length);
+
+  const fillColumn = (
+    target: Matrix,
+    column: number,
+    values: number[],
+    evaluate: (delta: number) => number[],
+  ) => {
+    const delta = epsilon * Math.max(1, Math.abs(values[column]));
+    const plus = evaluate(delta);
+    const minus = evaluate(-delta);
+    for (let row = 0; row < n; row++) {
+      target[row][column] = (plus[row] - minus[row]) / (2 * delta);
+    }
+  };
+
+  for (let j = 0; j < n; j++) {
+    fillColumn(A, j, state, delta => f(perturb(state, j, delta), input));
+  }
+  for (let j = 0; j < input.length; j++) {
+    fillColumn(B, j, input, delta => f(state, perturb(input, j, delta)));
+  }
+  return { A, B };
+}
+
+/**
+ * 入力を1ステップの間一定とみなして（0次ホールド）離散化する。
+ * 拡大行列 [[A, B], [0, 0]] の行列指数関数から Ad・Bd を同時に求める。
+ */
+export function discretize(model: LinearModel, dt: number): LinearModel {
+  const n = model.A.length;
+  const m = model.B[0]?.length ?? 0;
+  const augmented = zeros(n + m, n + m);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      augmented[i][j] = model.A[i][j] * dt;
+    }
+    for (let j = 0; j < m; j++) {
+      augmented[i][n + j] = model.B[i][j] * dt;
+    }
+  }
+
+  const exponential = expm(augmented);
+  return {
+    A: exponential.slice(0, n).map(row => row.slice(0, n)),
+    B: exponential.slice(0, n).map(row => row.slice(n)),
+  };
+}
+
+// 状態の一部だけを取り出した部分系（動かない状態を除いて設計するため）
+export function selectStates(
+  model: LinearModel,
+  indices: number[],
+): LinearModel {
+  return {
+    A: indices.map(i => indices.map(j => model.A[i][j])),
+    B: indices.map(i => model.B[i]),
+  };
+}
@@ -0,0 +1,186 @@
+import {
+  diag,
+  identity,
+  multiply,
+  multiplyVector,
+  transpose,
+  zeros,
+} from './Matrix';
+import type { Matrix } from './Matrix';
+import type { LinearModel } from './Linearization';
+import { QuadraticProgram } from './QuadraticProgram';
+
+// 状態制約の違反量に課す罰則（二次・一次）
+const SLACK_QUADRATIC_WEIGHT = 1e4;
+const SLACK_LINEAR_WEIGHT = 1e5;
+
+export interface MPCProblem {
+  model: LinearModel; // 離散時間の線形モデル（平衡点からの偏差）
+  horizon: number;
+  q: number[]; // 状態の重み（対角）
+  r: number[]; // 入力の重み（対角）
+  terminal: Matrix; // 終端コストの重み（LQR のリカッチ解を使うと安定性が保証しやすい）
+  constrainedStates: number[]; // 上下限を課す状態の添字
+}
+
+export interface MPCBounds {
+  inputLower: number[];
+  inputUpper: number[];
+  stateLower: number[]; // constrainedStates の順
+  stateUpper: number[];
+}
+
+export interface MPCResult {
+  inputs: number[][]; // 予測区間の入力列
+  states: number[][]; // 入力列を加えたときの予測状態（1ステップ先から）
+  iterations: number;
+  primalResidual: number;
+  converged: boolean;
+}
+
+/**
+ * 縮約形（状態を入力列で消去した形）の線形 MPC。
+ * 予測式 X = Φx0 + ΓU を使い、コストと制約を入力列 U だけの二次計画問題にして解く。
+ * 状態・入力はいずれも平衡点からの偏差で扱う。
+ *
+ * 入力の上下限は厳密に守り、状態の上下限は制約ごとのスラック変数で緩和する。
+ * モデル誤差で現在の状態がすでに制約外にあっても問題が解けなくならないようにするため。
+ */
+export class LinearMPC {
+  private n: number;
+  private m: number;
+  private horizon: number;
+  private constrainedStates: number[];
+  private Phi: Matrix;
+  private Gamma: Matrix;
+  // f = F x0（コストの一次項）
+  private F: Matrix;
+  private qp: QuadraticProgram;
+
+  constructor(problem: MPCProblem) {
+    const { model, horizon, q, r, terminal, constrainedStates } = problem;
+    const n = model.A.length;
+    const m = model.B[0].length;
+    this.n = n;
+    this.m = m;
+    this.horizon = horizon;
+    this.constrainedStates = constrainedStates;
+
+    // Φ = [A; A²; …; A^N]、Γ の k 行目のブロックは [A^(k-1)B, …, B, 0, …]
+    this.Phi = zeros(n * horizon, n);
+    this.Gamma = zeros(n * horizon, m * horizon);
+    let power = model.A;
+    const AkB: Matrix[] = [model.B];
+    for (let k = 0; k < horizon; k++) {
+      for (let i = 0; i < n; i++) {
+        this.Phi[k * n + i] = power[i].slice();
+        for (let j = 0; j <= k; j++) {
+          const block = AkB[k - j];
+          for (let c = 0; c < m; c++) {
+            this.Gamma[k * n + i][j * m + c] = block[i][c];
+          }
+        }
+      }
+      power = multiply(model.A, power);
+      AkB.push(multiply(model.A, AkB[k]));
+    }
+
+    // 予測区間全体の重み（最後のステップは終端コスト）
+    const Qbar = zeros(n * horizon, n * horizon);
+    for (let k = 0; k < horizon; k++) {
+      const weight = k === horizon - 1 ? terminal : diag(q);
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          Qbar[k * n + i][k * n + j] = weight[i][j];
+        }
+      }
+    }
+    const Rbar = diag(Array.from({ length: horizon }, () => r).flat());
+
+    // 変数は [U; スラック]
+    const inputs = m * horizon;
+    const slacks = constrainedStates.length;
+    const GtQ = multiply(transpose(this.Gamma), Qbar);
+    const inputHessian = multiply(GtQ, this.Gamma);
+    const H = zeros(inputs + slacks, inputs + slacks);
+    for (let i = 0; i < inputs; i++) {
+      for (let j = 0; j < inputs; j++) {
+        H[i][j] = inputHessian[i][j] + Rbar[i][j];
+      }
+    }
+    for (let c = 0; c < slacks; c++) {
+      H[inputs + c][inputs + c] = SLACK_QUADRATIC_WEIGHT;
+    }
+    this.F = multiply(GtQ, this.Phi);
+
+    // 制約行: 入力そのもの、各ステップの状態の上限側・下限側（スラックで緩和）、スラック ≥ 0
+    const withSlack = (row: number[], slack: number, sign: number) => [
+      ...row,
+      ...Array.from({ length: slacks }, (_, c) => (c === slack ? sign : 0)),
+    ];
+    const C: Matrix = identity(inputs).map(row => withSlack(row, -1, 0));
+    for (let k = 0; k < horizon; k++) {
+      constrainedStates.forEach((index, c) => {
+        C.push(withSlack(this.Gamma[k * n + index], c, -1));
+        C.push(withSlack(this.Gamma[k * n + index], c, 1));
+      });
+    }
+    for (let c = 0; c < slacks; c++) {
+      C.push(withSlack(new Array<number>(inputs).fill(0), c, 1));
+    }
+    this.qp = new QuadraticProgram(H, C);
+  }
+
+  public reset(): void {
+    this.qp.reset();
+  }
+
+  public solve(x0: number[], bounds: MPCBounds): MPCResult {
+    const { n, m, horizon } = this;
+    const free = multiplyVector(this.Phi, x0);
+
+    const lower: number[] = [];
+    const upper: number[] = [];
+    for (let k = 0; k < horizon; k++) {
+      lower.push(...bounds.inputLower);
+      upper.push(...bounds.inputUpper);
+    }
+    for (let k = 0; k < horizon; k++) {
+      this.constrainedStates.forEach((index, c) => {
+        // 上限: ΓU - s ≤ upper - Φx0、下限: ΓU + s ≥ lower - Φx0
+        lower.push(-Infinity);
+        upper.push(bounds.stateUpper[c] - free[k * n + index]);
+        lower.push(bounds.stateLower[c] - free[k * n + index]);
+        upper.push(Infinity);
+      });
+    }
+    this.constrainedStates.forEach(() => {
+      lower.push(0);
+      upper.push(Infinity);
+    });
+
+    const { solution, iterations, primalResidual, converged } = this.qp.solve(
+      [
+        ...multiplyVector(this.F, x0),
+        ...this.constrainedStates.map(() => SLACK_LINEAR_WEIGHT),
+      ],
+      lower,
+      upper,
+    );
+    const input = solution.slice(0, m * horizon);
+    const predicted = multiplyVector(this.Gamma, input).map(
+      (value, i) => value + free[i],
+    );
+    return {
+      inputs: Array.from({ length: horizon }, (_, k) =>
+        input.slice(k * m, (k + 1) * m),
+      ),
+      states: Array.from({ length: horizon }, (_, k) =>
+        predicted.slice(k * n, (k + 1) * n),
+      ),
+      iterations,
+      primalResidual,
+      converged,
+    };
+  }
+}
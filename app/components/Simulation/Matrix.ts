@@ -0,0 +1,132 @@
+// 制御器の設計に使う小さな密行列の演算（行優先の二次元配列）
+
+export type Matrix = number[][];
+
+export function zeros(rows: number, cols: number): Matrix {
+  return Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+}
+
+export function identity(size: number): Matrix {
+  const result = zeros(size, size);
+  for (let i = 0; i < size; i++) {
+    result[i][i] = 1;
+  }
+  return result;
+}
+
+export function diag(values: number[]): Matrix {
+  const result = zeros(values.length, values.length);
+  values.forEach((value, i) => {
+    result[i][i] = value;
+  });
+  return result;
+}
+
+export function transpose(a: Matrix): Matrix {
+  if (a.length === 0) {
+    return [];
+  }
+  return a[0].map((_, j) => a.map(row => row[j]));
+}
+
+export function add(a: Matrix, b: Matrix): Matrix {
+  return a.map((row, i) => row.map((value, j) => value + b[i][j]));
+}
+
+export function subtract(a: Matrix, b: Matrix): Matrix {
+  return a.map((row, i) => row.map((value, j) => value - b[i][j]));
+}
+
+export function scale(a: Matrix, factor: number): Matrix {
+  return a.map(row => row.map(value => value * factor));
+}
+
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  const cols = b[0]?.length ?? 0;
+  return a.map(row => {
+    const result = new Array<number>(cols).fill(0);
+    row.forEach((value, k) => {
+      if (value === 0) {
+        return;
+      }
+      for (let j = 0; j < cols; j++) {
+        result[j] += value * b[k][j];
+      }
+    });
+    return result;
+  });
+}
+
+// MPC の反復計算で繰り返し呼ばれるため、クロージャを使わないループで計算する
+export function multiplyVector(a: Matrix, v: number[]): number[] {
+  const result = new Array<number>(a.length);
+  for (let i = 0; i < a.length; i++) {
+    const row = a[i];
+    let sum = 0;
+    for (let j = 0; j < row.length; j++) {
+      sum += row[j] * v[j];
+    }
+    result[i] = sum;
+  }
+  return result;
+}
+
+// 要素の絶対値の最大
+export function maxAbs(a: Matrix): number {
+  return a.reduce(
+    (max, row) => row.reduce((m, value) => Math.max(m, Math.abs(value)), max),
+    0,
+  );
+}
+
+// 部分ピボット選択付きガウス・ジョルダン法による逆行列
+export function inverse(a: Matrix): Matrix {
+  const n = a.length;
+  const work = a.map((row, i) => [...row, ...identity(n)[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(work[row][col]) > Math.abs(work[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(work[pivot][col]) < 1e-12) {
+      throw new Error('特異行列のため逆行列を計算できません');
+    }
+    [work[col], work[pivot]] = [work[pivot], work[col]];
+
+    const divisor = work[col][col];
+    work[col] = work[col].map(value => value / divisor);
+    for (let row = 0; row < n; row++) {
+      if (row === col || work[row][col] === 0) {
+        continue;
+      }
+      const factor = work[row][col];
+      work[row] = work[row].map((value, j) => value - factor * work[col][j]);
+    }
+  }
+  return work.map(row => row.slice(n));
+}
+
+/**
+ * 行列指数関数 e^A。
+ * ノルムが小さくなるまで 2 のべきで割ってからテイラー展開し、二乗して戻す。
+ */
+export function expm(a: Matrix): Matrix {
+  const n = a.length;
+  const norm = maxAbs(a) * n;
+  const squarings = Math.max(0, Math.ceil(Math.log2(norm)) + 1);
+  const scaled = scale(a, 1 / 2 ** squarings);
+
+  let result = identity(n);
+  let term = identity(n);
+  for (let k = 1; k <= 12; k++) {
+    term = scale(multiply(term, scaled), 1 / k);
+    result = add(result, term);
+  }
+  for (let i = 0; i < squarings; i++) {
+    result = multiply(result, result);
+  }
+  return result;
+}
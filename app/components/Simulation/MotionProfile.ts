@@ -0,0 +1,58 @@
+export type MotionProfileType = 'minimumJerk' | 'minimumSnap';
+
+// 正規化時間 τ∈[0,1] での進行率 s とその τ による1階・2階微分
+export interface MotionProfileSample {
+  position: number;
+  velocity: number;
+  acceleration: number;
+}
+
+interface MotionProfile {
+  label: string;
+  coefficients: number[]; // s(τ) の係数（0次から昇順）
+  peakVelocity: number; // ds/dτ の最大値（τ = 0.5）
+}
+
+/**
+ * 静止から静止までの移動を表す多項式。
+ * 最小ジャークは両端の速度・加速度、最小スナップはさらにジャークも 0 とする。
+ */
+export const MOTION_PROFILES: Record<MotionProfileType, MotionProfile> = {
+  minimumJerk: {
+    label: '最小ジャーク（5次）',
+    coefficients: [0, 0, 0, 10, -15, 6],
+    peakVelocity: 1.875,
+  },
+  minimumSnap: {
+    label: '最小スナップ（7次）',
+    coefficients: [0, 0, 0, 0, 35, -84, 70, -20],
+    peakVelocity: 2.1875,
+  },
+};
+
+const derivative = (coefficients: number[]): number[] =>
+  coefficients.slice(1).map((c, i) => c * (i + 1));
+
+// ホーナー法による多項式の値
+const evaluate = (coefficients: number[], t: number): number =>
+  coefficients.reduceRight((sum, c) => sum * t + c, 0);
+
+// 範囲外の τ は両端で静止しているものとして扱う
+export const sampleMotionProfile = (
+  type: MotionProfileType,
+  tau: number,
+): MotionProfileSample => {
+  if (tau <= 0) {
+    return { position: 0, velocity: 0, acceleration: 0 };
+  }
+  if (tau >= 1) {
+    return { position: 1, velocity: 0, acceleration: 0 };
+  }
+  const { coefficients } = MOTION_PROFILES[type];
+  const first = derivative(coefficients);
+  return {
+    position: evaluate(coefficients, tau),
+    velocity: evaluate(first, tau),
+    acceleration: evaluate(derivative(first), tau),
+  };
+};
@@ -0,0 +1,107 @@
+export interface NelderMeadOptions {
+  initialStep: number[]; // 初期単体の各軸方向の大きさ
+  maxIterations: number;
+  tolerance: number; // 単体の頂点間のコスト差がこれ以下で終了
+}
+
+export interface NelderMeadResult {
+  point: number[];
+  value: number;
+  iterations: number;
+  evaluations: number;
+}
+
+// 反射・拡大・収縮・縮小の係数（標準値）
+const REFLECTION = 1;
+const EXPANSION = 2;
+const CONTRACTION = 0.5;
+const SHRINK = 0.5;
+
+interface Vertex {
+  point: number[];
+  value: number;
+}
+
+const combine = (a: number[], b: number[], t: number): number[] =>
+  a.map((value, i) => value + t * (b[i] - value));
+
+/**
+ * Nelder–Mead 法（滑降シンプレックス法）による制約なし最小化。
+ * 勾配を使わないため、シミュレーション結果のような微分できないコストにも使える。
+ */
+export const nelderMead = (
+  cost: (point: number[]) => number,
+  initial: number[],
+  options: NelderMeadOptions,
+): NelderMeadResult => {
+  let evaluations = 0;
+  const evaluate = (point: number[]): Vertex => {
+    evaluations++;
+    const value = cost(point);
+    return { point, value: Number.isFinite(value) ? value : Infinity };
+  };
+
+  let simplex: Vertex[] = [
+    evaluate(initial),
+    ...initial.map((_, axis) =>
+      evaluate(
+        initial.map((value, i) =>
+          i === axis ? value + options.initialStep[axis] : value,
+        ),
+      ),
+    ),
+  ];
+
+  let iterations = 0;
+  while (iterations < options.maxIterations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    const secondWorst = simplex[simplex.length - 2];
+    if (worst.value - best.value <= options.tolerance) {
+      break;
+    }
+    iterations++;
+
+    // 最悪点を除いた重心
+    const others = simplex.slice(0, -1);
+    const centroid = initial.map(
+      (_, i) =>
+        others.reduce((sum, vertex) => sum + vertex.point[i], 0) /
+        others.length,
+    );
+
+    const reflected = evaluate(combine(centroid, worst.point, -REFLECTION));
+    if (reflected.value < best.value) {
+      const expanded = evaluate(combine(centroid, worst.point, -EXPANSION));
+      simplex[simplex.length - 1] =
+        expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < secondWorst.value) {
+      simplex[simplex.length - 1] = reflected;
+    } else {
+      // 反射点が良くなければ、反射点側か最悪点側へ収縮する
+      const outside = reflected.value < worst.value;
+      const contracted = evaluate(
+        combine(centroid, outside ? reflected.point : worst.point, CONTRACTION),
+      );
+      if (contracted.value < Math.min(reflected.value, worst.value)) {
+        simplex[simplex.length - 1] = contracted;
+      } else {
+        simplex = [
+          best,
+          ...simplex
+            .slice(1)
+            .map(vertex => evaluate(combine(best.point, vertex.point, SHRINK))),
+        ];
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return {
+    point: simplex[0].point,
+    value: simplex[0].value,
+    iterations,
+    evaluations,
+  };
+};
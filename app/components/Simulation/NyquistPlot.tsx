@@ -0,0 +1,125 @@
+import type { FrequencyPoint } from './FrequencyResponse';
+
+// 重ねて描く一巡伝達関数（測定値は点で描く）
+export interface NyquistSeries {
+  id: string;
+  label: string;
+  color: string;
+  points: FrequencyPoint[];
+  markers?: boolean;
+}
+
+interface NyquistPlotProps {
+  series: NyquistSeries[];
+}
+
+const SIZE = 300;
+// 表示範囲を決めるときに無視する大きさ（低域で積分器により発散する部分）
+const VIEW_LIMIT = 4;
+
+/**
+ * 一巡伝達関数のベクトル軌跡。正の周波数を実線、負の周波数（実軸に対して対称）を破線で描き、
+ * 安定性を判断する -1 の点と単位円を示す。
+ */
+const NyquistPlot = ({ series }: NyquistPlotProps) => {
+  // -1 と原点が必ず入るように、範囲内の点から正方形の表示範囲を決める
+  const visible = series
+    .flatMap(item => item.points)
+    .map(point => point.response)
+    .filter(z => Math.hypot(z.re, z.im) <= VIEW_LIMIT);
+  const extent =
+    Math.max(
+      1.2,
+      ...visible.map(z => Math.max(Math.abs(z.re + 0.5), Math.abs(z.im))),
+    ) * 1.1;
+  // 1 あたりの長さ
+  const scale = SIZE / (2 * extent);
+  const toX = (re: number) => (re + 0.5 + extent) * scale;
+  const toY = (im: number) => (extent - im) * scale;
+  const path = (points: FrequencyPoint[], sign: number) =>
+    points
+      .filter(
+        ({ response }) =>
+          Number.isFinite(response.re) && Number.isFinite(response.im),
+      )
+      .map(
+        ({ response }) =>
+          `${toX(response.re).toFixed(1)},${toY(sign * response.im).toFixed(
+            1,
+          )}`,
+      )
+      .join(' ');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-x-3 text-xs">
+        {series.map(item => (
+          <span key={item.id} style={{ color: item.color }}>
+            {item.label}
+          </span>
+        ))}
+      </div>
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full max-w-xs bg-gray-50 rounded"
+      >
+        <line
+          x1={0}
+          y1={toY(0)}
+          x2={SIZE}
+          y2={toY(0)}
+          stroke="rgb(209 213 219)"
+        />
+        <line
+          x1={toX(0)}
+          y1={0}
+          x2={toX(0)}
+          y2={SIZE}
+          stroke="rgb(209 213 219)"
+        />
+        <circle
+          cx={toX(0)}
+          cy={toY(0)}
+          r={scale}
+          fill="none"
+          stroke="rgb(156 163 175)"
+          strokeDasharray="3,3"
+        />
+        {series.map(item =>
+          item.markers ? (
+            item.points.map(({ frequency, response }) => (
+              <circle
+                key={`${item.id}-${frequency}`}
+                cx={toX(response.re)}
+                cy={toY(response.im)}
+                r={3}
+                fill={item.color}
+              />
+            ))
+          ) : (
+            <g key={item.id} fill="none" stroke={item.color}>
+              <polyline points={path(item.points, 1)} strokeWidth={1.5} />
+              <polyline
+                points={path(item.points, -1)}
+                strokeWidth={1}
+                strokeDasharray="4,3"
+                opacity={0.5}
+              />
+            </g>
+          ),
+        )}
+        <path
+          d={`M ${toX(-1) - 5} ${toY(0) - 5} l 10 10 m 0 -10 l -10 10`}
+          stroke="rgb(220 38 38)"
+          strokeWidth={2}
+        />
+      </svg>
+      <div className="text-[10px] text-gray-400">
+        表示範囲: 実部 {(-0.5 - extent).toFixed(1)}〜
+        {(-0.5 + extent).toFixed(1)}（赤の×が -1、破線の円が単位円）
+      </div>
+    </div>
+  );
+};
+
+export default NyquistPlot;
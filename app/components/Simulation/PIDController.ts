@@ -0,0 +1,213 @@
+// PIDController.ts
+
+/**
+ * 出力飽和時の積分器の扱い
+ * - none: 常に積分する
+ * - conditional: 出力が飽和し、誤差がさらに飽和を深める向きのときは積分を止める
+ * - clamping: 積分項を、他の項と合わせて出力範囲に収まる範囲へ制限する
+ * - backCalculation: 飽和量（飽和後 - 飽和前）を積分器へ帰還して追従させる
+ */
+export type AntiWindupMode =
+  | 'none'
+  | 'conditional'
+  | 'clamping'
+  | 'backCalculation';
+
+export const ANTI_WINDUP_LABELS: Record<AntiWindupMode, string> = {
+  none: 'なし',
+  conditional: '条件付き積分',
+  clamping: 'クランプ',
+  backCalculation: 'バックカリキュレーション',
+};
+
+export interface PIDOptions {
+  // 微分フィルタの帯域 N[rad/s]（D(s) = Kd N s / (s + N)）。Infinity でフィルタなし
+  derivativeFilter: number;
+  // 微分を偏差ではなく測定値に対して取る（目標値変化による微分キックを防ぐ）
+  derivativeOnMeasurement: boolean;
+  // 比例項・微分項での目標値の重み b, c
+  setpointWeightP: number;
+  setpointWeightD: number;
+  antiWindup: AntiWindupMode;
+  // バックカリキュレーションの追従ゲイン Kb（= 1 / 追従時定数）
+  backCalculationGain: number;
+}
+
+export const DEFAULT_PID_OPTIONS: PIDOptions = {
+  derivativeFilter: Infinity,
+  derivativeOnMeasurement: false,
+  setpointWeightP: 1,
+  setpointWeightD: 1,
+  antiWindup: 'clamping',
+  backCalculationGain: 1,
+};
+
+export interface PIDGains {
+  kp: number;
+  ki: number;
+  kd: number;
+}
+
+// 直近ステップの各項の寄与
+export interface PIDTerms {
+  p: number;
+  i: number;
+  d: number;
+  feedforward: number;
+  unsaturatedOutput: number;
+  output: number;
+  saturated: boolean;
+}
+
+const ZERO_TERMS: PIDTerms = {
+  p: 0,
+  i: 0,
+  d: 0,
+  feedforward: 0,
+  unsaturatedOutput: 0,
+  output: 0,
+  saturated: false,
+};
+
+/**
+ * 2自由度 PID 制御器
+ *   u = Kp (b r - y) + I + Kd D[c r - y] + u_ff
+ * 積分項は Ki を掛けた値で保持するため、Ki = 0 やゲイン変更時にも出力が跳ばない。
+ */
+export class PIDController {
+  private integral = 0;
+  private derivative = 0;
+  private prevDerivativeInput: number | null = null;
+  private terms: PIDTerms = ZERO_TERMS;
+  private options: PIDOptions;
+
+  constructor(
+    private kp: number,
+    private ki: number,
+    private kd: number,
+    private outputMin: number = -Infinity,
+    private outputMax: number = Infinity,
+    options: Partial<PIDOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_PID_OPTIONS, ...options };
+  }
+
+  public update(
+    setpoint: number,
+    measured: number,
+    dt: number,
+    feedforward: number = 0,
+  ): number {
+    const {
+      derivativeFilter,
+      derivativeOnMeasurement,
+      setpointWeightP,
+      setpointWeightD,
+      antiWindup,
+      backCalculationGain,
+    } = this.options;
+    const error = setpoint - measured;
+
+    const p = this.kp * (setpointWeightP * setpoint - measured);
+
+    // 微分項（後退差分で離散化した1次フィルタ付き）
+    const derivativeInput =
+      (derivativeOnMeasurement ? 0 : setpointWeightD * setpoint) - measured;
+    if (this.prevDerivativeInput !== null && dt > 0) {
+      const rawDerivative = (derivativeInput - this.prevDerivativeInput) / dt;
+      const alpha =
+        derivativeFilter === Infinity
+          ? 1
+          : (derivativeFilter * dt) / (1 + derivativeFilter * dt);
+      this.derivative += (rawDerivative - this.derivative) * alpha;
+    }
+    this.prevDerivativeInput = derivativeInput;
+    const d = this.kd * this.derivative;
+
+    const saturate = (value: number): number =>
+      Math.min(Math.max(value, this.outputMin), this.outputMax);
+
+    // 積分項の更新
+    const others = p + d + feedforward;
+    const increment = this.ki * error * dt;
+    switch (antiWindup) {
+      case 'none':
+        this.integral += increment;
+        break;
+      case 'conditional': {
+        const unsaturated = others + this.integral;
+        const pushesHigh = unsaturated >= this.outputMax && increment > 0;
+        const pushesLow = unsaturated <= this.outputMin && increment < 0;
+        if (!pushesHigh && !pushesLow) {
+          this.integral += increment;
+        }
+        break;
+      }
+      case 'clamping':
+        this.integral = Math.min(
+          Math.max(
+            this.integral + increment,
+            Math.min(this.outputMin - others, 0),
+          ),
+          Math.max(this.outputMax - others, 0),
+        );
+        break;
+      case 'backCalculation': {
+        const unsaturated = others + this.integral;
+        const excess = saturate(unsaturated) - unsaturated;
+        this.integral += increment + backCalculationGain * excess * dt;
+        break;
+      }
+    }
+
+    const unsaturatedOutput = others + this.integral;
+    const output = saturate(unsaturatedOutput);
+    this.terms = {
+      p,
+      i: this.integral,
+      d,
+      feedforward,
+      unsaturatedOutput,
+      output,
+      saturated: output !== unsaturatedOutput,
+    };
+    return output;
+  }
+
+  // 直近の update での P/I/D/フィードフォワード各項の寄与
+  public getTerms(): PIDTerms {
+    return this.terms;
+  }
+
+  public reset(): void {
+    this.integral = 0;
+    this.derivative = 0;
+    this.prevDerivativeInput = null;
+    this.terms = ZERO_TERMS;
+  }
+
+  public setGains(kp: number, ki: number, kd: number): void {
+    this.kp = kp;
+    this.ki = ki;
+    this.kd = kd;
+  }
+
+  public setOutputLimits(outputMin: number, outputMax: number): void {
+    this.outputMin = outputMin;
+    this.outputMax = outputMax;
+  }
+
+  public setOptions(options: Partial<PIDOptions>): void {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+    // 微分の対象が変わったら前回値を捨てて微分キックを防ぐ
+    if (
+      previous.derivativeOnMeasurement !==
+        this.options.derivativeOnMeasurement ||
+      previous.setpointWeightD !== this.options.setpointWeightD
+    ) {
+      this.prevDerivativeInput = null;
+      this.derivative = 0;
+    }
+  }
+}
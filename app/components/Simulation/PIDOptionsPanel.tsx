@@ -0,0 +1,125 @@
+import { ANTI_WINDUP_LABELS } from './PIDController';
+import type { AntiWindupMode, PIDOptions } from './PIDController';
+
+interface PIDOptionsPanelProps {
+  options: PIDOptions;
+  onChange: (options: PIDOptions) => void;
+}
+
+const ANTI_WINDUP_MODES = Object.keys(ANTI_WINDUP_LABELS) as AntiWindupMode[];
+
+// PID の微分フィルタ・目標値重み・アンチワインドアップの設定
+const PIDOptionsPanel = ({ options, onChange }: PIDOptionsPanelProps) => {
+  const update = (patch: Partial<PIDOptions>) =>
+    onChange({ ...options, ...patch });
+  const filterEnabled = options.derivativeFilter !== Infinity;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-gray-700">微分・積分の設定</h4>
+      <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
+        <label className="flex items-center space-x-2">
+          <span>アンチワインドアップ</span>
+          <select
+            value={options.antiWindup}
+            onChange={e =>
+              update({ antiWindup: e.target.value as AntiWindupMode })
+            }
+            className="px-2 py-1 border rounded bg-white text-sm"
+          >
+            {ANTI_WINDUP_MODES.map(mode => (
+              <option key={mode} value={mode}>
+                {ANTI_WINDUP_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {options.antiWindup === 'backCalculation' && (
+          <label className="flex items-center space-x-2">
+            <span>追従ゲイン Kb</span>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={options.backCalculationGain}
+              onChange={e =>
+                update({ backCalculationGain: Number(e.target.value) })
+              }
+              className="w-20 px-2 py-1 border rounded"
+            />
+          </label>
+        )}
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={options.derivativeOnMeasurement}
+            onChange={e =>
+              update({ derivativeOnMeasurement: e.target.checked })
+            }
+            className="rounded text-blue-600"
+          />
+          <span>測定値を微分（微分キック防止）</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={filterEnabled}
+            onChange={e =>
+              update({ derivativeFilter: e.target.checked ? 50 : Infinity })
+            }
+            className="rounded text-blue-600"
+          />
+          <span>微分フィルタ N</span>
+          {filterEnabled && (
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={options.derivativeFilter}
+              onChange={e =>
+                update({
+                  derivativeFilter: Math.max(Number(e.target.value), 1),
+                })
+              }
+              className="w-20 px-2 py-1 border rounded"
+            />
+          )}
+        </label>
+        <div>
+          <label className="block">
+            比例項の目標値重み b: {options.setpointWeightP.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={options.setpointWeightP}
+            onChange={e => update({ setpointWeightP: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        {!options.derivativeOnMeasurement && (
+          <div>
+            <label className="block">
+              微分項の目標値重み c: {options.setpointWeightD.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={options.setpointWeightD}
+              onChange={e =>
+                update({ setpointWeightD: Number(e.target.value) })
+              }
+              className="w-full"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PIDOptionsPanel;
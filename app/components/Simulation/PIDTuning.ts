@@ -0,0 +1,97 @@
+import { nelderMead } from './NelderMead';
+import type { PIDGains } from './PIDController';
+import type { RelayResult } from './RelayAutoTune';
+
+// 調整対象として選べる PID ループ
+export interface TuningLoop {
+  id: string;
+  name: string;
+}
+
+export interface RelayTestOptions {
+  amplitudeRatio: number; // リレー振幅（ループの出力上限に対する比）
+  hysteresis: number; // 測定値の単位
+}
+
+export interface OptimizationOptions {
+  effortWeight: number;
+  maxIterations: number;
+}
+
+export interface OptimizationResult {
+  gains: PIDGains;
+  initialCost: number;
+  cost: number;
+  evaluations: number;
+}
+
+/**
+ * シミュレータごとの PID 調整の手段。
+ * 試験・最適化はいずれも画面のシミュレーションとは別のエンジンで一括実行する。
+ * 試験に失敗した場合は理由を表す Error を投げる。
+ */
+export interface PIDTuner<Config> {
+  loops: TuningLoop[];
+  getGains(loopId: string): PIDGains;
+  withGains(loopId: string, gains: PIDGains): Config;
+  // 開ループで不安定な系など、リレーで持続振動が得られない制御対象では null
+  runRelayTest:
+    | ((loopId: string, options: RelayTestOptions) => RelayResult)
+    | null;
+  optimize(loopId: string, options: OptimizationOptions): OptimizationResult;
+}
+
+export const DEFAULT_RELAY_TEST_OPTIONS: RelayTestOptions = {
+  amplitudeRatio: 0.2,
+  hysteresis: 0,
+};
+
+export const DEFAULT_OPTIMIZATION_OPTIONS: OptimizationOptions = {
+  effortWeight: 0.1,
+  maxIterations: 40,
+};
+
+// 改善幅がこれ以下なら最適化を打ち切る（評価値に対する比）
+const RELATIVE_TOLERANCE = 1e-3;
+
+/**
+ * 現在のゲインから Nelder–Mead 法で評価値 cost を最小化する。
+ * 負のゲインは 0 として評価するため、探索が負側へ出ても結果は常に 0 以上になる。
+ */
+export const optimizeGains = (
+  initial: PIDGains,
+  cost: (gains: PIDGains) => number,
+  maxIterations: number,
+): OptimizationResult => {
+  const toGains = ([kp, ki, kd]: number[]): PIDGains => ({
+    kp: Math.max(kp, 0),
+    ki: Math.max(ki, 0),
+    kd: Math.max(kd, 0),
+  });
+  const start = [initial.kp, initial.ki, initial.kd];
+  // 0 のゲインも動かせるよう、最大のゲインを基準に初期単体の大きさを決める
+  const magnitude = Math.max(...start, 1e-3);
+  const initialCost = cost(initial);
+
+  const result = nelderMead(point => cost(toGains(point)), start, {
+    initialStep: start.map(value => Math.max(0.3 * value, 0.1 * magnitude)),
+    maxIterations,
+    tolerance: Number.isFinite(initialCost)
+      ? RELATIVE_TOLERANCE * initialCost
+      : 0,
+  });
+  // 改善しなければ元のゲインのまま
+  return result.value < initialCost
+    ? {
+        gains: toGains(result.point),
+        initialCost,
+        cost: result.value,
+        evaluations: result.evaluations + 1,
+      }
+    : {
+        gains: initial,
+        initialCost,
+        cost: initialCost,
+        evaluations: result.evaluations + 1,
+      };
+};
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import {
+  DEFAULT_OPTIMIZATION_OPTIONS,
+  DEFAULT_RELAY_TEST_OPTIONS,
+} from './PIDTuning';
+import type {
+  OptimizationOptions,
+  OptimizationResult,
+  PIDTuner,
+  RelayTestOptions,
+} from './PIDTuning';
+import type { PIDGains } from './PIDController';
+import { TUNING_RULE_LABELS, suggestGains } from './RelayAutoTune';
+import type { RelayResult, TuningRule } from './RelayAutoTune';
+
+interface PIDTuningPanelProps<Config> {
+  tuner: PIDTuner<Config>;
+  onApply: (config: Config) => void;
+}
+
+const TUNING_RULES = Object.keys(TUNING_RULE_LABELS) as TuningRule[];
+
+const formatGains = ({ kp, ki, kd }: PIDGains) =>
+  `Kp ${kp.toFixed(3)} / Ki ${ki.toFixed(3)} / Kd ${kd.toFixed(3)}`;
+
+// リレー試験による限界感度の同定と、評価値の最小化による PID ゲインの自動調整
+const PIDTuningPanel = <Config,>({
+  tuner,
+  onApply,
+}: PIDTuningPanelProps<Config>) => {
+  const [loopId, setLoopId] = useState(tuner.loops[0].id);
+  const [relayOptions, setRelayOptions] = useState<RelayTestOptions>(
+    DEFAULT_RELAY_TEST_OPTIONS,
+  );
+  const [optimizationOptions, setOptimizationOptions] =
+    useState<OptimizationOptions>(DEFAULT_OPTIMIZATION_OPTIONS);
+  const [relayResult, setRelayResult] = useState<RelayResult | null>(null);
+  const [optimization, setOptimization] = useState<OptimizationResult | null>(
+    null,
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // 一括シミュレーションは数百ms〜数秒かかるため、実行中の表示を描画してから始める
+  const execute = (task: () => void) => {
+    setRunning(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        task();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const handleSelectLoop = (id: string) => {
+    setLoopId(id);
+    setRelayResult(null);
+    setOptimization(null);
+    setError(null);
+  };
+
+  const { runRelayTest } = tuner;
+  const handleRelayTest = () =>
+    execute(() => {
+      setRelayResult(null);
+      if (runRelayTest) {
+        setRelayResult(runRelayTest(loopId, relayOptions));
+      }
+    });
+
+  const handleOptimize = () =>
+    execute(() => {
+      const result = tuner.optimize(loopId, optimizationOptions);
+      setOptimization(result);
+      onApply(tuner.withGains(loopId, result.gains));
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">PID の自動調整</h3>
+        {tuner.loops.length > 1 && (
+          <select
+            value={loopId}
+            onChange={e => handleSelectLoop(e.target.value)}
+            className="px-2 py-1 border rounded bg-white text-sm"
+          >
+            {tuner.loops.map(loop => (
+              <option key={loop.id} value={loop.id}>
+                {loop.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        現在のゲイン: {formatGains(tuner.getGains(loopId))}
+      </p>
+
+      {/* リレー試験 */}
+      <div className="space-y-2">
+        <h4 className="font-medium text-gray-700">リレー試験</h4>
+        {runRelayTest ? (
+          <>
+            <div className="grid grid-cols-3 gap-4 items-end text-sm text-gray-600">
+              <label className="block">
+                <span className="block">
+                  振幅（出力上限の{' '}
+                  {(relayOptions.amplitudeRatio * 100).toFixed(0)}%）
+                </span>
+                <input
+                  type="range"
+                  min="0.05"
+                  max="1"
+                  step="0.05"
+                  value={relayOptions.amplitudeRatio}
+                  onChange={e =>
+                    setRelayOptions({
+                      ...relayOptions,
+                      amplitudeRatio: Number(e.target.value),
+                    })
+                  }
+                  className="w-full"
+                />
+              </label>
+              <label className="block">
+                <span className="block">ヒステリシス</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={relayOptions.hysteresis}
+                  onChange={e =>
+                    setRelayOptions({
+                      ...relayOptions,
+                      hysteresis: Math.max(Number(e.target.value), 0),
+                    })
+                  }
+                  className="w-full px-2 py-1 border rounded"
+                />
+              </label>
+              <button
+                onClick={handleRelayTest}
+                disabled={running}
+                className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+              >
+                試験を実行
+              </button>
+            </div>
+            {relayResult && (
+              <div className="space-y-1 text-sm text-gray-600">
+                <p>
+                  限界ゲイン Ku = {relayResult.ultimateGain.toFixed(3)}
+                  、限界周期 Tu = {relayResult.ultimatePeriod.toFixed(3)}s（
+                  {relayResult.cycles}周期の平均）
+                </p>
+                {TUNING_RULES.map(rule => {
+                  const gains = suggestGains(relayResult, rule);
+                  return (
+                    <div
+                      key={rule}
+                      className="flex items-center justify-between"
+                    >
+                      <span>
+                        {TUNING_RULE_LABELS[rule]}: {formatGains(gains)}
+                      </span>
+                      <button
+                        onClick={() => onApply(tuner.withGains(loopId, gains))}
+                        className="px-2 py-0.5 border rounded hover:bg-gray-100"
+                      >
+                        適用
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            この制御対象は開ループで不安定なため、リレー試験は使えません。
+          </p>
+        )}
+      </div>
+
+      {/* 評価値の最小化 */}
+      <div className="space-y-2">
+        <h4 className="font-medium text-gray-700">
+          最適化（ITAE + 制御量の二乗積分）
+        </h4>
+        <div className="grid grid-cols-3 gap-4 items-end text-sm text-gray-600">
+          <label className="block">
+            <span className="block">制御量の重み</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={optimizationOptions.effortWeight}
+              onChange={e =>
+                setOptimizationOptions({
+                  ...optimizationOptions,
+                  effortWeight: Math.max(Number(e.target.value), 0),
+                })
+              }
+              className="w-full px-2 py-1 border rounded"
+            />
+          </label>
+          <label className="block">
+            <span className="block">最大反復回数</span>
+            <input
+              type="number"
+              min="1"
+              max="200"
+              step="1"
+              value={optimizationOptions.maxIterations}
+              onChange={e =>
+                setOptimizationOptions({
+                  ...optimizationOptions,
+                  maxIterations: Math.min(
+                    Math.max(Math.round(Number(e.target.value)), 1),
+                    200,
+                  ),
+                })
+              }
+              className="w-full px-2 py-1 border rounded"
+            />
+          </label>
+          <button
+            onClick={handleOptimize}
+            disabled={running}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            最適化して適用
+          </button>
+        </div>
+        {optimization && (
+          <p className="text-sm text-gray-600">
+            評価値 {optimization.initialCost.toFixed(4)} →{' '}
+            {optimization.cost.toFixed(4)}（{optimization.evaluations}
+            回のシミュレーション）: {formatGains(optimization.gains)}
+          </p>
+        )}
+      </div>
+
+      {running && <p className="text-sm text-gray-500">実行中…</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PIDTuningPanel;
@@ -0,0 +1,32 @@
+export interface PerformanceWeights {
+  effort: number; // 制御量の二乗積分に掛ける重み
+}
+
+/**
+ * ステップ応答の評価値
+ *   J = ∫ t|e| dt + w ∫ u² dt
+ * ITAE は時間が経っても残る偏差を重く罰するため、整定の速さと定常偏差の小ささを同時に評価できる。
+ */
+export class PerformanceIndex {
+  private itae = 0;
+  private effort = 0;
+
+  constructor(private weights: PerformanceWeights) {}
+
+  public add(time: number, error: number, control: number, dt: number): void {
+    this.itae += time * Math.abs(error) * dt;
+    this.effort += control * control * dt;
+  }
+
+  public getITAE(): number {
+    return this.itae;
+  }
+
+  public getEffort(): number {
+    return this.effort;
+  }
+
+  public getValue(): number {
+    return this.itae + this.weights.effort * this.effort;
+  }
+}
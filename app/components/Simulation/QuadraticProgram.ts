@@ -0,0 +1,200 @@
+import {
+  add,
+  identity,
+  inverse,
+  multiply,
+  multiplyVector,
+  scale,
+  transpose,
+} from './Matrix';
+import type { Matrix } from './Matrix';
+
+export interface QPSolution {
+  solution: number[];
+  iterations: number;
+  primalResidual: number; // 制約違反の最大値（尺度調整後）
+  converged: boolean;
+}
+
+// ADMM の正則化・緩和係数
+const SIGMA = 1e-6;
+const ALPHA = 1.6;
+const INITIAL_RHO = 0.1;
+const MAX_ITERATIONS = 400;
+// ステップ幅 ρ を見直す間隔と、係数行列を作り直す変化の倍率
+const RHO_UPDATE_INTERVAL = 25;
+const RHO_UPDATE_RATIO = 5;
+const ABSOLUTE_TOLERANCE = 1e-3;
+const RELATIVE_TOLERANCE = 1e-3;
+const EQUILIBRATION_ITERATIONS = 10;
+
+const clip = (value: number, lower: number, upper: number): number =>
+  Math.min(Math.max(value, lower), upper);
+
+const normInf = (values: number[]): number =>
+  values.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+
+/**
+ * 凸二次計画問題
+ *   minimize ½ xᵀHx + fᵀx  subject to  lower ≤ Cx ≤ upper
+ * を OSQP と同じ ADMM の分解で解く。
+ * H と C を固定して f と上下限だけを変えながら繰り返し解く用途（MPC）を想定し、
+ * 変数・制約の尺度調整（Ruiz 法）と前回の解からのウォームスタートを行う。
+ */
+export class QuadraticProgram {
+  private H: Matrix;
+  private C: Matrix;
+  private Ct: Matrix;
+  // 尺度調整: 変数 x = D x̄、制約 E C D、コスト倍率 c
+  private D: number[];
+  private E: number[];
+  private costScale: number;
+  private rho = INITIAL_RHO;
+  private kktInverse: Matrix;
+  // 初期の ρ での分解。reset で作り直さずに戻せるよう保持する
+  private initialKktInverse: Matrix;
+  private x: number[];
+  private z: number[];
+  private y: number[];
+
+  constructor(H: Matrix, C: Matrix) {
+    const n = H.length;
+    const m = C.length;
+    this.D = new Array<number>(n).fill(1);
+    this.E = new Array<number>(m).fill(1);
+
+    // KKT 行列 [[H, Cᵀ], [C, 0]] の各列の最大要素が 1 に近づくよう反復的に割る
+    let scaledH = H.map(row => row.slice());
+    let scaledC = C.map(row => row.slice());
+    for (let k = 0; k < EQUILIBRATION_ITERATIONS; k++) {
+      const delta = scaledH.map((row, j) => {
+        const norm = Math.max(
+          normInf(row),
+          normInf(scaledC.map(constraint => constraint[j])),
+        );
+        return norm > 1e-8 ? 1 / Math.sqrt(norm) : 1;
+      });
+      const epsilon = scaledC.map(row => {
+        const norm = normInf(row);
+        return norm > 1e-8 ? 1 / Math.sqrt(norm) : 1;
+      });
+      scaledH = scaledH.map((row, i) =>
+        row.map((value, j) => value * delta[i] * delta[j]),
+      );
+      scaledC = scaledC.map((row, i) =>
+        row.map((value, j) => value * epsilon[i] * delta[j]),
+      );
+      this.D = this.D.map((value, i) => value * delta[i]);
+      this.E = this.E.map((value, i) => value * epsilon[i]);
+    }
+    this.costScale =
+      1 /
+      Math.max(scaledH.reduce((sum, row) => sum + normInf(row), 0) / n, 1e-8);
+
+    this.H = scale(scaledH, this.costScale);
+    this.C = scaledC;
+    this.Ct = transpose(scaledC);
+    this.kktInverse = this.factorize();
+    this.initialKktInverse = this.kktInverse;
+    this.x = new Array<number>(n).fill(0);
+    this.z = new Array<number>(m).fill(0);
+    this.y = new Array<number>(m).fill(0);
+  }
+
+  // 前回の解と調整した ρ を捨てて最初から解き直す（同じ入力なら同じ解の列になる）
+  public reset(): void {
+    this.rho = INITIAL_RHO;
+    this.kktInverse = this.initialKktInverse;
+    this.x.fill(0);
+    this.z.fill(0);
+    this.y.fill(0);
+  }
+
+  public solve(f: number[], lower: number[], upper: number[]): QPSolution {
+    const q = f.map((value, i) => value * this.D[i] * this.costScale);
+    const l = lower.map((value, i) => value * this.E[i]);
+    const u = upper.map((value, i) => value * this.E[i]);
+    let { x, z, y } = this;
+    z = z.map((value, i) => clip(value, l[i], u[i]));
+
+    let iterations = 0;
+    let primalResidual = Infinity;
+    let converged = false;
+    while (iterations < MAX_ITERATIONS) {
+      iterations++;
+      const rho = this.rho;
+
+      // x̃ = (H + σI + ρCᵀC)⁻¹ (σx - q + Cᵀ(ρz - y))
+      const rhs = multiplyVector(
+        this.Ct,
+        z.map((value, i) => rho * value - y[i]),
+      ).map((value, i) => value + SIGMA * x[i] - q[i]);
+      const xTilde = multiplyVector(this.kktInverse, rhs);
+      const zTilde = multiplyVector(this.C, xTilde);
+
+      // 過緩和してから制約集合へ射影する
+      const zRelaxed = zTilde.map(
+        (value, i) => ALPHA * value + (1 - ALPHA) * z[i],
+      );
+      x = xTilde.map((value, i) => ALPHA * value + (1 - ALPHA) * x[i]);
+      z = zRelaxed.map((value, i) => clip(value + y[i] / rho, l[i], u[i]));
+      y = y.map((value, i) => value + rho * (zRelaxed[i] - z[i]));
+
+      // 主残差 ‖Cx - z‖ と双対残差 ‖Hx + q + Cᵀy‖
+      const Cx = multiplyVector(this.C, x);
+      const Hx = multiplyVector(this.H, x);
+      const Cty = multiplyVector(this.Ct, y);
+      primalResidual = normInf(Cx.map((value, i) => value - z[i]));
+      const dualResidual = normInf(Hx.map((value, i) => value + q[i] + Cty[i]));
+      const primalScale = Math.max(normInf(Cx), normInf(z));
+      const dualScale = Math.max(normInf(Hx), normInf(Cty), normInf(q));
+      if (
+        primalResidual <=
+          ABSOLUTE_TOLERANCE + RELATIVE_TOLERANCE * primalScale &&
+        dualResidual <= ABSOLUTE_TOLERANCE + RELATIVE_TOLERANCE * dualScale
+      ) {
+        converged = true;
+        break;
+      }
+
+      // 主・双対残差の比に合わせて ρ を調整する
+      if (iterations % RHO_UPDATE_INTERVAL === 0) {
+        const nextRho =
+          rho *
+          Math.sqrt(
+            primalResidual /
+              Math.max(primalScale, 1e-10) /
+              Math.max(dualResidual / Math.max(dualScale, 1e-10), 1e-10),
+          );
+        if (
+          Number.isFinite(nextRho) &&
+          (nextRho > rho * RHO_UPDATE_RATIO || nextRho < rho / RHO_UPDATE_RATIO)
+        ) {
+          this.rho = clip(nextRho, 1e-6, 1e6);
+          this.kktInverse = this.factorize();
+        }
+      }
+    }
+
+    // 次回の初期値（ウォームスタート）として保持する
+    this.x = x;
+    this.z = z;
+    this.y = y;
+    return {
+      solution: x.map((value, i) => value * this.D[i]),
+      iterations,
+      primalResidual,
+      converged,
+    };
+  }
+
+  private factorize(): Matrix {
+    const n = this.H.length;
+    return inverse(
+      add(
+        add(this.H, scale(identity(n), SIGMA)),
+        scale(multiply(this.Ct, this.C), this.rho),
+      ),
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// シード付き擬似乱数生成器（同じシードなら同じ乱数列を返す）
+
+// [0, 1) の一様乱数を返す関数
+export type RandomSource = () => number;
+
+/**
+ * mulberry32 による32bit擬似乱数生成器。
+ * Math.random() と異なり、シードを与えれば実行環境によらず同じ列を再現できる。
+ */
+export function createRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// [-1, 1) の一様乱数
+export function uniformSigned(random: RandomSource): number {
+  return (random() - 0.5) * 2;
+}
+
+// 標準正規分布に従う乱数（Box-Muller法）
+export function gaussian(random: RandomSource): number {
+  const u1 = Math.max(random(), Number.MIN_VALUE);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// 新しいシード値を生成する（UIでの「ランダム」ボタン用）
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
@@ -0,0 +1,131 @@
+import type { PIDGains } from './PIDController';
+
+export interface RelayOptions {
+  amplitude: number; // リレー出力の振幅 d
+  hysteresis: number; // 切り替えに必要な偏差の幅 ε（ノイズでの誤切り替え防止）
+  samplePeriod: number; // リレー出力を更新する周期[s]
+}
+
+export interface RelayResult {
+  ultimateGain: number; // 限界ゲイン Ku
+  ultimatePeriod: number; // 限界周期 Tu[s]
+  oscillationAmplitude: number; // 偏差の振動振幅 a
+  cycles: number; // 推定に使った周期の数
+}
+
+// 初期の過渡応答を含む周期は推定に使わない
+const DISCARDED_CYCLES = 2;
+// 振動の周期が更新周期のこの倍数に満たない場合は、制御対象ではなく
+// 更新の遅れ（サンプリング）で決まる見かけの振動とみなす
+const MIN_SAMPLES_PER_PERIOD = 10;
+
+/**
+ * Åström–Hägglund のリレーフィードバック試験。
+ * 偏差の符号に応じて ±d を出力し、生じた持続振動の周期と振幅から
+ * 記述関数法で限界ゲイン Ku = 4d / (π√(a² - ε²)) と限界周期 Tu を求める。
+ */
+export class RelayFeedback {
+  private options: RelayOptions;
+  private output: number;
+  // 出力が + へ切り替わった時刻（1周期の区切り）
+  private lastRisingTime: number | null = null;
+  private errorMax = -Infinity;
+  private errorMin = Infinity;
+  private periods: number[] = [];
+  private amplitudes: number[] = [];
+
+  constructor(options: RelayOptions) {
+    this.options = options;
+    this.output = options.amplitude;
+  }
+
+  public update(error: number, time: number): number {
+    const { amplitude, hysteresis } = this.options;
+    this.errorMax = Math.max(this.errorMax, error);
+    this.errorMin = Math.min(this.errorMin, error);
+
+    if (error > hysteresis && this.output < 0) {
+      this.output = amplitude;
+      if (this.lastRisingTime !== null) {
+        this.periods.push(time - this.lastRisingTime);
+        this.amplitudes.push((this.errorMax - this.errorMin) / 2);
+      }
+      this.lastRisingTime = time;
+      this.errorMax = error;
+      this.errorMin = error;
+    } else if (error < -hysteresis && this.output > 0) {
+      this.output = -amplitude;
+    }
+    return this.output;
+  }
+
+  // 推定に使える周期の数
+  public getCycles(): number {
+    return Math.max(this.periods.length - DISCARDED_CYCLES, 0);
+  }
+
+  /**
+   * 振動が確認できなければ null。
+   * 周期が更新周期に近すぎて限界点とみなせない場合は理由を表す Error を投げる。
+   */
+  public getResult(): RelayResult | null {
+    const cycles = this.getCycles();
+    if (cycles === 0) {
+      return null;
+    }
+    const average = (values: number[]) =>
+      values.slice(DISCARDED_CYCLES).reduce((sum, value) => sum + value, 0) /
+      cycles;
+    const oscillationAmplitude = average(this.amplitudes);
+    const { amplitude, hysteresis, samplePeriod } = this.options;
+    if (oscillationAmplitude <= hysteresis) {
+      return null;
+    }
+    const ultimatePeriod = average(this.periods);
+    const samples = ultimatePeriod / samplePeriod;
+    if (samples < MIN_SAMPLES_PER_PERIOD) {
+      const period = ultimatePeriod.toFixed(3);
+      const ratio = samples.toFixed(1);
+      throw new Error(
+        `振動の周期 ${period}s がループの更新周期の ${ratio} 倍しかなく、` +
+          '更新の遅れによる見かけの振動のため限界点を求められません',
+      );
+    }
+    return {
+      ultimateGain:
+        (4 * amplitude) /
+        (Math.PI *
+          Math.sqrt(
+            oscillationAmplitude * oscillationAmplitude -
+              hysteresis * hysteresis,
+          )),
+      ultimatePeriod,
+      oscillationAmplitude,
+      cycles,
+    };
+  }
+}
+
+export type TuningRule = 'zieglerNichols' | 'tyreusLuyben';
+
+export const TUNING_RULE_LABELS: Record<TuningRule, string> = {
+  zieglerNichols: 'Ziegler–Nichols',
+  tyreusLuyben: 'Tyreus–Luyben',
+};
+
+/**
+ * 限界ゲイン・限界周期から PID ゲインを求める。
+ * - Ziegler–Nichols: Kp = 0.6Ku, Ti = Tu/2, Td = Tu/8（速いが行き過ぎが大きい）
+ * - Tyreus–Luyben: Kp = Ku/2.2, Ti = 2.2Tu, Td = Tu/6.3（控えめで頑健）
+ */
+export const suggestGains = (
+  result: RelayResult,
+  rule: TuningRule,
+): PIDGains => {
+  const { ultimateGain: ku, ultimatePeriod: tu } = result;
+  const [kp, ti, td] =
+    rule === 'zieglerNichols'
+      ? [0.6 * ku, tu / 2, tu / 8]
+      : [ku / 2.2, 2.2 * tu, tu / 6.3];
+  return { kp, ki: kp / ti, kd: kp * td };
+};
@@ -0,0 +1,150 @@
+import type { TelemetryConfig, TimedSample } from './TelemetryRecorder';
+
+// ファイルの識別子と形式の版（形式を変えたら版を上げる）
+const REPLAY_FORMAT = 'simulation-replay';
+const REPLAY_VERSION = 1;
+
+// 描画用の状態の記録（シミュレーション時間で直近 300 秒。
+// 実時間より速く進むシミュレータでは、実時間で見るとその分短くなる）
+export const DEFAULT_REPLAY_CONFIG: TelemetryConfig = {
+  rate: 30,
+  capacity: 9000,
+};
+
+export type ReplayFrame<Frame> = TimedSample<Frame>;
+
+/**
+ * 再生できる記録。frames は時刻順の描画用の状態で、
+ * context は記録中は変わらないもの（パラメータ・環境など）を1度だけ持つ。
+ */
+export interface ReplayRecording<Frame, Context> {
+  format: typeof REPLAY_FORMAT;
+  version: typeof REPLAY_VERSION;
+  simulator: string;
+  savedAt: string;
+  context: Context;
+  frames: ReplayFrame<Frame>[];
+}
+
+/**
+ * シミュレータごとの記録の形式。読み込んだ記録は表示する前に各フレームと実行条件を検証し、
+ * 壊れたファイルで描画が例外にならないようにする。
+ */
+export interface ReplaySchema<Frame, Context> {
+  simulator: string; // ファイルの取り違えを防ぐための識別子
+  isFrame: (frame: unknown) => frame is Frame;
+  isContext: (context: unknown) => context is Context;
+}
+
+// 再生中に表示するフレームと、その記録の実行条件
+export interface ReplayView<Frame, Context> {
+  frame: ReplayFrame<Frame>;
+  context: Context;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON で表せない Infinity・NaN（バッテリーの残り時間など）は文字列にして保存する
+const NON_FINITE_NUMBERS = ['Infinity', '-Infinity', 'NaN'];
+
+export const Replay = {
+  create<Frame, Context>(
+    simulator: string,
+    context: Context,
+    frames: ReplayFrame<Frame>[],
+  ): ReplayRecording<Frame, Context> {
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      simulator,
+      savedAt: new Date().toISOString(),
+      context,
+      frames,
+    };
+  },
+
+  toJSON<Frame, Context>(recording: ReplayRecording<Frame, Context>): string {
+    return JSON.stringify(recording, (_, value) =>
+      typeof value === 'number' && !Number.isFinite(value)
+        ? String(value)
+        : value,
+    );
+  },
+
+  /**
+   * ファイルから読み込んだ JSON を検証する。
+   * 各フレームと実行条件の中身はシミュレータごとの schema で検査する。
+   */
+  parse<Frame, Context>(
+    text: string,
+    schema: ReplaySchema<Frame, Context>,
+  ): ReplayRecording<Frame, Context> {
+    let value: unknown;
+    try {
+      value = JSON.parse(text, (_, item) =>
+        NON_FINITE_NUMBERS.includes(item) ? Number(item) : item,
+      );
+    } catch {
+      throw new Error('JSON として読み込めません');
+    }
+    if (!isRecord(value) || value.format !== REPLAY_FORMAT) {
+      throw new Error('リプレイのファイルではありません');
+    }
+    if (value.version !== REPLAY_VERSION) {
+      throw new Error(`未対応のリプレイの版です: ${String(value.version)}`);
+    }
+    if (value.simulator !== schema.simulator) {
+      throw new Error(
+        `別のシミュレータのリプレイです: ${String(value.simulator)}`,
+      );
+    }
+    const { frames, context, savedAt } = value;
+    if (typeof savedAt !== 'string') {
+      throw new Error('リプレイの保存日時がありません');
+    }
+    if (
+      !Array.isArray(frames) ||
+      frames.length === 0 ||
+      !frames.every(
+        (frame, i) =>
+          isRecord(frame) &&
+          typeof frame.time === 'number' &&
+          Number.isFinite(frame.time) &&
+          (i === 0 || frame.time >= frames[i - 1].time),
+      )
+    ) {
+      throw new Error('リプレイの記録が空か、時刻順に並んでいません');
+    }
+    const invalid = frames.findIndex(frame => !schema.isFrame(frame));
+    if (invalid >= 0) {
+      throw new Error(`リプレイの ${invalid + 1} コマ目の状態が不正です`);
+    }
+    if (!schema.isContext(context)) {
+      throw new Error('リプレイの実行条件が不正です');
+    }
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      simulator: schema.simulator,
+      savedAt,
+      context,
+      frames,
+    };
+  },
+
+  // 時刻 time 以前で最も新しいフレームの番号（最初のフレームより前なら 0）
+  frameIndexAt<Frame>(frames: ReplayFrame<Frame>[], time: number): number {
+    let low = 0;
+    let high = frames.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (frames[middle].time <= time) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  },
+};
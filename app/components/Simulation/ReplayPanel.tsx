@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Replay } from './Replay';
+import type { ReplayRecording, ReplaySchema, ReplayView } from './Replay';
+import { download } from './TelemetryPanel';
+import type { TelemetryRecorder } from './TelemetryRecorder';
+
+interface ReplayPanelProps<Frame extends object, Context> {
+  recorder: TelemetryRecorder<Frame>; // 実行中に記録している描画用の状態
+  schema: ReplaySchema<Frame, Context>; // 読み込んだファイルの検証
+  // 記録を取り出す時点の実行条件（パラメータ・環境など）
+  getContext: () => Context;
+  fileName: string; // 拡張子を除くファイル名
+  // 実時間1秒あたりに進むシミュレーション時間[s]（ライブ実行と同じ速さを ×1 とする）
+  timeScale?: number;
+  // 再生中は表示するフレーム、ライブ表示に戻ると null
+  onViewChange: (view: ReplayView<Frame, Context> | null) => void;
+}
+
+const SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4];
+
+const formatTime = (time: number) => `${time.toFixed(2)}s`;
+
+/**
+ * 記録した実行の再生。再シミュレーションはせず、記録した状態をそのまま表示させる。
+ * 再生中の記録はコマ送り・時刻の指定ができ、ファイルへの保存と読み込みができる。
+ */
+const ReplayPanel = <Frame extends object, Context>({
+  recorder,
+  schema,
+  getContext,
+  fileName,
+  timeScale = 1,
+  onViewChange,
+}: ReplayPanelProps<Frame, Context>) => {
+  const [recording, setRecording] = useState<ReplayRecording<
+    Frame,
+    Context
+  > | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  // 再生位置の時刻（フレームの間の時刻も保持して、低速再生でも進むようにする）
+  const playbackTimeRef = useRef(0);
+
+  const frames = recording?.frames ?? [];
+  const first = frames[0]?.time ?? 0;
+  const last = frames[frames.length - 1]?.time ?? 0;
+
+  useEffect(() => {
+    onViewChange(
+      recording
+        ? { frame: recording.frames[index], context: recording.context }
+        : null,
+    );
+  }, [recording, index]);
+
+  // 再生中は実時間をシミュレーション時間へ換算し、速度を掛けた分だけ進める
+  useEffect(() => {
+    if (!recording || !playing) return;
+    let previous = performance.now();
+    let frameId = requestAnimationFrame(function advance(now: number) {
+      playbackTimeRef.current += ((now - previous) / 1000) * timeScale * speed;
+      previous = now;
+      const { frames } = recording;
+      if (playbackTimeRef.current >= frames[frames.length - 1].time) {
+        playbackTimeRef.current = frames[frames.length - 1].time;
+        setIndex(frames.length - 1);
+        setPlaying(false);
+        return;
+      }
+      setIndex(Replay.frameIndexAt(frames, playbackTimeRef.current));
+      frameId = requestAnimationFrame(advance);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [recording, playing, speed, timeScale]);
+
+  const open = (next: ReplayRecording<Frame, Context>): void => {
+    setRecording(next);
+    setIndex(0);
+    setPlaying(false);
+    playbackTimeRef.current = next.frames[0].time;
+    setError(null);
+  };
+
+  const seek = (next: number): void => {
+    const clamped = Math.min(Math.max(next, 0), frames.length - 1);
+    setIndex(clamped);
+    playbackTimeRef.current = frames[clamped]?.time ?? 0;
+  };
+
+  const handlePlay = (): void => {
+    // 最後まで再生した後は先頭から再生し直す
+    if (!playing && index === frames.length - 1) {
+      seek(0);
+    }
+    setPlaying(!playing);
+  };
+
+  const snapshot = () =>
+    Replay.create(schema.simulator, getContext(), recorder.getSamples());
+
+  const handleSave = (): void => {
+    download(
+      Replay.toJSON(recording ?? snapshot()),
+      `${fileName}.replay.json`,
+      'application/json',
+    );
+  };
+
+  const handleLoad = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      open(Replay.parse(await file.text(), schema));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-medium text-gray-900">リプレイ</h3>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {recording ? (
+          <button
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+            onClick={() => {
+              setRecording(null);
+              setPlaying(false);
+            }}
+          >
+            ライブ表示に戻る
+          </button>
+        ) : (
+          <button
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+            disabled={recorder.size() === 0}
+            onClick={() => open(snapshot())}
+          >
+            記録を再生
+          </button>
+        )}
+        <button
+          className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+          disabled={!recording && recorder.size() === 0}
+          onClick={handleSave}
+        >
+          ファイルに保存
+        </button>
+        <label className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 cursor-pointer">
+          ファイルから読み込み
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleLoad}
+            className="hidden"
+          />
+        </label>
+        {!recording && (
+          <span className="text-gray-500">{recorder.size()} フレーム</span>
+        )}
+      </div>
+
+      {recording && (
+        <div className="space-y-2">
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            step={1}
+            value={index}
+            onChange={e => seek(Number(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <button
+              className="px-2 py-1 border rounded hover:bg-gray-100"
+              onClick={() => seek(index - 1)}
+              disabled={playing}
+            >
+              ◀ 1コマ
+            </button>
+            <button
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+              onClick={handlePlay}
+            >
+              {playing ? '一時停止' : '再生'}
+            </button>
+            <button
+              className="px-2 py-1 border rounded hover:bg-gray-100"
+              onClick={() => seek(index + 1)}
+              disabled={playing}
+            >
+              1コマ ▶
+            </button>
+            <select
+              value={speed}
+              onChange={e => setSpeed(Number(e.target.value))}
+              className="px-2 py-1 border rounded bg-white"
+            >
+              {SPEEDS.map(value => (
+                <option key={value} value={value}>
+                  ×{value}
+                </option>
+              ))}
+            </select>
+            <span>
+              {formatTime(frames[index].time - first)} /{' '}
+              {formatTime(last - first)}（{index + 1}/{frames.length}）
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            再生中はシミュレーションを止め、記録した状態を表示しています（
+            {new Date(recording.savedAt).toLocaleString()} の記録）。
+          </p>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,115 @@
+// ステップ試験の1時刻分の応答
+export interface StepResponseSample {
+  time: number; // 目標値を変えてからの時間[s]
+  value: number; // 測定値
+  control: number; // 制御量（制御器の出力）
+}
+
+export interface StepMetrics {
+  riseTime: number | null; // 変化量の10%→90%に要した時間[s]（到達しなければ null）
+  overshoot: number; // 行き過ぎ量[%]
+  settlingTime: number | null; // 許容帯に入ったまま出なくなる時間[s]（整定しなければ null）
+  steadyStateError: number; // 最後の 10% の区間の平均誤差（測定値の単位）
+  iae: number; // ∫|e| dt
+  ise: number; // ∫e² dt
+  itae: number; // ∫t|e| dt
+  controlEffort: number; // ∫u² dt
+}
+
+export interface StepAnalysisOptions {
+  settlingBand: number; // 整定とみなす誤差（変化量に対する比率）
+}
+
+export const DEFAULT_STEP_ANALYSIS_OPTIONS: StepAnalysisOptions = {
+  settlingBand: 0.02,
+};
+
+/**
+ * 測定値が initial から target へ変わる応答を評価する。
+ * 誤差・評価値は測定値の単位で求め、立ち上がり・行き過ぎは変化量に対する比率で判定する。
+ */
+export const analyzeStepResponse = (
+  samples: StepResponseSample[],
+  initial: number,
+  target: number,
+  options: StepAnalysisOptions = DEFAULT_STEP_ANALYSIS_OPTIONS,
+): StepMetrics => {
+  const change = target - initial;
+  if (samples.length === 0 || change === 0) {
+    throw new Error('応答の記録がないか、目標値が変化していません');
+  }
+  // 変化量で正規化した応答（0 から 1 へ向かう）
+  const progress = (value: number) => (value - initial) / change;
+
+  const crossing = (level: number) =>
+    samples.find(sample => progress(sample.value) >= level)?.time ?? null;
+  const low = crossing(0.1);
+  const high = crossing(0.9);
+
+  const peak = Math.max(...samples.map(sample => progress(sample.value)));
+  const outside = samples.filter(
+    sample => Math.abs(progress(sample.value) - 1) > options.settlingBand,
+  );
+  const lastOutside = outside[outside.length - 1];
+  const lastSample = samples[samples.length - 1];
+  const settlingTime =
+    lastOutside === undefined
+      ? 0
+      : lastOutside === lastSample
+      ? null
+      : samples[samples.indexOf(lastOutside) + 1].time;
+
+  const tail = samples.slice(Math.floor(samples.length * 0.9));
+  const steadyStateError =
+    tail.reduce((sum, sample) => sum + (target - sample.value), 0) /
+    tail.length;
+
+  let iae = 0;
+  let ise = 0;
+  let itae = 0;
+  let controlEffort = 0;
+  samples.forEach((sample, i) => {
+    const dt = sample.time - (i > 0 ? samples[i - 1].time : 0);
+    const error = Math.abs(target - sample.value);
+    iae += error * dt;
+    ise += error * error * dt;
+    itae += sample.time * error * dt;
+    controlEffort += sample.control * sample.control * dt;
+  });
+
+  return {
+    riseTime: low !== null && high !== null ? high - low : null,
+    overshoot: Math.max(peak - 1, 0) * 100,
+    settlingTime,
+    steadyStateError,
+    iae,
+    ise,
+    itae,
+    controlEffort,
+  };
+};
+
+// 試験できる軸
+export interface StepTestAxis {
+  id: string;
+  name: string;
+  unit: string;
+  defaultAmplitude: number;
+  duration: number; // 試験時間[s]
+}
+
+export interface StepTestResult {
+  initial: number;
+  target: number;
+  samples: StepResponseSample[];
+  metrics: StepMetrics;
+  failed: boolean; // 試験中に墜落・転倒した（評価値は失敗までの分）
+}
+
+/**
+ * シミュレータごとのステップ試験。現在の制御器の設定で一括シミュレーションを行う。
+ */
+export interface StepTester {
+  axes: StepTestAxis[];
+  run: (axisId: string, amplitude: number) => StepTestResult;
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import StripChart from './StripChart';
+import type { ChartSignal } from './StripChart';
+import { nearestSample } from './StripChartPanel';
+import type { TelemetrySample } from './TelemetryRecorder';
+import type { StepTestResult, StepTester } from './StepResponse';
+
+interface StepTestPanelProps {
+  tester: StepTester;
+  controllerName: string; // 比較表に記す、試験した制御器の名前
+}
+
+interface StepTestRun {
+  id: number;
+  controllerName: string;
+  axisId: string;
+  amplitude: number;
+  result: StepTestResult;
+}
+
+// 重ねて描く試験の数（新しいものから）
+const MAX_OVERLAID_RUNS = 5;
+const RUN_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c'];
+const MAX_POINTS = 400;
+
+const formatTime = (time: number | null) =>
+  time === null ? '-' : `${time.toFixed(2)}s`;
+
+/**
+ * 試験の応答を変化量で正規化し（開始値 0、目標値 1）、時刻をそろえて1つの記録にまとめる。
+ * 同じシミュレータの試験は刻み幅が等しいため、同じ番号の点は同じ時刻になる。
+ */
+const overlaySamples = (runs: StepTestRun[]): TelemetrySample[] => {
+  const length = Math.max(...runs.map(run => run.result.samples.length), 0);
+  const stride = Math.max(Math.ceil(length / MAX_POINTS), 1);
+  const samples: TelemetrySample[] = [];
+  for (let i = 0; i < length; i += stride) {
+    const sample: TelemetrySample = { time: 0, reference: 1 };
+    runs.forEach(({ id, result }) => {
+      const point = result.samples[i];
+      if (point) {
+        sample.time = point.time;
+        sample[`run${id}`] =
+          (point.value - result.initial) / (result.target - result.initial);
+      }
+    });
+    samples.push(sample);
+  }
+  return samples;
+};
+
+// 1軸の目標値を変えたときの応答を評価し、試験ごとの評価値を表で比較する
+const StepTestPanel = ({ tester, controllerName }: StepTestPanelProps) => {
+  const [axisId, setAxisId] = useState(tester.axes[0].id);
+  const [amplitude, setAmplitude] = useState(tester.axes[0].defaultAmplitude);
+  const [runs, setRuns] = useState<StepTestRun[]>([]);
+  const [nextId, setNextId] = useState(1);
+  const [cursorTime, setCursorTime] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // 制御器を切り替えて選択中の軸がなくなった場合は先頭の軸にする
+  const axis = tester.axes.find(item => item.id === axisId) ?? tester.axes[0];
+
+  const handleSelectAxis = (id: string) => {
+    const selected = tester.axes.find(item => item.id === id);
+    if (selected) {
+      setAxisId(selected.id);
+      setAmplitude(selected.defaultAmplitude);
+    }
+  };
+
+  // 一括シミュレーションの間も実行中の表示が出るよう、描画してから始める
+  const handleRun = () => {
+    setRunning(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        const result = tester.run(axis.id, amplitude);
+        setRuns(prev => [
+          ...prev,
+          { id: nextId, controllerName, axisId: axis.id, amplitude, result },
+        ]);
+        setNextId(id => id + 1);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const overlaid = runs
+    .filter(run => run.axisId === axis.id)
+    .slice(-MAX_OVERLAID_RUNS);
+  const samples = overlaySamples(overlaid);
+  const signal: ChartSignal = {
+    id: 'stepResponse',
+    label: `${axis.name}の応答（変化量で正規化）`,
+    series: [
+      { key: 'reference', label: '目標', color: '#6b7280', dashed: true },
+      ...overlaid.map((run, i) => ({
+        key: `run${run.id}`,
+        label: `#${run.id}`,
+        color: RUN_COLORS[i % RUN_COLORS.length],
+      })),
+    ],
+  };
+  const cursor =
+    cursorTime === null ? null : nearestSample(samples, cursorTime);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-medium text-gray-900">ステップ試験</h3>
+      <div className="flex flex-wrap items-end gap-4 text-sm text-gray-600">
+        <label className="block">
+          <span className="block">軸</span>
+          <select
+            value={axis.id}
+            onChange={e => handleSelectAxis(e.target.value)}
+            className="px-2 py-1 border rounded bg-white"
+          >
+            {tester.axes.map(item => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block">振幅[{axis.unit}]</span>
+          <input
+            type="number"
+            step="any"
+            value={amplitude}
+            onChange={e => setAmplitude(Number(e.target.value))}
+            className="w-24 px-2 py-1 border rounded"
+          />
+        </label>
+        <span>試験時間 {axis.duration}s</span>
+        <button
+          onClick={handleRun}
+          disabled={running}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          試験を実行
+        </button>
+        <button
+          onClick={() => setRuns([])}
+          disabled={runs.length === 0}
+          className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+        >
+          結果を消去
+        </button>
+      </div>
+
+      {running && <p className="text-sm text-gray-500">実行中…</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {overlaid.length > 0 && (
+        <StripChart
+          signal={signal}
+          samples={samples}
+          start={0}
+          end={samples[samples.length - 1]?.time ?? axis.duration}
+          cursor={cursor}
+          onCursorMove={setCursorTime}
+        />
+      )}
+
+      {runs.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-gray-600">
+            <thead>
+              <tr className="text-xs text-gray-500 text-left">
+                <th>#</th>
+                <th>制御器</th>
+                <th>軸</th>
+                <th>振幅</th>
+                <th>立ち上がり</th>
+                <th>行き過ぎ</th>
+                <th>整定</th>
+                <th>定常偏差</th>
+                <th>IAE</th>
+                <th>ISE</th>
+                <th>ITAE</th>
+                <th>∫u²dt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(({ id, result, ...run }) => {
+                const { metrics } = result;
+                const runAxis = tester.axes.find(
+                  item => item.id === run.axisId,
+                );
+                return (
+                  <tr
+                    key={id}
+                    className={result.failed ? 'text-red-600' : undefined}
+                  >
+                    <td>{id}</td>
+                    <td>{run.controllerName}</td>
+                    <td>
+                      {runAxis?.name ?? run.axisId}
+                      {result.failed && '（失敗）'}
+                    </td>
+                    <td>
+                      {run.amplitude}
+                      {runAxis?.unit}
+                    </td>
+                    <td>{formatTime(metrics.riseTime)}</td>
+                    <td>{metrics.overshoot.toFixed(1)}%</td>
+                    <td>{formatTime(metrics.settlingTime)}</td>
+                    <td>{metrics.steadyStateError.toPrecision(3)}</td>
+                    <td>{metrics.iae.toPrecision(3)}</td>
+                    <td>{metrics.ise.toPrecision(3)}</td>
+                    <td>{metrics.itae.toPrecision(3)}</td>
+                    <td>{metrics.controlEffort.toPrecision(3)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-500">
+            立ち上がりは変化量の 10→90%、整定は ±2%
+            の帯に入るまでの時間。失敗した試験は失敗までの評価値です。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StepTestPanel;
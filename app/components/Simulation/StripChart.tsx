@@ -0,0 +1,147 @@
+import type { MouseEvent } from 'react';
+import type { TelemetrySample } from './TelemetryRecorder';
+
+export interface ChartSeries {
+  key: string; // 記録の列名
+  label: string;
+  color: string;
+  dashed?: boolean; // 目標値など
+}
+
+// 1枚のグラフに重ねて描く信号
+export interface ChartSignal {
+  id: string;
+  label: string;
+  unit?: string;
+  series: ChartSeries[];
+}
+
+interface StripChartProps {
+  signal: ChartSignal;
+  samples: TelemetrySample[]; // 表示範囲の記録（古い順、描画用に間引き済み）
+  start: number; // 表示範囲の時刻[s]
+  end: number;
+  cursor: TelemetrySample | null; // カーソル位置の記録
+  onCursorMove: (time: number | null) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 80;
+const MARGIN = 2;
+
+const formatValue = (value: number | undefined): string =>
+  value === undefined
+    ? '-'
+    : Math.abs(value) >= 100
+    ? value.toFixed(1)
+    : value.toFixed(3);
+
+/**
+ * 時刻を横軸にした折れ線グラフ。縦軸は表示範囲の値に合わせて自動で拡大する。
+ * カーソルの時刻は親が管理し、並べたグラフで共有する。
+ */
+const StripChart = ({
+  signal,
+  samples,
+  start,
+  end,
+  cursor,
+  onCursorMove,
+}: StripChartProps) => {
+  const values = samples.flatMap(sample =>
+    signal.series
+      .map(series => sample[series.key])
+      .filter((value): value is number => Number.isFinite(value)),
+  );
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 1;
+  // 一定値でも線が見えるよう、幅がない場合は上下に広げる
+  const span = max - min > 1e-9 ? max - min : Math.max(Math.abs(max), 1) * 0.1;
+  const low = max - min > 1e-9 ? min : min - span / 2;
+
+  const duration = Math.max(end - start, 1e-9);
+  const toX = (time: number) => ((time - start) / duration) * WIDTH;
+  const toY = (value: number) =>
+    HEIGHT - MARGIN - ((value - low) / span) * (HEIGHT - 2 * MARGIN);
+
+  const handleMouseMove = (e: MouseEvent<SVGSVGElement>): void => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / Math.max(rect.width, 1);
+    onCursorMove(start + Math.min(Math.max(ratio, 0), 1) * duration);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between gap-x-4 text-xs text-gray-500">
+        <span>
+          {signal.label}
+          {signal.unit && ` [${signal.unit}]`}
+        </span>
+        <span className="flex flex-wrap gap-x-3">
+          {signal.series.map(series => (
+            <span key={series.key} style={{ color: series.color }}>
+              {series.label}
+              {cursor && `: ${formatValue(cursor[series.key])}`}
+            </span>
+          ))}
+        </span>
+      </div>
+      <div className="flex">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-16 bg-gray-50 rounded"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => onCursorMove(null)}
+        >
+          {low < 0 && low + span > 0 && (
+            <line
+              x1={0}
+              y1={toY(0)}
+              x2={WIDTH}
+              y2={toY(0)}
+              stroke="rgb(209 213 219)"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {signal.series.map(series => (
+            <polyline
+              key={series.key}
+              points={samples
+                .filter(sample => Number.isFinite(sample[series.key]))
+                .map(
+                  sample =>
+                    `${toX(sample.time).toFixed(1)},${toY(
+                      sample[series.key],
+                    ).toFixed(1)}`,
+                )
+                .join(' ')}
+              fill="none"
+              stroke={series.color}
+              strokeWidth={1.5}
+              strokeDasharray={series.dashed ? '4,3' : undefined}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {cursor && (
+            <line
+              x1={toX(cursor.time)}
+              y1={0}
+              x2={toX(cursor.time)}
+              y2={HEIGHT}
+              stroke="rgb(107 114 128)"
+              strokeDasharray="2,2"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        <div className="ml-1 flex w-12 flex-col justify-between text-[10px] text-gray-400">
+          <span>{formatValue(low + span)}</span>
+          <span>{formatValue(low)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StripChart;
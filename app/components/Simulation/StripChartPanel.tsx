@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import StripChart from './StripChart';
+import type { ChartSignal } from './StripChart';
+import type { TelemetrySample } from './TelemetryRecorder';
+
+interface StripChartPanelProps {
+  samples: TelemetrySample[]; // 古い順の記録
+  signals: ChartSignal[];
+  defaultSelected: string[]; // 最初に表示する信号の ID
+}
+
+// 表示する時間幅の選択肢[s]（null は記録全体）
+const WINDOWS: (number | null)[] = [5, 10, 30, 60, null];
+
+// 1系列あたりの描画点数の上限（これを超える分は間引く）
+const MAX_POINTS = 400;
+
+// 制御器の内部量の列名（controller.<ループ>.<項>）
+const CONTROLLER_PREFIX = 'controller.';
+
+const TERM_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#111827', '#9333ea'];
+
+/**
+ * 記録に含まれる制御器の内部量を、ループごとに1枚のグラフにまとめる。
+ * 「水平位置.P」「水平位置.I」のような名前は「水平位置」のグラフになる。
+ */
+export const controllerSignals = (
+  samples: TelemetrySample[],
+): ChartSignal[] => {
+  const groups = new Map<string, string[]>();
+  const latest = samples[samples.length - 1] ?? {};
+  Object.keys(latest)
+    .filter(key => key.startsWith(CONTROLLER_PREFIX))
+    .forEach(key => {
+      const name = key.slice(CONTROLLER_PREFIX.length);
+      const separator = name.lastIndexOf('.');
+      const group = separator > 0 ? name.slice(0, separator) : '制御器';
+      groups.set(group, [...(groups.get(group) ?? []), key]);
+    });
+
+  return Array.from(groups.entries()).map(([group, keys]) => ({
+    id: `${CONTROLLER_PREFIX}${group}`,
+    label: `制御器: ${group}`,
+    series: keys.map((key, i) => ({
+      key,
+      label: key.slice(key.lastIndexOf('.') + 1),
+      color: TERM_COLORS[i % TERM_COLORS.length],
+    })),
+  }));
+};
+
+// 描画点数が上限に収まるよう等間隔に間引く（最新の点は必ず残す）
+const decimate = (samples: TelemetrySample[]): TelemetrySample[] => {
+  const stride = Math.ceil(samples.length / MAX_POINTS);
+  if (stride <= 1) return samples;
+  const last = samples.length - 1;
+  return samples.filter((_, i) => (last - i) % stride === 0);
+};
+
+// 時刻が最も近い記録
+export const nearestSample = (
+  samples: TelemetrySample[],
+  time: number,
+): TelemetrySample | null =>
+  samples.reduce<TelemetrySample | null>(
+    (nearest, sample) =>
+      !nearest || Math.abs(sample.time - time) < Math.abs(nearest.time - time)
+        ? sample
+        : nearest,
+    null,
+  );
+
+// 信号を選んで時系列を並べて表示する。一時停止中は停止した時点の記録を表示し続ける
+const StripChartPanel = ({
+  samples,
+  signals,
+  defaultSelected,
+}: StripChartPanelProps) => {
+  const [selected, setSelected] = useState<string[]>(defaultSelected);
+  const [timeWindow, setTimeWindow] = useState<number | null>(10);
+  const [paused, setPaused] = useState<TelemetrySample[] | null>(null);
+  const [cursorTime, setCursorTime] = useState<number | null>(null);
+
+  const source = paused ?? samples;
+  const available = [...signals, ...controllerSignals(source)];
+
+  const end = source.length > 0 ? source[source.length - 1].time : 0;
+  const first = source.length > 0 ? source[0].time : 0;
+  const start = timeWindow === null ? first : end - timeWindow;
+  const visible = source.filter(sample => sample.time >= start);
+  const drawn = decimate(visible);
+  const cursor =
+    cursorTime === null ? null : nearestSample(visible, cursorTime);
+
+  const toggle = (id: string): void => {
+    setSelected(prev =>
+      prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id],
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">グラフ</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={timeWindow ?? ''}
+            onChange={e =>
+              setTimeWindow(
+                e.target.value === '' ? null : Number(e.target.value),
+              )
+            }
+            className="px-2 py-1 border rounded bg-white"
+          >
+            {WINDOWS.map(value => (
+              <option key={value ?? 'all'} value={value ?? ''}>
+                {value === null ? '全体' : `${value}秒`}
+              </option>
+            ))}
+          </select>
+          <button
+            className={`px-3 py-1 rounded ${
+              paused
+                ? 'bg-blue-500 text-white hover:bg-blue-600'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+            onClick={() => setPaused(paused ? null : [...samples])}
+          >
+            {paused ? '再開' : '一時停止'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+        {available.map(signal => (
+          <label key={signal.id} className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={selected.includes(signal.id)}
+              onChange={() => toggle(signal.id)}
+            />
+            <span>{signal.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {cursor && (
+        <div className="text-xs text-gray-500">
+          カーソル: {cursor.time.toFixed(2)}s
+        </div>
+      )}
+
+      {available
+        .filter(signal => selected.includes(signal.id))
+        .map(signal => (
+          <StripChart
+            key={signal.id}
+            signal={signal}
+            samples={drawn}
+            start={start}
+            end={end}
+            cursor={cursor}
+            onCursorMove={setCursorTime}
+          />
+        ))}
+    </div>
+  );
+};
+
+export default StripChartPanel;
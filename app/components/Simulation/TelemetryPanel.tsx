@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Telemetry } from './TelemetryRecorder';
+import type {
+  TelemetryConfig,
+  TelemetryMetadata,
+  TelemetryRecorder,
+} from './TelemetryRecorder';
+
+interface TelemetryPanelProps {
+  recorder: TelemetryRecorder;
+  // 書き出す時点の実行条件
+  getMetadata: () => TelemetryMetadata;
+  fileName: string; // 拡張子を除くファイル名
+}
+
+export const download = (
+  content: string,
+  fileName: string,
+  type: string,
+): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CONFIG_FIELDS: {
+  key: keyof TelemetryConfig;
+  label: string;
+  min: number;
+  step: number;
+}[] = [
+  { key: 'rate', label: '記録周波数[Hz]', min: 1, step: 1 },
+  { key: 'capacity', label: '保持件数', min: 100, step: 100 },
+];
+
+// 時系列の記録と CSV / JSON への書き出し（記録件数は親の再描画に合わせて更新される）
+const TelemetryPanel = ({
+  recorder,
+  getMetadata,
+  fileName,
+}: TelemetryPanelProps) => {
+  const [config, setConfig] = useState<TelemetryConfig>(recorder.getConfig());
+  const [enabled, setEnabled] = useState(recorder.isEnabled());
+  // 停止中に消去しても件数の表示を更新する
+  const [, setRevision] = useState(0);
+
+  const updateConfig = (patch: Partial<TelemetryConfig>): void => {
+    const next = { ...config, ...patch };
+    recorder.setConfig(next);
+    setConfig(next);
+  };
+
+  const handleExport = (format: 'csv' | 'json'): void => {
+    const samples = recorder.getSamples();
+    const metadata = {
+      ...getMetadata(),
+      exportedAt: new Date().toISOString(),
+      sampleRate: config.rate,
+    };
+    if (format === 'csv') {
+      download(
+        Telemetry.toCSV(samples, metadata),
+        `${fileName}.csv`,
+        'text/csv',
+      );
+    } else {
+      download(
+        Telemetry.toJSON(samples, metadata),
+        `${fileName}.json`,
+        'application/json',
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-medium text-gray-900">記録</h3>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={e => {
+              recorder.setEnabled(e.target.checked);
+              setEnabled(e.target.checked);
+            }}
+          />
+          <span>記録する</span>
+        </label>
+        {CONFIG_FIELDS.map(({ key, label, min, step }) => (
+          <label key={key} className="flex items-center space-x-2">
+            <span>{label}</span>
+            <input
+              type="number"
+              min={min}
+              step={step}
+              value={config[key]}
+              onChange={e => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= min) {
+                  updateConfig({ [key]: value });
+                }
+              }}
+              className="w-20 px-1 border rounded"
+            />
+          </label>
+        ))}
+        <span>{recorder.size()} 件</span>
+      </div>
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+          disabled={recorder.size() === 0}
+          onClick={() => handleExport('csv')}
+        >
+          CSV で保存
+        </button>
+        <button
+          className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+          disabled={recorder.size() === 0}
+          onClick={() => handleExport('json')}
+        >
+          JSON で保存
+        </button>
+        <button
+          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+          onClick={() => {
+            recorder.clear();
+            setRevision(n => n + 1);
+          }}
+        >
+          消去
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TelemetryPanel;
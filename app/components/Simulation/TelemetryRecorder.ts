@@ -0,0 +1,140 @@
+// 1時刻分の記録（列名 → 値）。time 列は記録時に付ける
+export type TelemetrySample = Record<string, number>;
+
+export interface TelemetryConfig {
+  rate: number; // 記録する周波数[Hz]（シミュレーションの刻みより細かくはならない）
+  capacity: number; // 保持する件数（超えたら古いものから捨てる）
+}
+
+// 書き出しに添える実行条件（パラメータ・ゲイン・シードなど）
+export type TelemetryMetadata = Record<string, unknown>;
+
+export const DEFAULT_TELEMETRY_CONFIG: TelemetryConfig = {
+  rate: 20,
+  capacity: 20000,
+};
+
+// 記録時刻を付けた1件分の記録
+export type TimedSample<Sample> = Sample & { time: number };
+
+/**
+ * シミュレーションの時系列を一定の周波数で記録するリングバッファ。
+ * 値の計算は記録する時刻にだけ行うよう、record には関数を渡す。
+ * 既定では数値の列を記録し、リプレイでは描画に使う状態をそのまま記録する。
+ */
+export class TelemetryRecorder<Sample extends object = TelemetrySample> {
+  private config: TelemetryConfig;
+  private buffer: TimedSample<Sample>[] = [];
+  private head = 0; // 次に書き込む位置（満杯のときは最も古い記録の位置）
+  private nextSampleTime = 0;
+  private enabled = true;
+
+  constructor(config: TelemetryConfig = DEFAULT_TELEMETRY_CONFIG) {
+    this.config = config;
+  }
+
+  public getConfig(): TelemetryConfig {
+    return this.config;
+  }
+
+  // 容量が減った場合は新しい記録を残す
+  public setConfig(config: TelemetryConfig): void {
+    const samples = this.getSamples();
+    this.config = config;
+    this.buffer = samples.slice(-Math.max(config.capacity, 1));
+    this.head = this.buffer.length % Math.max(config.capacity, 1);
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  public clear(): void {
+    this.buffer = [];
+    this.head = 0;
+    this.nextSampleTime = 0;
+  }
+
+  public size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * 前回の記録から 1/rate 以上経っていれば記録する。
+   * @returns 記録したか
+   */
+  public record(time: number, sample: () => Sample): boolean {
+    const { rate, capacity } = this.config;
+    if (!this.enabled || rate <= 0 || time < this.nextSampleTime - 1e-9) {
+      return false;
+    }
+    this.nextSampleTime = Math.max(this.nextSampleTime + 1 / rate, time);
+
+    const entry: TimedSample<Sample> = { time, ...sample() };
+    const size = Math.max(capacity, 1);
+    if (this.buffer.length < size) {
+      this.buffer.push(entry);
+    } else {
+      this.buffer[this.head] = entry;
+    }
+    this.head = (this.head + 1) % size;
+    return true;
+  }
+
+  // 古い順の記録
+  public getSamples(): TimedSample<Sample>[] {
+    if (this.buffer.length < Math.max(this.config.capacity, 1)) {
+      return [...this.buffer];
+    }
+    return [
+      ...this.buffer.slice(this.head),
+      ...this.buffer.slice(0, this.head),
+    ];
+  }
+}
+
+// 全記録に現れる列（time を先頭に、初出順）
+const collectColumns = (samples: TelemetrySample[]): string[] => {
+  const columns = new Set<string>(['time']);
+  samples.forEach(sample => {
+    Object.keys(sample).forEach(key => columns.add(key));
+  });
+  return Array.from(columns);
+};
+
+const escapeCSV = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const Telemetry = {
+  /**
+   * CSV に書き出す。実行条件は先頭の # 行に JSON で書く
+   * （pandas なら read_csv(..., comment='#') で読める）。
+   * 記録にない列は空欄になる。
+   */
+  toCSV(samples: TelemetrySample[], metadata: TelemetryMetadata): string {
+    const columns = collectColumns(samples);
+    const header = Object.entries(metadata).map(
+      ([key, value]) => `# ${key}: ${JSON.stringify(value)}`,
+    );
+    const rows = samples.map(sample =>
+      columns
+        .map(column =>
+          sample[column] === undefined ? '' : String(sample[column]),
+        )
+        .join(','),
+    );
+    return [...header, columns.map(escapeCSV).join(','), ...rows].join('\n');
+  },
+
+  toJSON(samples: TelemetrySample[], metadata: TelemetryMetadata): string {
+    return JSON.stringify(
+      { metadata, columns: collectColumns(samples), samples },
+      null,
+      2,
+    );
+  },
+};